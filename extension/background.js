@@ -1,30 +1,36 @@
 const REMINDERS_CACHE_KEY = "nexx_reminders_cache";
-const REMINDERS_UPDATED_KEY = "nexx_reminders_updated_at";
+// Change notice picked up by the page's change bus (src/components/IndexedDatabase/changeBus.ts).
+const DATA_CHANGE_KEY = "nexx_data_change";
 const ALARM_PREFIX = "nexx-reminder-";
-const DB_NAME = "bookmarkRemindersDB";
+// Shared app database; its schema and migrations are owned by the new tab page (src/components/IndexedDatabase/schema.ts).
+const DB_NAME = "nexxAppDB";
 const STORE_NAME = "reminders";
 
 const getReminderIdFromAlarm = (name) => name.slice(ALARM_PREFIX.length);
 
-const openRemindersDb = () =>
+// Opens at the current version without upgrading. If the page has not created the database
+// (or `storeName` in it) yet we abort instead of creating an empty one, and callers fall back or skip.
+const openAppDb = (storeName) =>
   new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, 1);
+    const request = indexedDB.open(DB_NAME);
     request.onupgradeneeded = () => {
+      request.transaction?.abort();
+    };
+    request.onsuccess = () => {
       const db = request.result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        const store = db.createObjectStore(STORE_NAME, { keyPath: "id" });
-        store.createIndex("bookmarkId", "bookmarkId", { unique: false });
-        store.createIndex("reminderAt", "reminderAt", { unique: false });
-        store.createIndex("enabled", "enabled", { unique: false });
-        store.createIndex("createdAt", "createdAt", { unique: false });
+      if (!db.objectStoreNames.contains(storeName)) {
+        db.close();
+        reject(new Error("App database is not initialised yet"));
+        return;
       }
+      db.onversionchange = () => db.close();
+      resolve(db);
     };
-    request.onsuccess = () => resolve(request.result);
     request.onerror = () => reject(request.error);
   });
 
 const getAllRemindersFromDb = async () => {
-  const db = await openRemindersDb();
+  const db = await openAppDb(STORE_NAME);
   return new Promise((resolve, reject) => {
     const tx = db.transaction(STORE_NAME, "readonly");
     const request = tx.objectStore(STORE_NAME).getAll();
@@ -34,7 +40,7 @@ const getAllRemindersFromDb = async () => {
 };
 
 const saveReminderToDb = async (reminder) => {
-  const db = await openRemindersDb();
+  const db = await openAppDb(STORE_NAME);
   return new Promise((resolve, reject) => {
     const tx = db.transaction(STORE_NAME, "readwrite");
     tx.objectStore(STORE_NAME).put(reminder);
@@ -58,7 +64,7 @@ const loadReminders = async () => {
 const syncRemindersCache = async (reminders) => {
   await chrome.storage.local.set({
     [REMINDERS_CACHE_KEY]: reminders,
-    [REMINDERS_UPDATED_KEY]: Date.now(),
+    [DATA_CHANGE_KEY]: { store: STORE_NAME, origin: "service-worker", at: Date.now() },
   });
 };
 
@@ -103,6 +109,88 @@ const updateReminderInStore = async (id, updates) => {
   return next;
 };
 
+// Reminder settings live in the page's localStorage; the service worker reads the copy the page keeps in the
+// meta store (see takeScheduledSnapshot below).
+const readAutoCompleteOnOpen = async () => {
+  try {
+    const mirror = await readRecord(await openAppDb("meta"), "meta", PREFERENCES_MIRROR_KEY);
+    return mirror?.device?.reminderSettings?.autoCompleteOnOpen === true;
+  } catch {
+    return false;
+  }
+};
+
+// A Read Later item opened from its notification is being read, or done with auto-complete on open.
+const markReadLaterOpened = async (reminder) => {
+  if (reminder.category !== "read_later" || reminder.completedAt) return;
+  if (await readAutoCompleteOnOpen()) {
+    await updateReminderInStore(reminder.id, { readState: "done", completedAt: Date.now(), enabled: false, snoozeUntil: undefined });
+    return;
+  }
+  if (reminder.readState && reminder.readState !== "unread") return;
+  await updateReminderInStore(reminder.id, { readState: "reading" });
+};
+
+// Opens per bookmark node, as recordBookmarkOpen in src/components/bookmarks/bookmarkOpens.ts writes them;
+// keep the record format and limits in step.
+const OPENS_STORE = "opens";
+const TILES_STORE = "tiles";
+const RECENT_OPENS = 10;
+const HISTOGRAM_DAYS = 90;
+
+const pad2 = (value) => String(value).padStart(2, "0");
+
+// Local `yyyy-MM-dd` date `offset` days before `now`
+const dayKeyBefore = (now, offset) => {
+  const date = new Date(now);
+  const day = new Date(date.getFullYear(), date.getMonth(), date.getDate() - offset);
+  return `${day.getFullYear()}-${pad2(day.getMonth() + 1)}-${pad2(day.getDate())}`;
+};
+
+// Reminders set from a tile hold the tile id; opens are counted per node
+const reminderNodeId = async (db, bookmarkId) => {
+  const tile = db.objectStoreNames.contains(TILES_STORE) ? await readRecord(db, TILES_STORE, bookmarkId) : null;
+  return tile?.nodeId || bookmarkId;
+};
+
+const recordReminderOpen = async (reminder) => {
+  const db = await openAppDb(OPENS_STORE);
+  const nodeId = await reminderNodeId(db, reminder.bookmarkId);
+  const now = Date.now();
+  const oldest = dayKeyBefore(now, HISTOGRAM_DAYS - 1);
+  const today = dayKeyBefore(now, 0);
+  await new Promise((resolve, reject) => {
+    const tx = db.transaction(OPENS_STORE, "readwrite");
+    const store = tx.objectStore(OPENS_STORE);
+    const request = store.get(nodeId);
+    request.onsuccess = () => {
+      const previous = request.result;
+      const days = Object.fromEntries(Object.entries(previous?.days || {}).filter(([date]) => date >= oldest));
+      days[today] = (days[today] || 0) + 1;
+      store.put({
+        nodeId,
+        url: reminder.bookmarkUrl || previous?.url,
+        count: (previous?.count || 0) + 1,
+        lastOpenedAt: now,
+        recent: [now, ...(previous?.recent || [])].slice(0, RECENT_OPENS),
+        days,
+      });
+    };
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+  await chrome.storage.local.set({
+    [DATA_CHANGE_KEY]: { store: OPENS_STORE, ids: [nodeId], origin: "service-worker", at: now },
+  });
+};
+
+// Opening from a notification counts as an open, like opening from the page
+const openReminderPage = async (reminder) => {
+  chrome.tabs.create({ url: reminder.bookmarkUrl });
+  await recordReminderOpen(reminder).catch((error) => console.warn("[nexx-reminders] could not record the open:", error));
+  await markReadLaterOpened(reminder);
+};
+
 chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
   if (message?.type !== "NEXX_ADD_REMINDER") return undefined;
 
@@ -120,6 +208,8 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
       category: payload.category,
       priority: payload.priority || "medium",
       repeat: payload.repeat || { type: "none" },
+      readState: payload.category === "read_later" ? "unread" : undefined,
+      readingMinutes: payload.readingMinutes,
       enabled: true,
       createdAt: now,
       updatedAt: now,
@@ -159,7 +249,7 @@ chrome.notifications.onButtonClicked.addListener(async (notificationId, buttonIn
 
   switch (buttonIndex) {
     case 0:
-      if (reminder.bookmarkUrl) chrome.tabs.create({ url: reminder.bookmarkUrl });
+      if (reminder.bookmarkUrl) await openReminderPage(reminder);
       break;
     case 1: {
       const snoozeUntil = Date.now() + 30 * 60_000;
@@ -168,7 +258,11 @@ chrome.notifications.onButtonClicked.addListener(async (notificationId, buttonIn
       break;
     }
     case 2:
-      await updateReminderInStore(reminderId, { completedAt: Date.now(), enabled: false });
+      await updateReminderInStore(reminderId, {
+        completedAt: Date.now(),
+        enabled: false,
+        ...(reminder.category === "read_later" && { readState: "done" }),
+      });
       break;
     default:
       break;
@@ -182,10 +276,124 @@ chrome.notifications.onClicked.addListener(async (notificationId) => {
   const reminderId = notificationId.slice("reminder-".length);
   const reminders = await loadReminders();
   const reminder = reminders.find((r) => r.id === reminderId);
-  if (reminder?.bookmarkUrl) chrome.tabs.create({ url: reminder.bookmarkUrl });
+  if (reminder?.bookmarkUrl) await openReminderPage(reminder);
   chrome.notifications.clear(notificationId);
 });
 
+// Scheduled local snapshots. The page owns the format and takes the manual, import and sync ones
+// (src/components/settings/localSnapshots.ts); keep these names in step with it.
+const SNAPSHOT_ALARM = "nexx-snapshot";
+const SNAPSHOT_STORE = "snapshots";
+const SNAPSHOT_SETTINGS_KEY = "nexx_snapshot_settings";
+const SNAPSHOT_LAST_AT_KEY = "nexx_snapshot_last_at";
+const PREFERENCES_MIRROR_KEY = "preferencesMirror";
+const DEFAULT_SNAPSHOT_SETTINGS = { frequency: "daily", keep: 7 };
+const SNAPSHOT_PERIOD_MINUTES = { daily: 24 * 60, weekly: 7 * 24 * 60 };
+// Pruned by the page on their own, so scheduled snapshots only count against each other.
+const SAFETY_SNAPSHOT_REASONS = ["import", "sync"];
+// Collection name in a backup -> store in the app database.
+const SNAPSHOT_COLLECTIONS = {
+  reminders: "reminders",
+  tasks: "tasks",
+  alarms: "alarms",
+  bookmarks: "tiles",
+  backgrounds: "backgrounds",
+};
+
+const getSnapshotState = () =>
+  new Promise((resolve) => {
+    chrome.storage.local.get([SNAPSHOT_SETTINGS_KEY, SNAPSHOT_LAST_AT_KEY], (result) => {
+      resolve({
+        settings: { ...DEFAULT_SNAPSHOT_SETTINGS, ...(result?.[SNAPSHOT_SETTINGS_KEY] || {}) },
+        lastAt: result?.[SNAPSHOT_LAST_AT_KEY] || 0,
+      });
+    });
+  });
+
+const readStore = (db, storeName) =>
+  new Promise((resolve, reject) => {
+    const request = db.transaction(storeName, "readonly").objectStore(storeName).getAll();
+    request.onsuccess = () => resolve(request.result || []);
+    request.onerror = () => reject(request.error);
+  });
+
+const readRecord = (db, storeName, key) =>
+  new Promise((resolve, reject) => {
+    const request = db.transaction(storeName, "readonly").objectStore(storeName).get(key);
+    request.onsuccess = () => resolve(request.result || null);
+    request.onerror = () => reject(request.error);
+  });
+
+// Alarms may not survive a browser restart, so the first delay counts from the last snapshot.
+const scheduleSnapshots = async () => {
+  const { settings, lastAt } = await getSnapshotState();
+  const period = SNAPSHOT_PERIOD_MINUTES[settings.frequency];
+  const existing = await chrome.alarms.get(SNAPSHOT_ALARM);
+  if (!period) {
+    if (existing) await chrome.alarms.clear(SNAPSHOT_ALARM);
+    return;
+  }
+  if (existing?.periodInMinutes === period) return;
+  const dueInMinutes = Math.max(1, (lastAt + period * 60_000 - Date.now()) / 60_000);
+  await chrome.alarms.create(SNAPSHOT_ALARM, { delayInMinutes: dueInMinutes, periodInMinutes: period });
+};
+
+const takeScheduledSnapshot = async () => {
+  const db = await openAppDb(SNAPSHOT_STORE);
+  const { settings } = await getSnapshotState();
+  const entries = await Promise.all(
+    Object.entries(SNAPSHOT_COLLECTIONS).map(async ([name, storeName]) => [name, await readStore(db, storeName)]),
+  );
+  const mirror = await readRecord(db, "meta", PREFERENCES_MIRROR_KEY);
+  const now = Date.now();
+  const backup = {
+    format: "nexx-tab-backup",
+    version: 2,
+    exportedAt: new Date(now).toISOString(),
+    preferences: mirror?.preferences || {},
+    device: mirror?.device || {},
+    ...Object.fromEntries(entries),
+  };
+  const snapshot = {
+    id: crypto.randomUUID(),
+    createdAt: now,
+    reason: "scheduled",
+    size: new TextEncoder().encode(JSON.stringify(backup)).length,
+    counts: Object.fromEntries(entries.map(([name, records]) => [name, records.length])),
+    backup,
+  };
+
+  const expired = (await readStore(db, SNAPSHOT_STORE))
+    .filter((existing) => !SAFETY_SNAPSHOT_REASONS.includes(existing.reason))
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .slice(Math.max(0, settings.keep - 1));
+
+  await new Promise((resolve, reject) => {
+    const tx = db.transaction(SNAPSHOT_STORE, "readwrite");
+    const store = tx.objectStore(SNAPSHOT_STORE);
+    store.put(snapshot);
+    for (const old of expired) store.delete(old.id);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+  await chrome.storage.local.set({
+    [SNAPSHOT_LAST_AT_KEY]: now,
+    [DATA_CHANGE_KEY]: { store: SNAPSHOT_STORE, origin: "service-worker", at: now },
+  });
+};
+
+chrome.alarms.onAlarm.addListener((alarm) => {
+  if (alarm.name !== SNAPSHOT_ALARM) return;
+  takeScheduledSnapshot().catch((error) => console.warn("[nexx-snapshots] scheduled snapshot failed:", error));
+});
+
+chrome.storage.onChanged.addListener((changes, area) => {
+  if (area !== "local" || !changes[SNAPSHOT_SETTINGS_KEY]) return;
+  scheduleSnapshots().catch((error) => console.warn("[nexx-snapshots] could not schedule snapshots:", error));
+});
+
+scheduleSnapshots().catch((error) => console.warn("[nexx-snapshots] could not schedule snapshots:", error));
+
 chrome.runtime.onInstalled.addListener(() => {
   chrome.notifications.getPermissionLevel((level) => {
     if (level === "denied") {
@@ -18,6 +18,8 @@ const STRINGS = {
     minute: "Min",
     note: "Note",
     notePlaceholder: "Why is this important?",
+    readLater: "Add to Read Later",
+    readingTime: (minutes) => `~${minutes} min read`,
     cancel: "Cancel",
     save: "Save",
     unsupported: "This page cannot be bookmarked.",
@@ -57,6 +59,8 @@ const STRINGS = {
     minute: "دقیقه",
     note: "یادداشت",
     notePlaceholder: "چرا این صفحه مهم است؟",
+    readLater: "افزودن به «بعداً بخوان»",
+    readingTime: (minutes) => `حدود ${minutes} دقیقه مطالعه`,
     cancel: "انصراف",
     save: "ذخیره",
     unsupported: "این صفحه قابل بوک‌مارک نیست.",
@@ -144,6 +148,8 @@ const els = {
   labelHour: document.getElementById("labelHour"),
   labelMinute: document.getElementById("labelMinute"),
   reminderNote: document.getElementById("reminderNote"),
+  readLaterEnabled: document.getElementById("readLaterEnabled"),
+  readingTime: document.getElementById("readingTime"),
   cancelBtn: document.getElementById("cancelBtn"),
   saveBtn: document.getElementById("saveBtn"),
   labelTitle: document.getElementById("labelTitle"),
@@ -152,6 +158,7 @@ const els = {
   labelDate: document.getElementById("labelDate"),
   labelTime: document.getElementById("labelTime"),
   labelNote: document.getElementById("labelNote"),
+  labelReadLater: document.getElementById("labelReadLater"),
 };
 
 els.popupTitle.textContent = t.titleNew;
@@ -167,11 +174,18 @@ els.labelHour.textContent = t.hour;
 els.labelMinute.textContent = t.minute;
 els.labelNote.textContent = t.note;
 els.reminderNote.placeholder = t.notePlaceholder;
+els.labelReadLater.textContent = t.readLater;
 els.cancelBtn.textContent = t.cancel;
 els.saveBtn.textContent = t.save;
 
 /** @type {{ id?: string, title: string, url: string, isBookmarked: boolean } | null} */
 let pageState = null;
+/** Estimated reading time of the tab in minutes, saved with Read Later items. */
+let readingMinutes;
+/** @type {number | undefined} */
+let activeTabId;
+/** @type {Promise<void> | null} */
+let readingTimeEstimate = null;
 /** @type {Array<{ id: string, title: string, children: any[] }>} */
 let folderRoots = [];
 /** @type {Set<string>} */
@@ -415,6 +429,38 @@ const getActiveTab = () =>
     });
   });
 
+// Same figure as READING_WORDS_PER_MINUTE in src/components/bookmarks/reminders/readLater.ts
+const READING_WORDS_PER_MINUTE = 230;
+
+// Counts the words of the tab's article (or whole page) through activeTab; pages scripts can't run on give undefined.
+const estimateReadingMinutes = async (tabId) => {
+  try {
+    const [result] = await chrome.scripting.executeScript({
+      target: { tabId },
+      func: () => {
+        const root = document.querySelector("article") || document.querySelector("main") || document.body;
+        return root ? root.innerText.split(/\s+/).filter(Boolean).length : 0;
+      },
+    });
+    const words = result?.result || 0;
+    return words ? Math.max(1, Math.round(words / READING_WORDS_PER_MINUTE)) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// Reads the page only once Read Later is ticked, and only the first time.
+const showReadingTime = () => {
+  if (!els.readLaterEnabled.checked || activeTabId === undefined) return;
+  if (readingTimeEstimate) return;
+  readingTimeEstimate = estimateReadingMinutes(activeTabId).then((minutes) => {
+    readingMinutes = minutes;
+    if (!minutes) return;
+    els.readingTime.textContent = t.readingTime(localizeNumber(minutes));
+    els.readingTime.hidden = false;
+  });
+};
+
 const findBookmarkByUrl = (url) =>
   new Promise((resolve) => {
     chrome.bookmarks.search({ url }, (results) => {
@@ -591,6 +637,9 @@ const loadExistingReminder = async (bookmarkId, url) => {
   );
 };
 
+// Set once the user touches the reminder form, so live updates never overwrite their input.
+let reminderEdited = false;
+
 const applyExistingReminder = (reminder) => {
   if (!reminder) {
     els.reminderEnabled.checked = true;
@@ -603,6 +652,8 @@ const applyExistingReminder = (reminder) => {
   els.reminderFields.hidden = false;
   setSelectedDateTime(new Date(reminder.snoozeUntil || reminder.reminderAt));
   els.reminderNote.value = reminder.note || "";
+  els.readLaterEnabled.checked = reminder.category === "read_later";
+  showReadingTime();
 };
 
 els.folderTrigger.addEventListener("click", (e) => {
@@ -639,6 +690,21 @@ els.reminderEnabled.addEventListener("change", () => {
   els.reminderFields.hidden = !els.reminderEnabled.checked;
 });
 
+els.readLaterEnabled.addEventListener("change", showReadingTime);
+
+for (const eventName of ["input", "click"]) {
+  els.reminderEnabled.addEventListener(eventName, () => (reminderEdited = true));
+  els.reminderFields.addEventListener(eventName, () => (reminderEdited = true));
+}
+
+// A reminder edited in an open tab (or fired by the service worker) refreshes the popup in place.
+chrome.storage.onChanged.addListener(async (changes, area) => {
+  if (area !== "local" || !changes.nexx_reminders_cache) return;
+  if (!pageState?.isBookmarked || reminderEdited) return;
+  const reminder = await loadExistingReminder(pageState.id, pageState.url);
+  if (!reminderEdited) applyExistingReminder(reminder);
+});
+
 els.cancelBtn.addEventListener("click", () => window.close());
 
 els.saveBtn.addEventListener("click", async () => {
@@ -667,6 +733,7 @@ els.saveBtn.addEventListener("click", async () => {
     if (els.reminderEnabled.checked) {
       const reminderAt = selectedDate.getTime();
       if (!Number.isFinite(reminderAt)) throw new Error("Invalid date/time");
+      if (els.readLaterEnabled.checked) await readingTimeEstimate;
 
       await chrome.runtime.sendMessage({
         type: "NEXX_ADD_REMINDER",
@@ -677,6 +744,7 @@ els.saveBtn.addEventListener("click", async () => {
           note: els.reminderNote.value.trim() || undefined,
           reminderAt,
           dateOnly: false,
+          ...(els.readLaterEnabled.checked && { category: "read_later", readingMinutes }),
           priority: "medium",
           repeat: { type: "none" },
         },
@@ -716,6 +784,7 @@ const init = async () => {
     return;
   }
 
+  activeTabId = tab.id;
   const existing = await findBookmarkByUrl(url);
 
   if (existing) {
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { ClockCalendar } from "./components/ClockCalendar";
 import { Weather } from "./components/Weather";
 import { TimerAlarm } from "./components/TimerAlarm";
@@ -13,29 +13,17 @@ import { useTheme } from "./components/ThemeProvider";
 import "./i18n/i18n"; // Import i18n initialization
 
 import { parseStoredBackground, resolveBackgroundUrl } from "./components/settings/backgroundUtils";
+import { backgroundsDB, type StoredBackground } from "./components/settings/settingsDb";
 import { CorgiLayer } from "./features/corgi";
 import { LoadingPage } from "./components/LoadingPage";
 import "./App.css";
 
 const MIN_BOOT_LOADING_MS = 1200;
 
-// Helper function to get image from IndexedDB
+// Helper function to get an uploaded image from IndexedDB
 const getImageFromIndexedDB = async (id: string): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open("backgroundsDB", 1);
-
-    request.onerror = () => reject(request.error);
-
-    request.onsuccess = () => {
-      const db = request.result;
-      const transaction = db.transaction(["images"], "readonly");
-      const store = transaction.objectStore("images");
-      const getRequest = store.get(id);
-
-      getRequest.onsuccess = () => resolve(getRequest.result?.data);
-      getRequest.onerror = () => reject(getRequest.error);
-    };
-  });
+  const stored = await backgroundsDB.getItem<StoredBackground>(id);
+  return stored?.url ?? "";
 };
 
 function App() {
@@ -81,6 +69,18 @@ function App() {
     }
   };
 
+  // A board with its own background replaces the global one while it is shown
+  const handleBoardBackgroundChange = useCallback((boardBackground: string | null) => {
+    const saved = boardBackground ?? localStorage.getItem("selectedBackground");
+    if (saved) {
+      handleBackgroundChange(parseStoredBackground(saved));
+    } else {
+      setBackground("");
+      document.documentElement.style.backgroundImage = "";
+      document.documentElement.style.backgroundColor = "";
+    }
+  }, []);
+
   // Boot: gear loading page, then reveal the dashboard
   useEffect(() => {
     const boot = async () => {
@@ -158,7 +158,7 @@ function App() {
 
               <div className="dashboard-col dashboard-col--bookmarks">
                 <div className="dashboard-widget">
-                  <Bookmarks />
+                  <Bookmarks onBoardBackgroundChange={handleBoardBackgroundChange} />
                 </div>
               </div>
             </div>
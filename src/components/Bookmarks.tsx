@@ -1,18 +1,66 @@
 import { useEffect, useState, useRef, useCallback, useMemo, Fragment, type CSSProperties } from "react";
 import ReactDOM from "react-dom";
-import createDatabase from "./IndexedDatabase/IndexedDatabase";
-import { Folder, ChevronLeft, ChevronDown, MoreHorizontal, Settings, Plus, Trash2, Palette, Search, X, List, Smile, Bell } from "lucide-react";
+import { Folder, ChevronLeft, ChevronDown, MoreHorizontal, Settings, Plus, Trash2, Palette, Search, X, List, Smile, Bell, HeartPulse, Tag, Pin, BookmarkPlus, History, BarChart3, Sparkles, Layers, Unlink, CheckSquare, Undo2, BookOpen } from "lucide-react";
 import Sortable from "sortablejs";
 import { throttle } from "lodash";
 import { useCalendar } from "./Settings";
 import { buildThemeCssVars } from "./settings/themeUtils";
 import { useI18n } from "../i18n/LanguageProvider";
 import { scheduleSyncPush } from "./settings/settingsSync";
+import { bookmarksDB } from "./settings/settingsDb";
+import { subscribeDataChanges } from "./IndexedDatabase/changeBus";
+import { STORES } from "./IndexedDatabase/schema";
 import { BookmarkFavicon } from "./bookmarks/BookmarkFavicon";
 import { cacheFaviconForUrl, prefetchFaviconsForUrls } from "./bookmarks/faviconCache";
 import { BookmarkReminderModal } from "./bookmarks/reminders/BookmarkReminderModal";
 import { ReminderManager } from "./bookmarks/reminders/ReminderManager";
+import { ReadLaterModal } from "./bookmarks/reminders/ReadLaterModal";
+import { estimateReadingMinutes, isReadLaterPage, readLaterInput, readStateOf } from "./bookmarks/reminders/readLater";
 import { useReminders } from "./bookmarks/reminders/RemindersContext";
+import type { BookmarkReminder, ReminderInput } from "./bookmarks/reminders/types";
+import { BookmarkHealthModal } from "./bookmarks/health/BookmarkHealthModal";
+import { TileSuggestionsModal } from "./bookmarks/TileSuggestionsModal";
+import { TabSessionsModal } from "./bookmarks/TabSessionsModal";
+import { TileSelectionBar } from "./bookmarks/TileSelectionBar";
+import { clearTiles, moveTilesToBoard, recolorTiles, restoreTiles, setTilesIcon, tilesInRange, type BulkUndo } from "./bookmarks/tileBulkEdit";
+import { indexBookmarkTree, isOrphanedTile, relinkTileByUrl, subscribeBookmarkChanges, withNodeMetadata } from "./bookmarks/bookmarkTracking";
+import { TileBoardBar } from "./bookmarks/TileBoardBar";
+import { TileBoardSettingsModal } from "./bookmarks/TileBoardSettingsModal";
+import { BookmarkTagsModal } from "./bookmarks/BookmarkTagsModal";
+import { BookmarkStatsModal } from "./bookmarks/BookmarkStatsModal";
+import {
+  SEARCH_TILE_TYPE,
+  countTags,
+  createSavedSearch,
+  deleteSavedSearch,
+  listSavedSearches,
+  loadTagIndex,
+  saveSavedSearch,
+  setBookmarkTags,
+  type BookmarkTagIndex,
+  type SavedSearch,
+  type TaggedNode,
+} from "./bookmarks/bookmarkTags";
+import { parseBookmarkQuery, toggleQueryTag } from "./bookmarks/bookmarkQuery";
+import { createBookmarkSearch, rankBookmarkNodes, type SearchField } from "./bookmarks/bookmarkSearch";
+import { highlightRanges, prepareFuzzyQuery, type FuzzyQuery } from "./bookmarks/fuzzySearch";
+import { clearOpenHistory, loadOpenStats, recordBookmarkOpen, type BookmarkOpenStats } from "./bookmarks/bookmarkOpens";
+import { useIncrementalBookmarkSearch } from "./bookmarks/useBookmarkSearch";
+import {
+  DEFAULT_BOARD_ID,
+  createBoard,
+  deleteBoard,
+  getActiveBoardId,
+  isGroupingType,
+  isSortType,
+  listBoards,
+  loadBoardTiles,
+  saveBoard,
+  setActiveBoardId as saveActiveBoardId,
+  type GroupingType,
+  type SortType,
+  type TileBoard,
+} from "./bookmarks/tileBoards";
 import "./Bookmarks.css";
 import "./shared/themedSelect.css";
 // Import emoji-mart
@@ -26,7 +74,10 @@ interface BookmarkNode {
   id: string;
   title: string;
   url?: string;
+  parentId?: string;
   children?: BookmarkNode[];
+  /** Set on the virtual folder of a pinned saved search. */
+  savedSearchId?: string;
 }
 
 interface TileConfig {
@@ -38,7 +89,10 @@ interface TileConfig {
   tileColor: string;
   tileIcon: string;
   position: number;
+  /** Absent on tiles of the default board. */
+  boardId?: string;
   createdAt: number;
+  updatedAt?: number;
 }
 
 interface ActionMenuPortalProps {
@@ -50,44 +104,38 @@ interface ActionMenuPortalProps {
   onColor: () => void;
   onIcon?: () => void;
   onReminder?: () => void;
+  onTags?: () => void;
+  onStats?: () => void;
+  onReadLater?: () => void;
   onClose: () => void;
   themeStyle: CSSProperties;
-  labels: { edit: string; clear: string; color: string; icon: string; reminder: string };
+  labels: { edit: string; clear: string; color: string; icon: string; reminder: string; tags: string; stats: string; readLater: string };
 }
 
-// Add types for grouping / sorting options
-type GroupingType = "none" | "alphabetical" | "type";
-type SortType = "default" | "name-asc" | "name-desc" | "type";
-type SearchField = "all" | "name" | "address";
-
 // Add interfaces for grouped nodes
 interface GroupedData {
   title: string;
   nodes: BookmarkNode[];
 }
 
-// --- Database Setup ---
-const bookmarkDB = createDatabase({
-  dbName: "bookmarkManagerDB",
-  storeName: "tiles",
-  version: 1,
-  keyPath: "id",
-  indexes: [
-    { name: "createdAt", keyPath: "createdAt", unique: false },
-    { name: "position", keyPath: "position", unique: false }, // Add index for position
-  ],
-});
-
-// Create a database for bookmark settings
-// const bookmarkSettingsDB = createDatabase({
-//   dbName: "bookmarkSettingsDB",
-//   storeName: "settings",
-//   version: 1,
-//   keyPath: "id",
-//   indexes: [
-//     { name: "updatedAt", keyPath: "updatedAt", unique: false },
-//   ],
-// });
+/** Most results the search window lists; the rest are counted but not rendered. */
+const SEARCH_RESULT_LIMIT = 200;
+
+/** How long the last bulk tile edit can be undone. */
+const BULK_UNDO_MS = 15000;
+
+// Chrome's invisible root; its children are the bookmarks bar, other bookmarks and mobile bookmarks
+const ROOT_BOOKMARK_NODE_ID = "0";
+
+// "Last opened" grouping: group titles are `opened:<bucket>`, for nodes last opened within `days` days
+const OPENED_GROUP_PREFIX = "opened:";
+const DAY_MS = 24 * 60 * 60 * 1000;
+const OPENED_BUCKETS: { bucket: string; days: number }[] = [
+  { bucket: "today", days: 1 },
+  { bucket: "week", days: 7 },
+  { bucket: "month", days: 30 },
+  { bucket: "earlier", days: Infinity },
+];
 
 // --- Helper Functions ---
 function transformBookmarkNode(node: chrome.bookmarks.BookmarkTreeNode): BookmarkNode {
@@ -95,6 +143,7 @@ function transformBookmarkNode(node: chrome.bookmarks.BookmarkTreeNode): Bookmar
     id: node.id,
     title: node.title,
     url: node.url,
+    parentId: node.parentId,
     tileIcon: node.children ? "📁" : "default",
     tileColor: "rgba(0, 0, 0, 0.6)", // Default color
     children: node.children?.map((child) => transformBookmarkNode(child)),
@@ -121,39 +170,23 @@ function getHostname(url?: string): string {
   }
 }
 
-function matchesName(title: string, term: string): boolean {
-  return title.toLowerCase().includes(term.toLowerCase());
-}
-
-function matchesAddress(url: string | undefined, term: string): boolean {
-  const lowerTerm = term.toLowerCase();
-  if (url?.toLowerCase().includes(lowerTerm)) return true;
-  return getHostname(url).toLowerCase().includes(lowerTerm);
-}
-
-function matchesSearchField(title: string, url: string | undefined, term: string, field: SearchField): boolean {
-  if (field === "name") return matchesName(title, term);
-  if (field === "address") return matchesAddress(url, term);
-  return matchesName(title, term) || matchesAddress(url, term);
-}
-
-function nodeMatchesSearch(node: BookmarkNode, term: string, field: SearchField = "all"): boolean {
-  return matchesSearchField(node.title, node.url, term, field);
-}
-
-function searchNodesRecursive(nodes: BookmarkNode[], term: string, field: SearchField = "all"): BookmarkNode[] {
-  const results: BookmarkNode[] = [];
-
-  for (const node of nodes) {
-    if (nodeMatchesSearch(node, term, field)) {
-      results.push(node);
-    }
-    if (node.children?.length) {
-      results.push(...searchNodesRecursive(node.children, term, field));
-    }
-  }
-
-  return results;
+// Wraps the parts of `text` that match the search in <mark>
+function renderHighlighted(text: string, query: FuzzyQuery) {
+  const ranges = highlightRanges(query, text);
+  if (!ranges.length) return text;
+  const parts: React.ReactNode[] = [];
+  let last = 0;
+  ranges.forEach(([start, end]) => {
+    if (start > last) parts.push(text.slice(last, start));
+    parts.push(
+      <mark key={start} className="bookmarks-highlight">
+        {text.slice(start, end)}
+      </mark>
+    );
+    last = end;
+  });
+  if (last < text.length) parts.push(text.slice(last));
+  return parts;
 }
 
 // --- Color Picker Component ---
@@ -226,7 +259,7 @@ function ColorPicker({
 
 // --- Action Menu Component (Portal) ---
 const MENU_WIDTH = 112;
-const MENU_HEIGHT = 168;
+const MENU_HEIGHT = 200;
 const MENU_MARGIN = 8;
 
 function getMenuPosition(buttonRect: DOMRect) {
@@ -249,7 +282,21 @@ function getMenuPosition(buttonRect: DOMRect) {
   return { top, left };
 }
 
-function ActionMenuPortal({ tile, buttonRect, onEdit, onClear, onColor, onIcon, onReminder, onClose, themeStyle, labels }: ActionMenuPortalProps) {
+function ActionMenuPortal({
+  tile,
+  buttonRect,
+  onEdit,
+  onClear,
+  onColor,
+  onIcon,
+  onReminder,
+  onTags,
+  onStats,
+  onReadLater,
+  onClose,
+  themeStyle,
+  labels,
+}: ActionMenuPortalProps) {
   const { top, left } = getMenuPosition(buttonRect);
   const style = {
     position: "fixed" as const,
@@ -314,6 +361,51 @@ function ActionMenuPortal({ tile, buttonRect, onEdit, onClear, onColor, onIcon,
           <span>{labels.reminder}</span>
         </button>
       )}
+      {tile.type === "bookmark" && tile.url && onReadLater && (
+        <button
+          id={`read-later-button-${tile.id}`}
+          type="button"
+          onClick={(e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            onReadLater();
+            onClose();
+          }}
+        >
+          <BookOpen className="w-3.5 h-3.5" />
+          <span>{labels.readLater}</span>
+        </button>
+      )}
+      {(tile.type === "bookmark" || tile.type === "folder") && onTags && (
+        <button
+          id={`tags-button-${tile.id}`}
+          type="button"
+          onClick={(e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            onTags();
+            onClose();
+          }}
+        >
+          <Tag className="w-3.5 h-3.5" />
+          <span>{labels.tags}</span>
+        </button>
+      )}
+      {tile.type === "bookmark" && onStats && (
+        <button
+          id={`stats-button-${tile.id}`}
+          type="button"
+          onClick={(e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            onStats();
+            onClose();
+          }}
+        >
+          <BarChart3 className="w-3.5 h-3.5" />
+          <span>{labels.stats}</span>
+        </button>
+      )}
       {tile.type === "folder" && onIcon && (
         <button
           id={`icon-button-${tile.id}`}
@@ -334,10 +426,15 @@ function ActionMenuPortal({ tile, buttonRect, onEdit, onClear, onColor, onIcon,
 }
 
 // --- Main Bookmarks Component ---
-export function Bookmarks() {
-  const { tileNumber, textColor, backgroundColor } = useCalendar();
+interface BookmarksProps {
+  /** Called with the active board's own background, or null when it uses the global one. */
+  onBoardBackgroundChange?: (background: string | null) => void;
+}
+
+export function Bookmarks({ onBoardBackgroundChange }: BookmarksProps = {}) {
+  const { tileNumber: globalTileNumber, textColor, backgroundColor } = useCalendar();
   const { t } = useI18n();
-  const { addReminder, reminders } = useReminders();
+  const { addReminder, updateReminder, deleteReminder, markPagesOpened, reminders } = useReminders();
 
   const tileHasReminder = useCallback(
     (tile: TileConfig) =>
@@ -361,6 +458,9 @@ export function Bookmarks() {
       color: t("bookmarks.color"),
       icon: t("bookmarks.icon"),
       reminder: t("bookmarks.reminder.setReminder"),
+      tags: t("bookmarks.tags.menu"),
+      stats: t("bookmarks.stats.menu"),
+      readLater: t("bookmarks.readLater.add"),
     }),
     [t]
   );
@@ -369,6 +469,7 @@ export function Bookmarks() {
     (title: string) => {
       if (title === "Folders") return t("bookmarks.folders");
       if (title === "Bookmarks") return t("bookmarks.bookmarksGroup");
+      if (title.startsWith(OPENED_GROUP_PREFIX)) return t(`bookmarks.opened.${title.slice(OPENED_GROUP_PREFIX.length)}`);
       return title;
     },
     [t]
@@ -388,12 +489,49 @@ export function Bookmarks() {
   const [folderSearchTerm, setFolderSearchTerm] = useState<string>(""); // New state for folder panel search
   const [isSearchingBookmarks, setIsSearchingBookmarks] = useState(false);
   const [searchField, setSearchField] = useState<SearchField>("all");
-  const [groupingType, setGroupingTypeState] = useState<GroupingType>("none");
-  const [sortType, setSortTypeState] = useState<SortType>("default");
+  const [fallbackGroupingType, setFallbackGroupingType] = useState<GroupingType>("none");
+  const [fallbackSortType, setFallbackSortType] = useState<SortType>("default");
   const [searchRecursive, setSearchRecursiveState] = useState(false);
   const [openSelectId, setOpenSelectId] = useState<string | null>(null);
   const [reminderTile, setReminderTile] = useState<TileConfig | null>(null);
   const [isReminderManagerOpen, setIsReminderManagerOpen] = useState(false);
+  const [isReadLaterOpen, setIsReadLaterOpen] = useState(false);
+  const [isHealthOpen, setIsHealthOpen] = useState(false);
+  const [tagIndex, setTagIndex] = useState<BookmarkTagIndex>(new Map());
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [tagTarget, setTagTarget] = useState<TaggedNode | null>(null);
+  const [openStats, setOpenStats] = useState<Map<string, BookmarkOpenStats>>(new Map());
+  const [statsTarget, setStatsTarget] = useState<TaggedNode | null>(null);
+  const [isSuggestionsOpen, setIsSuggestionsOpen] = useState(false);
+  const [isSessionsOpen, setIsSessionsOpen] = useState(false);
+  const [isSelectingTiles, setIsSelectingTiles] = useState(false);
+  const [selectedTileIds, setSelectedTileIds] = useState<Set<string>>(new Set());
+  const [bulkPicker, setBulkPicker] = useState<"color" | "icon" | "reminder" | null>(null);
+  const [bulkColor, setBulkColor] = useState<string>("rgba(0, 0, 0, 0.6)");
+  // The last bulk operation, with what it takes to undo it; `skipped` tiles didn't fit on the target board
+  const [bulkResult, setBulkResult] = useState<{ undo: BulkUndo<TileConfig>; skipped: number } | null>(null);
+  // Orphaned tiles for which no bookmark with the same address was found
+  const [unlinkableTileIds, setUnlinkableTileIds] = useState<Set<string>>(new Set());
+  const [boards, setBoards] = useState<TileBoard[]>([]);
+  const [activeBoardId, setActiveBoardIdState] = useState<string>(() => getActiveBoardId());
+  const [isBoardSettingsOpen, setIsBoardSettingsOpen] = useState(false);
+
+  // Each board can override the tile count and the folder view preferences; unset ones follow the global values.
+  const activeBoard = boards.find((board) => board.id === activeBoardId);
+  const tileNumber = activeBoard?.tileNumber ?? globalTileNumber;
+  const groupingType = activeBoard?.groupingType ?? fallbackGroupingType;
+  const sortType = activeBoard?.sortType ?? fallbackSortType;
+
+  // The search window covers the whole tree, so it is searched a slice at a time and only the best matches are listed
+  const treeSearchQuery = useMemo(
+    () => (isSearchingBookmarks && searchTerm.trim() ? createBookmarkSearch(searchTerm, searchField, tagIndex, openStats) : null),
+    [isSearchingBookmarks, searchTerm, searchField, tagIndex, openStats]
+  );
+  const treeSearch = useIncrementalBookmarkSearch(treeSearchQuery, bookmarks, SEARCH_RESULT_LIMIT);
+  // Null until the tree is loaded, so tiles are not taken for orphans meanwhile
+  const nodeIndex = useMemo(() => (bookmarks.length ? indexBookmarkTree(bookmarks) : null), [bookmarks]);
+  const selectorHighlight = useMemo(() => prepareFuzzyQuery(parseBookmarkQuery(searchTerm).text), [searchTerm]);
+  const folderHighlight = useMemo(() => prepareFuzzyQuery(parseBookmarkQuery(folderSearchTerm).text), [folderSearchTerm]);
 
   const [selectedTileColor, setSelectedTileColor] = useState<string>("rgba(0, 0, 0, 0.6)"); // State for color
   const [isColorPickerOpen, setIsColorPickerOpen] = useState(false);
@@ -406,23 +544,29 @@ export function Bookmarks() {
 
   // --- Refs ---
   const selectorRef = useRef<HTMLDivElement>(null);
+  const currentFolderRef = useRef<BookmarkNode | null>(null);
+  const activeFolderContentRef = useRef<BookmarkNode | null>(null);
   const folderContentRef = useRef<HTMLDivElement>(null);
   const tileGridRef = useRef<HTMLDivElement>(null);
   const searchInputRef = useRef<HTMLInputElement>(null);
   const sortableRef = useRef<Sortable | null>(null);
   const menuButtonRefs = useRef<(HTMLButtonElement | null)[]>([]);
+  // Grid index Shift+click selects from
+  const selectionAnchorRef = useRef<number | null>(null);
 
-  // Custom setters that also save to localStorage
-  const setGroupingType = (type: GroupingType) => {
-    setGroupingTypeState(type);
-    localStorage.setItem("typeofBookmarkForm", type);
+  const updateBoard = async (board: TileBoard) => {
+    setBoards((prev) => prev.map((existing) => (existing.id === board.id ? board : existing)));
+    await saveBoard(board);
     scheduleSyncPush();
   };
 
+  // Grouping and sort are saved on the active board
+  const setGroupingType = (type: GroupingType) => {
+    if (activeBoard) void updateBoard({ ...activeBoard, groupingType: type });
+  };
+
   const setSortType = (type: SortType) => {
-    setSortTypeState(type);
-    localStorage.setItem("bookmarkSortType", type);
-    scheduleSyncPush();
+    if (activeBoard) void updateBoard({ ...activeBoard, sortType: type });
   };
 
   const setSearchRecursive = (recursive: boolean) => {
@@ -445,6 +589,16 @@ export function Bookmarks() {
       setSearchTerm("");
       setFolderSearchTerm("");
       setSearchField("all");
+      setIsBoardSettingsOpen(false);
+      setIsHealthOpen(false);
+      setTagTarget(null);
+      setStatsTarget(null);
+      setIsSuggestionsOpen(false);
+      setIsSessionsOpen(false);
+      setIsReadLaterOpen(false);
+      setIsSelectingTiles(false);
+      setSelectedTileIds(new Set());
+      setBulkPicker(null);
     };
 
     window.addEventListener("nexx:settings-open", closeAll);
@@ -452,54 +606,115 @@ export function Bookmarks() {
   }, []);
 
   // --- Data Loading ---
-  // Load initial data (bookmarks and tiles)
-  useEffect(() => {
-    const loadData = async () => {
-      try {
-        // Load all tiles from database
-        const storedTiles = await bookmarkDB.getAllItems<TileConfig>();
+  const loadBoards = useCallback(async () => {
+    const stored = await listBoards();
+    setBoards(stored);
+    // The active board may have been deleted on another device
+    setActiveBoardIdState((current) => (stored.some((board) => board.id === current) ? current : DEFAULT_BOARD_ID));
+  }, []);
 
-        // Sort tiles by position
-        const sortedTiles = storedTiles.sort((a, b) => a.position - b.position);
+  // Tags and saved searches share the bookmarks store with the tiles
+  const loadTagData = useCallback(async () => {
+    const [index, searches] = await Promise.all([loadTagIndex(), listSavedSearches()]);
+    setTagIndex(index);
+    setSavedSearches(searches);
+  }, []);
 
-        // Initialize tile array with the right length
-        const initialTiles: (TileConfig | null)[] = Array(tileNumber).fill(null);
+  const loadTiles = useCallback(async () => {
+    // Load the active board's tiles, ordered by position
+    const sortedTiles = await loadBoardTiles<TileConfig>(activeBoardId);
 
-        // Fill in the tiles at their positions
-        sortedTiles.forEach((tile) => {
-          if (tile.position < tileNumber) {
-            initialTiles[tile.position] = tile;
-          }
+    // Initialize tile array with the right length
+    const initialTiles: (TileConfig | null)[] = Array(tileNumber).fill(null);
+
+    // Fill in the tiles at their positions
+    sortedTiles.forEach((tile) => {
+      if (tile.position < tileNumber) {
+        initialTiles[tile.position] = tile;
+      }
+    });
+
+    setTiles(initialTiles);
+
+    const bookmarkUrls = sortedTiles
+      .filter((tile) => tile.type === "bookmark" && tile.url)
+      .map((tile) => tile.url as string);
+    void prefetchFaviconsForUrls(bookmarkUrls, 32);
+  }, [activeBoardId, tileNumber]);
+
+  // An open folder view is a copy taken when it was opened; it is fetched again with the tree. A folder removed
+  // in the meantime gives way to its parent, or closes when that is gone too.
+  const refreshFolderView = useCallback(
+    (
+      folderRef: React.MutableRefObject<BookmarkNode | null>,
+      setFolder: React.Dispatch<React.SetStateAction<BookmarkNode | null>>
+    ) => {
+      const folder = folderRef.current;
+      if (!folder || folder.savedSearchId) return;
+      const show = (node?: chrome.bookmarks.BookmarkTreeNode) => {
+        if (folderRef.current?.id !== folder.id) return;
+        setFolder(node ? transformBookmarkNode(node) : null);
+      };
+
+      chrome.bookmarks.getSubTree(folder.id, (nodes) => {
+        if (!chrome.runtime.lastError && nodes?.[0]) {
+          show(nodes[0]);
+          return;
+        }
+        if (!folder.parentId || folder.parentId === ROOT_BOOKMARK_NODE_ID) {
+          show();
+          setFolderHistory([]);
+          return;
+        }
+        chrome.bookmarks.getSubTree(folder.parentId, (parents) => {
+          const parent = chrome.runtime.lastError ? undefined : parents?.[0];
+          if (folderRef.current?.id !== folder.id) return;
+          show(parent);
+          // The parent is usually the last step back; keep it from showing twice in the breadcrumb
+          setFolderHistory((prev) =>
+            !parent ? [] : prev[prev.length - 1]?.id === parent.id ? prev.slice(0, prev.length - 1) : prev
+          );
         });
+      });
+    },
+    []
+  );
 
-        setTiles(initialTiles);
+  const loadBookmarkTree = useCallback(() => {
+    chrome.bookmarks.getTree((bookmarkNodes) => {
+      setBookmarks(bookmarkNodes[0].children?.map(transformBookmarkNode) || []);
+    });
+    refreshFolderView(currentFolderRef, setCurrentFolder);
+    refreshFolderView(activeFolderContentRef, setActiveFolderContent);
+  }, [refreshFolderView]);
+
+  useEffect(() => {
+    currentFolderRef.current = currentFolder;
+    activeFolderContentRef.current = activeFolderContent;
+  }, [currentFolder, activeFolderContent]);
 
-        const bookmarkUrls = sortedTiles
-          .filter((tile) => tile.type === "bookmark" && tile.url)
-          .map((tile) => tile.url as string);
-        void prefetchFaviconsForUrls(bookmarkUrls, 32);
+  // Load initial data (bookmarks and tiles)
+  useEffect(() => {
+    const loadData = async () => {
+      try {
+        await loadBoards();
+        await loadTiles();
+        await loadTagData();
+        setOpenStats(await loadOpenStats());
 
         // Get bookmark data from Chrome
-        chrome.bookmarks.getTree((bookmarkNodes) => {
-          const transformedNodes = bookmarkNodes[0].children?.map(transformBookmarkNode) || [];
-          setBookmarks(transformedNodes);
-        });
+        loadBookmarkTree();
 
         // Load grouping / sort preferences from localStorage
         try {
           const savedGroupingType = localStorage.getItem("typeofBookmarkForm");
-          if (savedGroupingType === "none" || savedGroupingType === "alphabetical" || savedGroupingType === "type") {
-            setGroupingTypeState(savedGroupingType);
+          if (isGroupingType(savedGroupingType)) {
+            setFallbackGroupingType(savedGroupingType);
           }
 
           const savedSortType = localStorage.getItem("bookmarkSortType");
-          if (
-            savedSortType === "default" ||
-            savedSortType === "name-asc" ||
-            savedSortType === "name-desc" ||
-            savedSortType === "type"
-          ) {
-            setSortTypeState(savedSortType);
+          if (isSortType(savedSortType)) {
+            setFallbackSortType(savedSortType);
           }
 
           const savedSearchRecursive = localStorage.getItem("bookmarkSearchRecursive");
@@ -515,7 +730,98 @@ export function Bookmarks() {
     };
 
     loadData();
-  }, [tileNumber]);
+  }, [loadBoards, loadTiles, loadTagData, loadBookmarkTree]);
+
+  // Keep the grid in step with boards and tiles edited in other tabs
+  useEffect(
+    () =>
+      subscribeDataChanges([bookmarksDB.storeName], () => {
+        Promise.all([loadBoards(), loadTiles(), loadTagData()]).catch((error) => console.error("Error reloading tiles:", error));
+      }),
+    [loadBoards, loadTiles, loadTagData]
+  );
+
+  // Follow edits made in Chrome's bookmark manager, by Chrome sync or by other extensions
+  useEffect(() => subscribeBookmarkChanges(loadBookmarkTree), [loadBookmarkTree]);
+
+  // Renamed bookmarks and edited addresses are shown on the tiles but not saved: the node's title and address
+  // belong to this browser profile, and writing them into the synced tile would have two profiles with
+  // different titles overwrite each other on every sync.
+  useEffect(() => {
+    if (!nodeIndex) return;
+    const updated = tiles.flatMap((tile) => (tile ? (withNodeMetadata(tile, nodeIndex) ?? []) : []));
+    if (!updated.length) return;
+    const byId = new Map(updated.map((tile) => [tile.id, tile]));
+    setTiles((prevTiles) => prevTiles.map((tile) => (tile && byId.get(tile.id)) || tile));
+  }, [tiles, nodeIndex]);
+
+  // Search ranking follows opens made here, from reminders and in other tabs
+  useEffect(
+    () =>
+      subscribeDataChanges([STORES.opens], () => {
+        loadOpenStats()
+          .then(setOpenStats)
+          .catch((error) => console.error("Error reloading open stats:", error));
+      }),
+    []
+  );
+
+  // Only report changes, so the global background applied at boot is not loaded twice
+  const appliedBoardBackgroundRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (boards.length === 0) return;
+    const background = activeBoard?.background ?? null;
+    if (background === appliedBoardBackgroundRef.current) return;
+    appliedBoardBackgroundRef.current = background;
+    onBoardBackgroundChange?.(background);
+  }, [boards.length, activeBoard?.background, onBoardBackgroundChange]);
+
+  const selectBoard = useCallback((boardId: string) => {
+    saveActiveBoardId(boardId);
+    setActiveBoardIdState(boardId);
+    setOpenMenuId(null);
+    setActiveFolderContent(null);
+  }, []);
+
+  // Alt+1…9 switches boards unless the user is typing
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!event.altKey || event.ctrlKey || event.metaKey) return;
+      const match = /^Digit([1-9])$/.exec(event.code);
+      if (!match) return;
+      const target = event.target as HTMLElement | null;
+      if (target?.closest("input, textarea, select, [contenteditable='true']")) return;
+      const board = boards[Number(match[1]) - 1];
+      if (!board) return;
+      event.preventDefault();
+      selectBoard(board.id);
+    };
+
+    document.addEventListener("keydown", onKeyDown);
+    return () => document.removeEventListener("keydown", onKeyDown);
+  }, [boards, selectBoard]);
+
+  const addBoard = async () => {
+    const title = prompt(t("bookmarks.boards.newName"))?.trim();
+    if (!title) return;
+    const board = await createBoard(title, Math.max(0, ...boards.map((existing) => existing.order)) + 1);
+    setBoards((prev) => [...prev, board]);
+    selectBoard(board.id);
+    scheduleSyncPush();
+  };
+
+  const saveBoardSettings = async (board: TileBoard) => {
+    setIsBoardSettingsOpen(false);
+    await updateBoard(board);
+  };
+
+  const deleteActiveBoard = async () => {
+    setIsBoardSettingsOpen(false);
+    await deleteBoard(activeBoardId);
+    selectBoard(DEFAULT_BOARD_ID);
+    await loadBoards();
+    scheduleSyncPush();
+  };
 
   // Ensure menuButtonRefs array has the correct length based on tileNumber
   useEffect(() => {
@@ -526,6 +832,8 @@ export function Bookmarks() {
   // Handle clicks outside the selector and folder content to close them.
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
+      // The tag editor opens over the browser; clicks in it must not close what is underneath
+      if (tagTarget) return;
       if ((isSelecting || isSearchingBookmarks) && selectorRef.current && !selectorRef.current.contains(event.target as Node)) {
         if (isSelecting) {
           setIsSelecting(false);
@@ -548,7 +856,7 @@ export function Bookmarks() {
 
     document.addEventListener("mousedown", handleClickOutside);
     return () => document.removeEventListener("mousedown", handleClickOutside);
-  }, [isSelecting, isSearchingBookmarks, activeFolderContent]);
+  }, [isSelecting, isSearchingBookmarks, activeFolderContent, tagTarget]);
 
   // Handle clicks outside the action menu to close it.
   useEffect(() => {
@@ -591,13 +899,8 @@ export function Bookmarks() {
         // Update positions and save to database
         const updatedTiles = newTiles.map((tile, index) => (tile ? { ...tile, position: index } : null));
 
-        // Save each tile with its new position
-        for (let i = 0; i < updatedTiles.length; i++) {
-          const tile = updatedTiles[i];
-          if (tile) {
-            await bookmarkDB.saveItem(tile);
-          }
-        }
+        // Save every moved tile in one transaction so a failed write can't leave duplicate positions
+        await bookmarksDB.bulkPut(updatedTiles.filter((tile): tile is TileConfig => tile !== null));
 
         setTiles(updatedTiles);
         scheduleSyncPush();
@@ -619,6 +922,30 @@ export function Bookmarks() {
     };
   }, [handleSortEndCallback]);
 
+  // Tiles can't be dragged while they are being selected
+  useEffect(() => {
+    sortableRef.current?.option("disabled", isSelectingTiles);
+  }, [isSelectingTiles, handleSortEndCallback]);
+
+  // Esc leaves selection mode unless a picker is open over it
+  useEffect(() => {
+    if (!isSelectingTiles || bulkPicker) return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== "Escape") return;
+      setIsSelectingTiles(false);
+      setSelectedTileIds(new Set());
+    };
+    document.addEventListener("keydown", onKeyDown);
+    return () => document.removeEventListener("keydown", onKeyDown);
+  }, [isSelectingTiles, bulkPicker]);
+
+  // The undo offer goes away after a while
+  useEffect(() => {
+    if (!bulkResult) return;
+    const timer = setTimeout(() => setBulkResult(null), BULK_UNDO_MS);
+    return () => clearTimeout(timer);
+  }, [bulkResult]);
+
   useEffect(() => {
     if (isSearchingBookmarks) {
       searchInputRef.current?.focus();
@@ -653,12 +980,17 @@ export function Bookmarks() {
     setSearchField("all");
   };
 
-  const openBookmarkUrl = (url: string, e?: React.MouseEvent) => {
-    if (e?.ctrlKey) {
-      window.open(url, "_blank");
-    } else {
-      window.location.href = url;
+  // Opens are counted for search ranking and move Read Later items along; both are written before the page
+  // navigates away
+  const openBookmarkUrl = async (nodeId: string, url: string, e?: React.MouseEvent) => {
+    if (e?.ctrlKey) window.open(url, "_blank");
+    try {
+      await recordBookmarkOpen(nodeId, url);
+      await markPagesOpened([{ nodeId, url }]);
+    } catch (error) {
+      console.error("Error recording bookmark open:", error);
     }
+    if (!e?.ctrlKey) window.location.href = url;
   };
 
   const selectNode = async (node: BookmarkNode) => {
@@ -673,12 +1005,37 @@ export function Bookmarks() {
       tileColor: node.tileColor || "rgba(0, 0, 0, 0.6)",
       tileIcon: node.tileIcon || (node.children ? "📁" : "default"),
       position: selectedTileIndex,
+      boardId: activeBoardId,
       createdAt: Date.now(),
     };
 
     await updateTile(newTile);
   };
 
+  // An accepted suggestion takes the first empty slot of the shown board
+  const acceptSuggestion = async (node: chrome.bookmarks.BookmarkTreeNode) => {
+    const slot = tiles.indexOf(null);
+    if (slot === -1) return;
+
+    const newTile: TileConfig = {
+      id: crypto.randomUUID(),
+      type: "bookmark",
+      nodeId: node.id,
+      title: node.title,
+      url: node.url,
+      tileColor: "rgba(0, 0, 0, 0.6)",
+      tileIcon: "default",
+      position: slot,
+      boardId: activeBoardId,
+      createdAt: Date.now(),
+    };
+
+    await bookmarksDB.saveItem(newTile);
+    if (newTile.url) void cacheFaviconForUrl(newTile.url, 32);
+    setTiles((prevTiles) => prevTiles.map((tile, index) => (index === slot ? newTile : tile)));
+    scheduleSyncPush();
+  };
+
   const updateTile = async (tile: TileConfig, color?: string, icon?: string) => {
     if (selectedTileIndex === null && tileIndexForColor === null && tileIndexForIcon === null) return;
 
@@ -694,7 +1051,7 @@ export function Bookmarks() {
     };
 
     // Save to database directly like in Notes.tsx
-    await bookmarkDB.saveItem(updatedTile);
+    await bookmarksDB.saveItem(updatedTile);
 
     if (updatedTile.type === "bookmark" && updatedTile.url) {
       void cacheFaviconForUrl(updatedTile.url, 32);
@@ -722,7 +1079,7 @@ export function Bookmarks() {
     if (!tileToClear) return;
 
     // Delete from database
-    await bookmarkDB.deleteItem(tileToClear.id);
+    await bookmarksDB.deleteItem(tileToClear.id);
 
     // Update state
     setTiles((prevTiles) => {
@@ -733,6 +1090,134 @@ export function Bookmarks() {
     scheduleSyncPush();
   };
 
+  const relinkTile = async (index: number) => {
+    const tile = tiles[index];
+    if (!tile) return;
+    const relinked = await relinkTileByUrl(tile);
+    if (!relinked) {
+      setUnlinkableTileIds((prev) => new Set(prev).add(tile.id));
+      return;
+    }
+    setTiles((prevTiles) => prevTiles.map((existing, existingIndex) => (existingIndex === index ? relinked : existing)));
+    scheduleSyncPush();
+  };
+
+  // --- Selection Mode ---
+  const selectedTiles = tiles.filter((tile): tile is TileConfig => tile !== null && selectedTileIds.has(tile.id));
+  const openableTiles = selectedTiles.filter((tile) => tile.type === "bookmark" && tile.url);
+
+  const boardCapacity = (boardId: string) => boards.find((board) => board.id === boardId)?.tileNumber ?? globalTileNumber;
+
+  const startTileSelection = () => {
+    setOpenMenuId(null);
+    setActiveFolderContent(null);
+    setSelectedTileIds(new Set());
+    selectionAnchorRef.current = null;
+    setIsSelectingTiles(true);
+  };
+
+  const endTileSelection = () => {
+    setIsSelectingTiles(false);
+    setSelectedTileIds(new Set());
+    setBulkPicker(null);
+  };
+
+  // Click and Ctrl+click toggle a tile, Shift+click adds every tile from the last clicked one
+  const handleSelectionClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!isSelectingTiles) return;
+    const element = (e.target as HTMLElement).closest<HTMLElement>("[data-tile-index]");
+    if (!element) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const index = Number(element.dataset.tileIndex);
+    const tile = tiles[index];
+    if (!tile) return;
+    const anchor = selectionAnchorRef.current;
+    setSelectedTileIds((prev) => {
+      const next = new Set(prev);
+      if (e.shiftKey && anchor !== null) {
+        tilesInRange(tiles, anchor, index).forEach((rangeTile) => next.add(rangeTile.id));
+      } else if (next.has(tile.id)) {
+        next.delete(tile.id);
+      } else {
+        next.add(tile.id);
+      }
+      return next;
+    });
+    selectionAnchorRef.current = index;
+  };
+
+  const runBulk = async (task: () => Promise<BulkUndo<TileConfig>>) => {
+    const requested = selectedTiles.length;
+    try {
+      const undo = await task();
+      setBulkResult({ undo, skipped: undo.action === "move" ? requested - undo.count : 0 });
+      await loadTiles();
+      scheduleSyncPush();
+    } catch (error) {
+      console.error("Error editing tiles:", error);
+    }
+  };
+
+  const undoBulk = async () => {
+    if (!bulkResult) return;
+    const { undo } = bulkResult;
+    setBulkResult(null);
+    try {
+      if (undo.before.length) await restoreTiles(undo.before, boardCapacity);
+      for (const reminderId of undo.reminderIds) await deleteReminder(reminderId);
+      await loadTiles();
+      scheduleSyncPush();
+    } catch (error) {
+      console.error("Error undoing tile edit:", error);
+    }
+  };
+
+  // Every selected tile gets its own copy of the same reminder
+  const addBulkReminder = async (input: ReminderInput) => {
+    const reminderIds: string[] = [];
+    for (const tile of selectedTiles) {
+      const reminder = await addReminder({
+        ...input,
+        bookmarkId: tile.id,
+        bookmarkTitle: tile.title,
+        bookmarkUrl: tile.type === "folder" ? undefined : tile.url,
+      });
+      reminderIds.push(reminder.id);
+    }
+    setBulkResult({ undo: { action: "reminder", count: reminderIds.length, before: [], reminderIds }, skipped: 0 });
+  };
+
+  // Pages already waiting in the queue are skipped. Reading times are filled in afterwards, when host access was
+  // granted before (from the Read Later view or the link check).
+  const addToReadLater = async (candidates: TileConfig[]) => {
+    const pages = candidates.filter((tile) => tile.type === "bookmark" && tile.url);
+    const fresh = pages.filter(
+      (tile) => !reminders.some((r) => isReadLaterPage(r, tile.id, tile.url as string) && readStateOf(r) !== "done"),
+    );
+    const added: BookmarkReminder[] = [];
+    for (const tile of fresh) added.push(await addReminder(readLaterInput(tile)));
+    setBulkResult({
+      undo: { action: "readLater", count: added.length, before: [], reminderIds: added.map((reminder) => reminder.id) },
+      skipped: pages.length - fresh.length,
+    });
+    for (const reminder of added) {
+      const readingMinutes = await estimateReadingMinutes(reminder.bookmarkUrl);
+      if (readingMinutes) await updateReminder(reminder.id, { readingMinutes });
+    }
+  };
+
+  const openSelectedTiles = async (inNewWindow: boolean) => {
+    const urls = openableTiles.map((tile) => tile.url as string);
+    await Promise.all(openableTiles.map((tile) => recordBookmarkOpen(tile.nodeId, tile.url).catch(() => undefined)));
+    await markPagesOpened(openableTiles.map((tile) => ({ nodeId: tile.nodeId, url: tile.url as string })));
+    if (inNewWindow) {
+      await chrome.windows.create({ url: urls, focused: true });
+    } else {
+      for (const url of urls) await chrome.tabs.create({ url, active: false });
+    }
+  };
+
   const handleColorClick = (index: number) => {
     setTileIndexForColor(index);
     const tile = tiles[index];
@@ -910,17 +1395,180 @@ export function Bookmarks() {
     nodes: BookmarkNode[],
     term: string,
     recursive = false,
-    field: SearchField = "all"
+    field: SearchField = "all",
+    path: string[] = []
   ): BookmarkNode[] => {
     if (!term) return nodes;
-    if (recursive) return searchNodesRecursive(nodes, term, field);
+    return rankBookmarkNodes(createBookmarkSearch(term, field, tagIndex, openStats), nodes, recursive, path);
+  };
+
+  // Titles from the tree root down to `folder`, as far as the user navigated
+  const folderPath = (folder: BookmarkNode | null) => (folder ? [...folderHistory, folder].map((node) => node.title) : []);
+
+  // --- Tags and Saved Searches ---
+  const saveTags = async (tags: string[]) => {
+    if (!tagTarget) return;
+    const node = tagTarget;
+    setTagTarget(null);
+    await setBookmarkTags(node, tags);
+    setTagIndex(await loadTagIndex());
+    scheduleSyncPush();
+  };
+
+  const saveCurrentSearch = async () => {
+    const query = searchTerm.trim();
+    const title = prompt(t("bookmarks.savedSearches.name"), query)?.trim();
+    if (!title) return;
+    const search = await createSavedSearch(title, query);
+    setSavedSearches((prev) => [...prev, search]);
+    scheduleSyncPush();
+  };
+
+  const toggleSavedSearchPin = async (search: SavedSearch) => {
+    const next = { ...search, pinned: !search.pinned };
+    setSavedSearches((prev) => prev.map((existing) => (existing.id === next.id ? next : existing)));
+    await saveSavedSearch(next);
+    scheduleSyncPush();
+  };
+
+  const removeSavedSearch = async (search: SavedSearch) => {
+    if (!confirm(t("bookmarks.savedSearches.deleteConfirm", { name: search.title }))) return;
+    await deleteSavedSearch(search.id);
+    setSavedSearches((prev) => prev.filter((existing) => existing.id !== search.id));
+    // Tiles the search was pinned to are gone too
+    await loadTiles();
+    scheduleSyncPush();
+  };
+
+  // A pinned search is shown as a folder whose contents are its results at the time it is opened
+  const savedSearchFolder = (search: SavedSearch, withResults: boolean): BookmarkNode => ({
+    id: `${SEARCH_TILE_TYPE}:${search.id}`,
+    title: search.title,
+    tileIcon: "default",
+    tileColor: "rgba(0, 0, 0, 0.6)",
+    children: withResults ? filterNodesBySearch(bookmarks, search.query, true) : [],
+    savedSearchId: search.id,
+  });
+
+  const openSavedSearchFolder = (searchId: string) => {
+    const search = savedSearches.find((candidate) => candidate.id === searchId);
+    if (!search) return;
+    const folder = savedSearchFolder(search, true);
+    if (isSelecting || isSearchingBookmarks) {
+      if (currentFolder) {
+        setFolderHistory((prev) => [...prev, currentFolder]);
+      }
+      setCurrentFolder(folder);
+      setSearchTerm("");
+    } else {
+      if (activeFolderContent) {
+        setFolderHistory((prev) => [...prev, activeFolderContent]);
+      }
+      setActiveFolderContent(folder);
+    }
+  };
 
-    return nodes.filter((node) => nodeMatchesSearch(node, term, field));
+  const renderTagChips = (nodeId: string, limit: number) => {
+    const tags = tagIndex.get(nodeId);
+    if (!tags?.length) return null;
+    return (
+      <span className="bookmarks-tag-chips" title={tags.map((tag) => `#${tag}`).join(" ")}>
+        {tags.slice(0, limit).map((tag) => (
+          <span key={tag} className="bookmarks-tag bookmarks-tag--small">
+            #{tag}
+          </span>
+        ))}
+        {tags.length > limit && <span className="bookmarks-tag bookmarks-tag--small">+{tags.length - limit}</span>}
+      </span>
+    );
+  };
+
+  const renderTagButton = (node: BookmarkNode) => (
+    <button
+      type="button"
+      className="bookmark-selector-item__tag"
+      title={t("bookmarks.tags.menu")}
+      aria-label={t("bookmarks.tags.menu")}
+      onClick={(e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        setTagTarget({ id: node.id, title: node.title, url: node.url });
+      }}
+    >
+      <Tag className="w-3 h-3" />
+    </button>
+  );
+
+  const renderSearchShortcuts = () => {
+    const tagCounts = countTags(tagIndex);
+    const activeTags = parseBookmarkQuery(searchTerm).tags;
+    const hasSearchTerm = searchTerm.trim().length > 0;
+    if (!tagCounts.length && !savedSearches.length && !hasSearchTerm) return null;
+
+    return (
+      <div className="bookmarks-search-shortcuts">
+        {tagCounts.length > 0 && (
+          <div className="bookmarks-tag-list" role="group" aria-label={t("bookmarks.tags.filter")}>
+            <Tag className="w-3.5 h-3.5 opacity-60" aria-hidden />
+            {tagCounts.map(([tag, count]) => (
+              <button
+                key={tag}
+                type="button"
+                className={`bookmarks-tag${activeTags.includes(tag) ? " is-active" : ""}`}
+                aria-pressed={activeTags.includes(tag)}
+                onClick={() => setSearchTerm((prev) => toggleQueryTag(prev, tag))}
+              >
+                #{tag}
+                <span className="bookmarks-tag__count">{count}</span>
+              </button>
+            ))}
+          </div>
+        )}
+        {(savedSearches.length > 0 || hasSearchTerm) && (
+          <div className="bookmarks-tag-list" role="group" aria-label={t("bookmarks.savedSearches.title")}>
+            {savedSearches.map((search) => (
+              <span key={search.id} className={`bookmarks-saved-search${search.query === searchTerm.trim() ? " is-active" : ""}`}>
+                <button type="button" onClick={() => setSearchTerm(search.query)} title={search.query}>
+                  {search.title}
+                </button>
+                <button
+                  type="button"
+                  className={search.pinned ? "is-pinned" : ""}
+                  onClick={() => toggleSavedSearchPin(search)}
+                  aria-pressed={search.pinned}
+                  title={t(search.pinned ? "bookmarks.savedSearches.unpin" : "bookmarks.savedSearches.pin")}
+                >
+                  <Pin className="w-3 h-3" />
+                </button>
+                <button type="button" onClick={() => removeSavedSearch(search)} title={t("bookmarks.savedSearches.delete")}>
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+            {hasSearchTerm && (
+              <button type="button" className="bookmarks-btn" onClick={saveCurrentSearch}>
+                <BookmarkPlus className="w-3.5 h-3.5" />
+                {t("bookmarks.savedSearches.save")}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    );
   };
 
   const sortNodes = (nodes: BookmarkNode[], sort: SortType): BookmarkNode[] => {
     if (sort === "default") return [...nodes];
 
+    if (sort === "most-used" || sort === "recently-opened") {
+      const usage = (node: BookmarkNode) => {
+        const stats = openStats.get(node.id);
+        return (sort === "most-used" ? stats?.count : stats?.lastOpenedAt) ?? 0;
+      };
+      // Stable, so nodes never opened keep the folder order
+      return [...nodes].sort((a, b) => usage(b) - usage(a));
+    }
+
     if (sort === "type") {
       return [...nodes].sort((a, b) => {
         const aIsFolder = Boolean(a.children);
@@ -962,6 +1610,24 @@ export function Bookmarks() {
       }));
     }
 
+    if (groupType === "opened") {
+      const now = Date.now();
+      const groups = new Map<string, BookmarkNode[]>();
+      ordered.forEach((node) => {
+        const lastOpenedAt = openStats.get(node.id)?.lastOpenedAt;
+        const bucket = lastOpenedAt
+          ? OPENED_BUCKETS.find(({ days }) => now - lastOpenedAt < days * DAY_MS)?.bucket
+          : "never";
+        const title = `${OPENED_GROUP_PREFIX}${bucket}`;
+        groups.set(title, [...(groups.get(title) ?? []), node]);
+      });
+      // Map order follows the nodes; list the buckets from most to least recent instead
+      return [...OPENED_BUCKETS.map(({ bucket }) => bucket), "never"]
+        .map((bucket) => `${OPENED_GROUP_PREFIX}${bucket}`)
+        .filter((title) => groups.has(title))
+        .map((title) => ({ title, nodes: groups.get(title) ?? [] }));
+    }
+
     if (groupType === "type") {
       const folders: BookmarkNode[] = [];
       const bookmarkItems: BookmarkNode[] = [];
@@ -1002,12 +1668,15 @@ export function Bookmarks() {
         { value: "none", label: t("bookmarks.groupNone") },
         { value: "alphabetical", label: t("bookmarks.groupAz") },
         { value: "type", label: t("bookmarks.groupType") },
+        { value: "opened", label: t("bookmarks.groupOpened") },
       ], setGroupingType)}
       {renderThemedSelect("sortBy", t("bookmarks.sortBy"), sortType, [
         { value: "default", label: t("bookmarks.sortDefault") },
         { value: "name-asc", label: t("bookmarks.sortNameAsc") },
         { value: "name-desc", label: t("bookmarks.sortNameDesc") },
         { value: "type", label: t("bookmarks.sortType") },
+        { value: "most-used", label: t("bookmarks.sortMostUsed") },
+        { value: "recently-opened", label: t("bookmarks.sortRecentlyOpened") },
       ], setSortType)}
     </div>
   );
@@ -1075,7 +1744,7 @@ export function Bookmarks() {
   // Add a function to filter folder content by search term
   const filterFolderContentBySearch = (nodes: BookmarkNode[] | undefined, term: string, recursive = false): BookmarkNode[] => {
     if (!nodes) return [];
-    return filterNodesBySearch(nodes, term, recursive);
+    return filterNodesBySearch(nodes, term, recursive, "all", folderPath(activeFolderContent));
   };
 
   const renderRecursiveSearchOption = () => (
@@ -1144,12 +1813,16 @@ export function Bookmarks() {
   // --- Rendering Functions ---
   const handlePickerNodeClick = (node: BookmarkNode, e: React.MouseEvent) => {
     e.preventDefault();
+    if (node.savedSearchId) {
+      openSavedSearchFolder(node.savedSearchId);
+      return;
+    }
     if (node.children) {
       navigateToFolder(node.id);
       return;
     }
     if (isSearchingBookmarks && node.url) {
-      openBookmarkUrl(node.url, e);
+      void openBookmarkUrl(node.id, node.url, e);
       return;
     }
     selectNode(node);
@@ -1164,32 +1837,43 @@ export function Bookmarks() {
       style={{ textDecoration: "none" }}
       title={node.url || node.title}
     >
-      {node.children ? (
+      {!node.savedSearchId && renderTagButton(node)}
+      {node.savedSearchId ? (
+        <Search className="w-8 h-8 sm:w-10 sm:h-10 mb-1" />
+      ) : node.children ? (
         node.tileIcon && node.tileIcon !== "default" ? (
           <span className="text-3xl sm:text-4xl mb-1">{node.tileIcon}</span>
         ) : (
           <Folder className="w-8 h-8 sm:w-10 sm:h-10 mb-1" />
         )
       ) : (
-        <BookmarkFavicon url={node.url} size={16} className="w-6 h-6 mb-1" />
+        <BookmarkFavicon url={node.url} title={node.title} size={16} className="w-6 h-6 mb-1" />
       )}
       <span className="bookmark-tile__title text-xs sm:text-sm" title={node.title}>
-        {truncateTitle(node.title)}
+        {renderHighlighted(truncateTitle(node.title), selectorHighlight)}
       </span>
       {isSearchingBookmarks && !node.children && node.url && (
-        <span className="bookmark-tile__domain">{getHostname(node.url)}</span>
+        <span className="bookmark-tile__domain">{renderHighlighted(getHostname(node.url), selectorHighlight)}</span>
       )}
+      {renderTagChips(node.id, 3)}
     </a>
   );
 
   const renderSelector = () => {
     const hasSearchTerm = searchTerm.trim().length > 0;
-    // When searching, always scan the full bookmark tree so every match is listed
-    const nodes =
-      isSearchingBookmarks && hasSearchTerm ? bookmarks : currentFolder?.children || bookmarks;
+    // When searching, the full bookmark tree is scanned and the best matches listed
+    const searchRoot = isSearchingBookmarks && hasSearchTerm;
+    // Pinned saved searches open like folders from the top level
+    const rootNodes = hasSearchTerm
+      ? bookmarks
+      : [...savedSearches.filter((search) => search.pinned).map((search) => savedSearchFolder(search, false)), ...bookmarks];
+    const nodes = currentFolder?.children || rootNodes;
     const useRecursive = isSearchingBookmarks || searchRecursive;
     const activeSearchField = isSearchingBookmarks ? searchField : "all";
-    const filteredNodes = filterNodesBySearch(nodes || [], searchTerm, useRecursive, activeSearchField);
+    const filteredNodes = searchRoot
+      ? treeSearch.results
+      : filterNodesBySearch(nodes || [], searchTerm, useRecursive, activeSearchField, folderPath(currentFolder));
+    const isStillSearching = searchRoot && !treeSearch.done;
 
     const groupedData = getGroupedNodes(filteredNodes, groupingType, sortType);
 
@@ -1226,12 +1910,13 @@ export function Bookmarks() {
                 onClick={() =>
                   updateTile({
                     id: crypto.randomUUID(),
-                    type: "folder",
-                    nodeId: currentFolder.id,
+                    type: currentFolder.savedSearchId ? SEARCH_TILE_TYPE : "folder",
+                    nodeId: currentFolder.savedSearchId ?? currentFolder.id,
                     title: currentFolder.title,
                     tileColor: "rgba(0, 0, 0, 0.6)",
-                    tileIcon: "📁",
+                    tileIcon: currentFolder.savedSearchId ? "default" : "📁",
                     position: selectedTileIndex !== null ? selectedTileIndex : 0,
+                    boardId: activeBoardId,
                     createdAt: Date.now(),
                   })
                 }
@@ -1278,6 +1963,14 @@ export function Bookmarks() {
             </div>
 
             {!isSearchingBookmarks && renderRecursiveSearchOption()}
+            {isSearchingBookmarks && renderSearchShortcuts()}
+            {searchRoot && (isStillSearching || treeSearch.total > SEARCH_RESULT_LIMIT) && (
+              <span className="bookmarks-search-status">
+                {isStillSearching
+                  ? t("bookmarks.searchProgress", { count: treeSearch.total })
+                  : t("bookmarks.searchLimited", { shown: SEARCH_RESULT_LIMIT, count: treeSearch.total })}
+              </span>
+            )}
           </div>
 
           <div className="bookmarks-scroll-area">
@@ -1286,7 +1979,7 @@ export function Bookmarks() {
                 {filteredNodes.length > 0 ? (
                   filteredNodes.map((node) => renderPickerNode(node))
                 ) : (
-                  <div className="bookmarks-empty col-span-full">{t("bookmarks.emptySearch")}</div>
+                  !isStillSearching && <div className="bookmarks-empty col-span-full">{t("bookmarks.emptySearch")}</div>
                 )}
               </div>
             ) : (
@@ -1299,6 +1992,8 @@ export function Bookmarks() {
                           <Folder className="w-4 h-4" />
                         ) : group.title === "Bookmarks" ? (
                           <List className="w-4 h-4" />
+                        ) : group.title.startsWith(OPENED_GROUP_PREFIX) ? (
+                          <History className="w-4 h-4" />
                         ) : (
                           <span className="w-4 h-4 inline-block text-center">{group.title.charAt(0)}</span>
                         )}
@@ -1321,6 +2016,38 @@ export function Bookmarks() {
     );
   };
 
+  const renderFolderContentNode = (node: BookmarkNode) => (
+    <a
+      key={node.id}
+      href={node.url || "#"}
+      onClick={(event: React.MouseEvent<HTMLAnchorElement>) => {
+        event.preventDefault(); // Prevent default only for left click
+        if (node.children) {
+          navigateToFolder(node.id);
+        } else if (node.url) {
+          void openBookmarkUrl(node.id, node.url, event);
+        }
+      }}
+      className="bookmark-selector-item"
+      style={{ textDecoration: "none" }}
+    >
+      {renderTagButton(node)}
+      {node.children ? (
+        node.tileIcon && node.tileIcon !== "default" ? (
+          <span className="text-3xl sm:text-4xl mb-1">{node.tileIcon}</span>
+        ) : (
+          <Folder className="w-8 h-8 sm:w-10 sm:h-10 mb-1" />
+        )
+      ) : (
+        <BookmarkFavicon url={node.url} title={node.title} size={16} className="w-6 h-6 sm:w-8 sm:h-8 mb-1" />
+      )}
+      <span className="bookmark-tile__title text-xs" title={node.title}>
+        {renderHighlighted(truncateTitle(node.title), folderHighlight)}
+      </span>
+      {renderTagChips(node.id, 3)}
+    </a>
+  );
+
   const renderFolderContent = () => {
     if (!activeFolderContent) return null;
 
@@ -1378,39 +2105,7 @@ export function Bookmarks() {
                 // Render regular grid when not grouped
                 <div className="bookmarks-picker-grid">
                   {filteredFolderContent.length > 0 ? (
-                    filteredFolderContent.map((node) => (
-                      <a
-                        key={node.id}
-                        href={node.url || "#"}
-                        onClick={(event: React.MouseEvent<HTMLAnchorElement>) => {
-                          event.preventDefault(); // Prevent default only for left click
-                          if (node.children) {
-                            navigateToFolder(node.id);
-                          } else {
-                            if (event.ctrlKey) {
-                              window.open(node.url || "", "_blank");
-                            } else {
-                              window.location.href = node.url || "";
-                            }
-                          }
-                        }}
-                        className="bookmark-selector-item"
-                        style={{ textDecoration: "none" }}
-                      >
-                        {node.children ? (
-                          node.tileIcon && node.tileIcon !== "default" ? (
-                            <span className="text-3xl sm:text-4xl mb-1">{node.tileIcon}</span>
-                          ) : (
-                            <Folder className="w-8 h-8 sm:w-10 sm:h-10 mb-1" />
-                          )
-                        ) : (
-                          <BookmarkFavicon url={node.url} size={16} className="w-6 h-6 sm:w-8 sm:h-8 mb-1" />
-                        )}
-                        <span className="bookmark-tile__title text-xs" title={node.title}>
-                          {truncateTitle(node.title)}
-                        </span>
-                      </a>
-                    ))
+                    filteredFolderContent.map((node) => renderFolderContentNode(node))
                   ) : (
                     <div className="bookmarks-empty col-span-full">{t("bookmarks.emptySearch")}</div>
                   )}
@@ -1427,6 +2122,8 @@ export function Bookmarks() {
                             <Folder className="w-4 h-4" />
                           ) : group.title === "Bookmarks" ? (
                             <List className="w-4 h-4" />
+                          ) : group.title.startsWith(OPENED_GROUP_PREFIX) ? (
+                            <History className="w-4 h-4" />
                           ) : (
                             <span className="w-4 h-4 inline-block text-center">{group.title.charAt(0)}</span>
                           )}
@@ -1435,40 +2132,7 @@ export function Bookmarks() {
                         </div>
                         {/* Group items */}
                         <div className="bookmarks-picker-grid">
-                          {group.nodes &&
-                            group.nodes.map((node) => (
-                              <a
-                                key={node.id}
-                                href={node.url || "#"}
-                                onClick={(event: React.MouseEvent<HTMLAnchorElement>) => {
-                                  event.preventDefault(); // Prevent default only for left click
-                                  if (node.children) {
-                                    navigateToFolder(node.id);
-                                  } else {
-                                    if (event.ctrlKey) {
-                                      window.open(node.url || "", "_blank");
-                                    } else {
-                                      window.location.href = node.url || "";
-                                    }
-                                  }
-                                }}
-                                className="bookmark-selector-item"
-                                style={{ textDecoration: "none" }}
-                              >
-                                {node.children ? (
-                                  node.tileIcon && node.tileIcon !== "default" ? (
-                                    <span className="text-3xl sm:text-4xl mb-1">{node.tileIcon}</span>
-                                  ) : (
-                                    <Folder className="w-8 h-8 sm:w-10 sm:h-10 mb-1" />
-                                  )
-                                ) : (
-                                  <BookmarkFavicon url={node.url} size={16} className="w-6 h-6 sm:w-8 sm:h-8 mb-1" />
-                                )}
-                                <span className="bookmark-tile__title text-xs" title={node.title}>
-                                  {truncateTitle(node.title)}
-                                </span>
-                              </a>
-                            ))}
+                          {group.nodes?.map((node) => renderFolderContentNode(node))}
                         </div>
                       </div>
                     ))}
@@ -1514,6 +2178,9 @@ export function Bookmarks() {
           onColor={() => handleColorClick(index)}
           onIcon={() => handleIconClick(index)}
           onReminder={() => setReminderTile(tile)}
+          onReadLater={() => void addToReadLater([tile])}
+          onTags={() => setTagTarget({ id: tile.nodeId, title: tile.title, url: tile.url })}
+          onStats={() => setStatsTarget({ id: tile.nodeId, title: tile.title, url: tile.url })}
           onClose={() => setOpenMenuId(null)}
           themeStyle={themeCssVars}
           labels={menuLabels}
@@ -1522,6 +2189,29 @@ export function Bookmarks() {
     </>
   );
 
+  // Shown on tiles whose bookmark or folder was deleted outside NEXX
+  const renderOrphanBar = (tile: TileConfig, index: number) => {
+    const canRelink = !!tile.url && !unlinkableTileIds.has(tile.id);
+    return (
+      <span className="bookmark-tile__orphan" onClick={(e) => e.stopPropagation()}>
+        <span className="bookmark-tile__orphan-label">
+          <Unlink className="w-3 h-3" />
+          {t(canRelink || !tile.url ? "bookmarks.orphan.label" : "bookmarks.orphan.notFound")}
+        </span>
+        <span className="bookmark-tile__orphan-actions">
+          {canRelink && (
+            <button type="button" onClick={() => void relinkTile(index)} title={t("bookmarks.orphan.relinkHint")}>
+              {t("bookmarks.orphan.relink")}
+            </button>
+          )}
+          <button type="button" onClick={() => void clearTile(index)}>
+            {t("bookmarks.orphan.remove")}
+          </button>
+        </span>
+      </span>
+    );
+  };
+
   const renderTile = (tile: TileConfig | null, index: number) => {
     if (!tile) {
       return (
@@ -1548,19 +2238,44 @@ export function Bookmarks() {
 
     const tileBackgroundColor = tile.tileColor || "rgba(0, 0, 0, 0.35)";
     const hostname = getHostname(tile.url);
+    const isOrphaned = nodeIndex !== null && isOrphanedTile(tile, nodeIndex);
+    const tileClassName = `bookmark-tile tile-handle${isOrphaned ? " bookmark-tile--orphaned" : ""}${
+      selectedTileIds.has(tile.id) ? " bookmark-tile--selected" : ""
+    }`;
+
+    if (tile.type === SEARCH_TILE_TYPE) {
+      return (
+        <div
+          key={`search-tile-${tile.nodeId}`}
+          id={`search-tile-${tile.nodeId}`}
+          className={tileClassName}
+          style={{ backgroundColor: tileBackgroundColor }}
+          data-tile-index={index}
+          onClick={() => openSavedSearchFolder(tile.nodeId)}
+          title={tile.title}
+        >
+          {renderTileMenu(tile, index, () => openSelector(index), () => clearTile(index))}
+          <Search className="w-5 h-5 bookmark-tile__icon" />
+          <span className="bookmark-tile__title">{truncateTitle(tile.title)}</span>
+        </div>
+      );
+    }
 
     if (tile.type === "folder") {
       return (
         <div
           key={`folder-tile-${tile.nodeId}`}
           id={`folder-tile-${tile.nodeId}`}
-          className="bookmark-tile tile-handle"
+          className={tileClassName}
           style={{ backgroundColor: tileBackgroundColor }}
           data-tile-index={index}
-          onClick={() => navigateToFolder(tile.nodeId)}
+          onClick={() => {
+            if (!isOrphaned) navigateToFolder(tile.nodeId);
+          }}
           title={tile.title}
         >
           {renderTileMenu(tile, index, () => openSelector(index), () => clearTile(index))}
+          {isOrphaned && renderOrphanBar(tile, index)}
           {tileHasReminder(tile) && (
             <span className="bookmark-tile__reminder-badge" title={t("bookmarks.reminder.hasReminder")}>
               <Bell className="w-3 h-3" />
@@ -1572,6 +2287,7 @@ export function Bookmarks() {
             <Folder className="w-5 h-5 bookmark-tile__icon" />
           )}
           <span className="bookmark-tile__title">{truncateTitle(tile.title)}</span>
+          {renderTagChips(tile.nodeId, 2)}
         </div>
       );
     }
@@ -1580,7 +2296,7 @@ export function Bookmarks() {
       <div
         key={`bookmark-tile-${tile.nodeId}`}
         id={`bookmark-tile-${tile.nodeId}`}
-        className="bookmark-tile tile-handle"
+        className={tileClassName}
         style={{ backgroundColor: tileBackgroundColor }}
         data-tile-index={index}
         data-url={tile.url}
@@ -1588,17 +2304,12 @@ export function Bookmarks() {
         onClick={(e: React.MouseEvent<HTMLDivElement>) => {
           e.preventDefault();
           const url = (e.currentTarget as HTMLDivElement).dataset.url;
-          if (url) {
-            if (e.ctrlKey) {
-              window.open(url, "_blank");
-            } else {
-              window.location.href = url;
-            }
-          }
+          if (url) void openBookmarkUrl(tile.nodeId, url, e);
         }}
       >
         {renderTileMenu(tile, index, () => openSelector(index), () => clearTile(index))}
-        <BookmarkFavicon url={tile.url} size={32} className="w-6 h-6 bookmark-tile__icon" />
+        {isOrphaned && renderOrphanBar(tile, index)}
+        <BookmarkFavicon url={tile.url} title={tile.title} color={tileBackgroundColor} size={32} className="w-6 h-6 bookmark-tile__icon" />
         {tileHasReminder(tile) && (
           <span className="bookmark-tile__reminder-badge" title={t("bookmarks.reminder.hasReminder")}>
             <Bell className="w-3 h-3" />
@@ -1606,6 +2317,7 @@ export function Bookmarks() {
         )}
         <span className="bookmark-tile__title">{truncateTitle(tile.title)}</span>
         {hostname && <span className="bookmark-tile__domain">{hostname}</span>}
+        {renderTagChips(tile.nodeId, 2)}
       </div>
     );
   };
@@ -1626,6 +2338,52 @@ export function Bookmarks() {
             >
               <Bell className="w-5 h-5" strokeWidth={2.5} />
             </button>
+            <button
+              type="button"
+              className="bookmarks-search-toggle"
+              onClick={() => setIsReadLaterOpen(true)}
+              aria-label={t("bookmarks.readLater.title")}
+              title={t("bookmarks.readLater.title")}
+            >
+              <BookOpen className="w-5 h-5" strokeWidth={2.5} />
+            </button>
+            <button
+              type="button"
+              className="bookmarks-search-toggle"
+              onClick={() => setIsHealthOpen(true)}
+              aria-label={t("bookmarks.health.title")}
+              title={t("bookmarks.health.title")}
+            >
+              <HeartPulse className="w-5 h-5" strokeWidth={2.5} />
+            </button>
+            <button
+              type="button"
+              className="bookmarks-search-toggle"
+              onClick={() => setIsSuggestionsOpen(true)}
+              aria-label={t("bookmarks.suggestions.title")}
+              title={t("bookmarks.suggestions.title")}
+            >
+              <Sparkles className="w-5 h-5" strokeWidth={2.5} />
+            </button>
+            <button
+              type="button"
+              className="bookmarks-search-toggle"
+              onClick={() => setIsSessionsOpen(true)}
+              aria-label={t("bookmarks.sessions.title")}
+              title={t("bookmarks.sessions.title")}
+            >
+              <Layers className="w-5 h-5" strokeWidth={2.5} />
+            </button>
+            <button
+              type="button"
+              className={`bookmarks-search-toggle ${isSelectingTiles ? "bookmarks-search-toggle--active" : ""}`}
+              onClick={isSelectingTiles ? endTileSelection : startTileSelection}
+              aria-label={t("bookmarks.bulk.select")}
+              aria-pressed={isSelectingTiles}
+              title={t("bookmarks.bulk.select")}
+            >
+              <CheckSquare className="w-5 h-5" strokeWidth={2.5} />
+            </button>
             <button
               type="button"
               className={`bookmarks-search-toggle ${isSearchingBookmarks ? "bookmarks-search-toggle--active" : ""}`}
@@ -1638,13 +2396,60 @@ export function Bookmarks() {
             </button>
           </div>
         </div>
+        <TileBoardBar
+          boards={boards}
+          activeBoardId={activeBoardId}
+          onSelect={selectBoard}
+          onAdd={addBoard}
+          onEdit={() => setIsBoardSettingsOpen(true)}
+        />
         <p className="bookmarks-hint">{t("bookmarks.hint")}</p>
       </div>
-      <div ref={tileGridRef} className="bookmarks-grid">
+      {isSelectingTiles && (
+        <TileSelectionBar
+          count={selectedTiles.length}
+          targetBoards={boards.filter((board) => board.id !== activeBoardId)}
+          openableCount={openableTiles.length}
+          onSelectAll={() => setSelectedTileIds(new Set(tiles.flatMap((tile) => (tile ? [tile.id] : []))))}
+          onColor={() => {
+            setBulkColor(selectedTiles[0]?.tileColor || "rgba(0, 0, 0, 0.6)");
+            setBulkPicker("color");
+          }}
+          onIcon={() => setBulkPicker("icon")}
+          onMove={(boardId) => void runBulk(() => moveTilesToBoard(selectedTiles, boardId, boardCapacity(boardId)))}
+          onReminder={() => setBulkPicker("reminder")}
+          onReadLater={() => void addToReadLater(selectedTiles)}
+          onOpenTabs={() => void openSelectedTiles(false)}
+          onOpenWindow={() => void openSelectedTiles(true)}
+          onClear={() => void runBulk(() => clearTiles(selectedTiles))}
+          onDone={endTileSelection}
+        />
+      )}
+      <div
+        ref={tileGridRef}
+        className={`bookmarks-grid${isSelectingTiles ? " bookmarks-grid--selecting" : ""}`}
+        onClickCapture={handleSelectionClick}
+      >
         {Array(tileNumber)
           .fill(null)
           .map((_, i) => renderTile(tiles[i], i))}
       </div>
+      {bulkResult && (
+        <div className="bookmarks-undo" role="status">
+          <span>
+            {t(`bookmarks.bulk.result.${bulkResult.undo.action}`, { count: bulkResult.undo.count })}
+            {bulkResult.skipped > 0 &&
+              ` ${t(bulkResult.undo.action === "readLater" ? "bookmarks.bulk.alreadyQueued" : "bookmarks.bulk.noRoom", { count: bulkResult.skipped })}`}
+          </span>
+          <button type="button" className="bookmarks-btn" onClick={() => void undoBulk()}>
+            <Undo2 className="w-3.5 h-3.5" />
+            {t("bookmarks.bulk.undo")}
+          </button>
+          <button type="button" className="bookmarks-btn" onClick={() => setBulkResult(null)} aria-label={t("bookmarks.bulk.dismiss")}>
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      )}
       {(isSelecting || isSearchingBookmarks) && renderSelector()}
       {activeFolderContent && renderFolderContent()}
       {isColorPickerOpen && (
@@ -1666,6 +2471,41 @@ export function Bookmarks() {
           </div>
         </div>
       )}
+      {bulkPicker === "color" && (
+        <ColorPicker
+          currentColor={bulkColor}
+          onChange={setBulkColor}
+          onConfirm={() => {
+            setBulkPicker(null);
+            void runBulk(() => recolorTiles(selectedTiles, bulkColor));
+          }}
+          onClose={() => setBulkPicker(null)}
+          themeStyle={themeCssVars}
+        />
+      )}
+      {bulkPicker === "icon" && (
+        <div className="bookmarks-overlay">
+          <div className="bookmarks-modal" style={{ ...themeCssVars, width: "auto", height: "auto" }}>
+            <Picker
+              data={data}
+              onEmojiSelect={(emojiData: { native: string }) => {
+                setBulkPicker(null);
+                void runBulk(() => setTilesIcon(selectedTiles, emojiData.native));
+              }}
+              onClickOutside={() => setBulkPicker(null)}
+              theme="auto"
+            />
+          </div>
+        </div>
+      )}
+      {bulkPicker === "reminder" && (
+        <BookmarkReminderModal
+          bookmarkId={selectedTiles[0]?.id ?? ""}
+          bookmarkTitle={t("bookmarks.bulk.reminderTitle", { count: selectedTiles.length })}
+          onSave={addBulkReminder}
+          onClose={() => setBulkPicker(null)}
+        />
+      )}
       {reminderTile && (
         <BookmarkReminderModal
           bookmarkId={reminderTile.id}
@@ -1677,6 +2517,56 @@ export function Bookmarks() {
         />
       )}
       {isReminderManagerOpen && <ReminderManager onClose={() => setIsReminderManagerOpen(false)} />}
+      {isReadLaterOpen && <ReadLaterModal themeStyle={themeCssVars} onClose={() => setIsReadLaterOpen(false)} />}
+      {isHealthOpen && <BookmarkHealthModal onClose={() => setIsHealthOpen(false)} />}
+      {isSuggestionsOpen && (
+        <TileSuggestionsModal
+          emptySlots={tiles.filter((tile) => tile === null).length}
+          themeStyle={themeCssVars}
+          onAccept={acceptSuggestion}
+          onClose={() => setIsSuggestionsOpen(false)}
+        />
+      )}
+      {isSessionsOpen && (
+        <TabSessionsModal
+          themeStyle={themeCssVars}
+          onChanged={scheduleSyncPush}
+          onClose={() => setIsSessionsOpen(false)}
+        />
+      )}
+      {tagTarget && (
+        <BookmarkTagsModal
+          node={tagTarget}
+          tags={tagIndex.get(tagTarget.id) ?? []}
+          knownTags={countTags(tagIndex).map(([tag]) => tag)}
+          themeStyle={themeCssVars}
+          onSave={saveTags}
+          onClose={() => setTagTarget(null)}
+        />
+      )}
+      {statsTarget && (
+        <BookmarkStatsModal
+          node={statsTarget}
+          stats={openStats.get(statsTarget.id)}
+          themeStyle={themeCssVars}
+          onClear={() => void clearOpenHistory([statsTarget.id])}
+          onClearAll={() => {
+            if (confirm(t("bookmarks.stats.clearAllConfirm"))) void clearOpenHistory();
+          }}
+          onClose={() => setStatsTarget(null)}
+        />
+      )}
+      {isBoardSettingsOpen && activeBoard && (
+        <TileBoardSettingsModal
+          board={activeBoard}
+          globalTileNumber={globalTileNumber}
+          canDelete={activeBoard.id !== DEFAULT_BOARD_ID}
+          themeStyle={themeCssVars}
+          onSave={saveBoardSettings}
+          onDelete={deleteActiveBoard}
+          onClose={() => setIsBoardSettingsOpen(false)}
+        />
+      )}
     </div>
   );
 }
@@ -1,62 +1,136 @@
 // IndexedDB Utility for Generic Use
-interface DatabaseConfig {
-  dbName: string;
-  storeName: string;
-  version: number;
-  keyPath: string;
-  indexes?: { name: string; keyPath: string; unique?: boolean }[]; // Optional indexes
+// Every store lives in the shared app database declared in ./schema; writes are announced on ./changeBus.
+import { openAppDatabase } from "./appDatabase";
+import { publishDataChange } from "./changeBus";
+import { REVISIONED_STORES, STORES, tombstoneKey, type AppStoreIndexes, type AppStoreName, type Tombstone } from "./schema";
+
+interface DatabaseConfig<S extends AppStoreName> {
+  storeName: S;
 }
 
-const createDatabase = (config: DatabaseConfig) => {
-  const initializeDB = (): Promise<IDBDatabase> => {
-    return new Promise((resolve, reject) => {
-      const request = indexedDB.open(config.dbName, config.version);
+// Note: IndexedDB never indexes boolean values, so boolean-keyed indexes only help once a migration maps them to numbers.
+export type KeyQuery = IDBValidKey | IDBKeyRange;
 
-      request.onerror = () => {
-        console.error("Failed to open database:", request.error);
-        reject(request.error);
-      };
+export interface QueryOptions {
+  direction?: IDBCursorDirection;
+  limit?: number;
+}
 
-      request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
+/** Position of the last item of a page; pass it back as `after` to continue. */
+export interface PageCursor {
+  key: IDBValidKey;
+  primaryKey: IDBValidKey;
+}
 
-        if (!db.objectStoreNames.contains(config.storeName)) {
-          const store = db.createObjectStore(config.storeName, { keyPath: config.keyPath });
+export interface PageOptions<I extends string> {
+  index?: I;
+  query?: KeyQuery;
+  direction?: "next" | "prev";
+  limit: number;
+  after?: PageCursor | null;
+}
 
-          // Add optional indexes if provided
-          if (config.indexes) {
-            for (const index of config.indexes) {
-              store.createIndex(index.name, index.keyPath, { unique: index.unique || false });
-            }
-          }
-        }
-      };
+export interface Page<T> {
+  items: T[];
+  next: PageCursor | null;
+}
 
-      request.onsuccess = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-        resolve(db);
-      };
-    });
-  };
+export const keyRange = {
+  only: (value: IDBValidKey) => IDBKeyRange.only(value),
+  atLeast: (lower: IDBValidKey) => IDBKeyRange.lowerBound(lower),
+  above: (lower: IDBValidKey) => IDBKeyRange.lowerBound(lower, true),
+  atMost: (upper: IDBValidKey) => IDBKeyRange.upperBound(upper),
+  below: (upper: IDBValidKey) => IDBKeyRange.upperBound(upper, true),
+  between: (lower: IDBValidKey, upper: IDBValidKey) => IDBKeyRange.bound(lower, upper),
+};
 
-  const createDBOperations = () => {
-    let db: IDBDatabase | null = null;
+const isRevisioned = (storeName: AppStoreName) => REVISIONED_STORES.includes(storeName);
 
-    const getDB = async (): Promise<IDBDatabase> => {
-      if (!db) {
-        db = await initializeDB();
+const stamp = <T,>(item: T, now = Date.now()): T => ({ ...item, updatedAt: now });
+
+// Revisioned writes also touch the tombstone store: a save revives a deleted id, a delete leaves a marker.
+const transactionStores = (storeName: AppStoreName): AppStoreName[] =>
+  isRevisioned(storeName) ? [storeName, STORES.tombstones] : [storeName];
+
+const completeTransaction = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new DOMException("Transaction aborted", "AbortError"));
+  });
+
+/**
+ * Replaces and/or upserts records across several stores in one transaction:
+ * either every store ends up with the new contents or none of them changes.
+ */
+export const bulkWriteStores = async (writes: {
+  replace?: Partial<Record<AppStoreName, unknown[]>>;
+  put?: Partial<Record<AppStoreName, unknown[]>>;
+}): Promise<void> => {
+  const replace = Object.entries(writes.replace ?? {}) as [AppStoreName, unknown[]][];
+  const put = Object.entries(writes.put ?? {}) as [AppStoreName, unknown[]][];
+  const storeNames = [...new Set([...replace, ...put].map(([name]) => name))];
+  if (storeNames.length === 0) return;
+  const touchesTombstones = put.some(([name]) => isRevisioned(name)) && !storeNames.includes(STORES.tombstones);
+
+  const database = await openAppDatabase();
+  const transaction = database.transaction(touchesTombstones ? [...storeNames, STORES.tombstones] : storeNames, "readwrite");
+  const done = completeTransaction(transaction);
+
+  try {
+    for (const [name, items] of replace) {
+      const store = transaction.objectStore(name);
+      store.clear();
+      for (const item of items) store.put(item);
+    }
+    for (const [name, items] of put) {
+      const store = transaction.objectStore(name);
+      const tombstones = isRevisioned(name) ? transaction.objectStore(STORES.tombstones) : null;
+      for (const item of items) {
+        const request = store.put(item);
+        if (tombstones) request.onsuccess = () => tombstones.delete(tombstoneKey(name, request.result));
       }
-      return db;
+    }
+  } catch (error) {
+    // A synchronous DataError (e.g. missing key) would otherwise leave the transaction to commit.
+    transaction.abort();
+    await done.catch(() => undefined);
+    throw error;
+  }
+
+  await done;
+  for (const name of storeNames) publishDataChange(name);
+};
+
+const createDatabase = <S extends AppStoreName>(config: DatabaseConfig<S>) => {
+  type IndexName = AppStoreIndexes[S];
+
+  const createDBOperations = () => {
+    const getDB = (): Promise<IDBDatabase> => openAppDatabase();
+
+    const getSource = (transaction: IDBTransaction, index?: IndexName): IDBObjectStore | IDBIndex => {
+      const store = transaction.objectStore(config.storeName);
+      return index ? store.index(index) : store;
+    };
+
+    const revisioned = isRevisioned(config.storeName);
+
+    const forgetTombstone = (transaction: IDBTransaction, id: IDBValidKey) => {
+      if (revisioned) transaction.objectStore(STORES.tombstones).delete(tombstoneKey(config.storeName, id));
     };
 
     const saveItem = async <T,>(item: T): Promise<IDBValidKey> => {
       const database = await getDB();
       return new Promise((resolve, reject) => {
-        const transaction = database.transaction(config.storeName, "readwrite");
+        const transaction = database.transaction(transactionStores(config.storeName), "readwrite");
         const store = transaction.objectStore(config.storeName);
-        const request = store.put(item);
+        const request = store.put(revisioned ? stamp(item) : item);
+        request.onsuccess = () => forgetTombstone(transaction, request.result);
 
-        transaction.oncomplete = () => resolve(request.result);
+        transaction.oncomplete = () => {
+          publishDataChange(config.storeName, [request.result]);
+          resolve(request.result);
+        };
         transaction.onerror = () => reject(transaction.error);
       });
     };
@@ -64,19 +138,24 @@ const createDatabase = (config: DatabaseConfig) => {
     const saveItems = async <T,>(items: T[]): Promise<IDBValidKey[]> => {
       const database = await getDB();
       return new Promise((resolve, reject) => {
-        const transaction = database.transaction(config.storeName, "readwrite");
+        const transaction = database.transaction(transactionStores(config.storeName), "readwrite");
         const store = transaction.objectStore(config.storeName);
+        const now = Date.now();
 
         const results: IDBValidKey[] = [];
 
-        transaction.oncomplete = () => resolve(results);
+        transaction.oncomplete = () => {
+          publishDataChange(config.storeName, results);
+          resolve(results);
+        };
         transaction.onerror = () => reject(transaction.error);
 
         items.forEach((item) => {
-          const request = store.put(item);
+          const request = store.put(revisioned ? stamp(item, now) : item);
           request.onsuccess = () => {
             if (request.result) {
               results.push(request.result); // Collect valid keys
+              forgetTombstone(transaction, request.result);
             }
           };
         });
@@ -110,14 +189,23 @@ const createDatabase = (config: DatabaseConfig) => {
     const deleteItem = async (id: IDBValidKey): Promise<IDBValidKey | undefined> => {
       const database = await getDB();
       return new Promise((resolve, reject) => {
-        const transaction = database.transaction(config.storeName, "readwrite");
+        const transaction = database.transaction(transactionStores(config.storeName), "readwrite");
         const store = transaction.objectStore(config.storeName);
         const request = store.delete(id);
+        if (revisioned) {
+          const tombstone: Tombstone = {
+            key: tombstoneKey(config.storeName, id),
+            store: config.storeName,
+            id: String(id),
+            deletedAt: Date.now(),
+          };
+          transaction.objectStore(STORES.tombstones).put(tombstone);
+        }
 
-        request.onsuccess = () => resolve(request.result);
         request.onerror = () => reject(request.error);
 
         transaction.oncomplete = () => {
+          publishDataChange(config.storeName, [id]);
           // In case deleting doesn't provide a result, we resolve with undefined
           resolve(request.result);
         };
@@ -138,7 +226,10 @@ const createDatabase = (config: DatabaseConfig) => {
 
         const request = store.put(preferencesWithId);
 
-        transaction.oncomplete = () => resolve(request.result);
+        transaction.oncomplete = () => {
+          publishDataChange(config.storeName, [request.result]);
+          resolve(request.result);
+        };
         transaction.onerror = () => reject(transaction.error);
       });
     };
@@ -155,7 +246,124 @@ const createDatabase = (config: DatabaseConfig) => {
       });
     };
 
-    return { savePreferences, getPreferences, saveItem, saveItems, getAllItems, getItem, deleteItem };
+    const queryIndex = async <T,>(index: IndexName, query?: KeyQuery, options: QueryOptions = {}): Promise<T[]> => {
+      const database = await getDB();
+      return new Promise((resolve, reject) => {
+        const transaction = database.transaction(config.storeName, "readonly");
+        const source = getSource(transaction, index);
+        const direction = options.direction ?? "next";
+
+        if (direction === "next") {
+          const request = source.getAll(query, options.limit);
+          request.onsuccess = () => resolve(request.result || []);
+          request.onerror = () => reject(request.error);
+          return;
+        }
+
+        const results: T[] = [];
+        const request = source.openCursor(query, direction);
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor || (options.limit !== undefined && results.length >= options.limit)) {
+            resolve(results);
+            return;
+          }
+          results.push(cursor.value as T);
+          cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+      });
+    };
+
+    const getPage = async <T,>(options: PageOptions<IndexName>): Promise<Page<T>> => {
+      const database = await getDB();
+      const { index, query, after, limit } = options;
+      const direction = options.direction ?? "next";
+      const forward = direction === "next";
+
+      return new Promise((resolve, reject) => {
+        const transaction = database.transaction(config.storeName, "readonly");
+        const request = getSource(transaction, index).openCursor(query, direction);
+        const items: T[] = [];
+        let last: PageCursor | null = null;
+
+        // >0 once the cursor has moved past `after` in the current direction.
+        const distanceFromAfter = (cursor: IDBCursor) => {
+          if (!after) return 1;
+          const byKey = indexedDB.cmp(cursor.key, after.key);
+          const order = byKey !== 0 || !index ? byKey : indexedDB.cmp(cursor.primaryKey, after.primaryKey);
+          return forward ? order : -order;
+        };
+
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor) {
+            resolve({ items, next: null });
+            return;
+          }
+
+          const distance = distanceFromAfter(cursor);
+          if (distance < 0 && after) {
+            if (index) cursor.continuePrimaryKey(after.key, after.primaryKey);
+            else cursor.continue(after.key);
+            return;
+          }
+          if (distance === 0) {
+            cursor.continue();
+            return;
+          }
+
+          if (items.length === limit) {
+            // One extra step only to learn whether another page exists.
+            resolve({ items, next: last });
+            return;
+          }
+
+          items.push(cursor.value as T);
+          last = { key: cursor.key, primaryKey: cursor.primaryKey };
+          cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+      });
+    };
+
+    const count = async (index?: IndexName, query?: KeyQuery): Promise<number> => {
+      const database = await getDB();
+      return new Promise((resolve, reject) => {
+        const transaction = database.transaction(config.storeName, "readonly");
+        const request = getSource(transaction, index).count(query);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    };
+
+    const clear = () => bulkWriteStores({ replace: { [config.storeName]: [] } });
+
+    /** Upserts all items in one transaction; nothing is written if any item fails. */
+    const bulkPut = <T,>(items: T[]) => {
+      const now = Date.now();
+      return bulkWriteStores({ put: { [config.storeName]: revisioned ? items.map((item) => stamp(item, now)) : items } });
+    };
+
+    /** Swaps the whole store for `items` in one transaction; on failure the old contents stay. */
+    const bulkReplace = <T,>(items: T[]) => bulkWriteStores({ replace: { [config.storeName]: items } });
+
+    return {
+      storeName: config.storeName,
+      savePreferences,
+      getPreferences,
+      saveItem,
+      saveItems,
+      getAllItems,
+      getItem,
+      deleteItem,
+      queryIndex,
+      getPage,
+      count,
+      clear,
+      bulkPut,
+      bulkReplace,
+    };
   };
 
   return createDBOperations();
@@ -0,0 +1,60 @@
+import { APP_DB_NAME, APP_DB_VERSION, MIGRATIONS } from "./schema";
+import { importLegacyDatabases } from "./legacyImport";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const runMigrations = (request: IDBOpenDBRequest, event: IDBVersionChangeEvent) => {
+  const db = request.result;
+  const transaction = request.transaction;
+  if (!transaction) return;
+
+  const oldVersion = event.oldVersion;
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= oldVersion) continue;
+    migration.upgrade({ db, transaction, oldVersion });
+  }
+};
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(APP_DB_NAME, APP_DB_VERSION);
+
+    request.onupgradeneeded = (event) => runMigrations(request, event);
+
+    request.onblocked = () => {
+      console.warn("[nexx-db] upgrade blocked by another open tab; it will continue once that tab reloads");
+    };
+
+    request.onerror = () => {
+      console.error("Failed to open database:", request.error);
+      reject(request.error);
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer tab run its migrations instead of blocking on this connection.
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+  });
+
+/** Shared connection to the app database; migrations and the legacy import run before it resolves. */
+export const openAppDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = openDatabase().then(async (db) => {
+      try {
+        await importLegacyDatabases(db);
+      } catch (error) {
+        console.error("[nexx-db] legacy import failed, will retry on next open:", error);
+      }
+      return db;
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
@@ -0,0 +1,104 @@
+import type { AppStoreName } from "./schema";
+
+// Cross-context change notifications for the app database.
+// Pages and the popup talk over a BroadcastChannel; the service worker writes DATA_CHANGE_STORAGE_KEY
+// into chrome.storage.local (see extension/background.js), which every page also watches.
+
+export interface DataChange {
+  store: AppStoreName;
+  /** Keys that changed; omitted when the whole store was rewritten. */
+  ids?: IDBValidKey[];
+  origin: string;
+  at: number;
+}
+
+type DataChangeHandler = (changes: DataChange[]) => void;
+
+export const DATA_CHANGE_CHANNEL = "nexx-data-changes";
+export const DATA_CHANGE_STORAGE_KEY = "nexx_data_change";
+const COALESCE_MS = 150;
+
+const ORIGIN_ID = crypto.randomUUID();
+
+let channel: BroadcastChannel | null = null;
+const handlers = new Set<(change: DataChange) => void>();
+
+const dispatch = (change: DataChange) => {
+  if (!change?.store || change.origin === ORIGIN_ID) return;
+  for (const handler of handlers) handler(change);
+};
+
+const onStorageChanged = (changes: { [key: string]: chrome.storage.StorageChange }, area: string) => {
+  if (area !== "local" || !changes[DATA_CHANGE_STORAGE_KEY]) return;
+  dispatch(changes[DATA_CHANGE_STORAGE_KEY].newValue as DataChange);
+};
+
+const getChannel = (): BroadcastChannel | null => {
+  if (channel || typeof BroadcastChannel === "undefined") return channel;
+  channel = new BroadcastChannel(DATA_CHANGE_CHANNEL);
+  channel.onmessage = (event: MessageEvent<DataChange>) => dispatch(event.data);
+  return channel;
+};
+
+const startListening = () => {
+  getChannel();
+  if (typeof chrome !== "undefined" && chrome.storage?.onChanged) {
+    chrome.storage.onChanged.addListener(onStorageChanged);
+  }
+};
+
+const stopListening = () => {
+  channel?.close();
+  channel = null;
+  if (typeof chrome !== "undefined" && chrome.storage?.onChanged) {
+    chrome.storage.onChanged.removeListener(onStorageChanged);
+  }
+};
+
+/**
+ * Tells every other tab and the popup that records in `store` changed. The service worker is not told: it reads
+ * the database whenever it needs it.
+ */
+export const publishDataChange = (store: AppStoreName, ids?: IDBValidKey[]) => {
+  const change: DataChange = { store, ids, origin: ORIGIN_ID, at: Date.now() };
+  try {
+    getChannel()?.postMessage(change);
+  } catch (error) {
+    console.warn("[nexx-db] change broadcast failed:", error);
+  }
+};
+
+/** Delivers a change to subscribers in this context as well, for writes made on another component's behalf. */
+export const notifyLocalSubscribers = (store: AppStoreName, ids?: IDBValidKey[]) => {
+  for (const handler of handlers) handler({ store, ids, origin: "local", at: Date.now() });
+};
+
+/**
+ * Runs `handler` when another context changes any of `stores`.
+ * Bursts (a bulk import, a sync apply) are coalesced into a single call.
+ */
+export const subscribeDataChanges = (stores: AppStoreName[], handler: DataChangeHandler): (() => void) => {
+  let pending: DataChange[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const listener = (change: DataChange) => {
+    if (!stores.includes(change.store)) return;
+    pending.push(change);
+    if (timer) return;
+    timer = setTimeout(() => {
+      const batch = pending;
+      pending = [];
+      timer = null;
+      handler(batch);
+    }, COALESCE_MS);
+  };
+
+  if (handlers.size === 0) startListening();
+  handlers.add(listener);
+
+  return () => {
+    handlers.delete(listener);
+    if (timer) clearTimeout(timer);
+    if (handlers.size === 0) stopListening();
+  };
+};
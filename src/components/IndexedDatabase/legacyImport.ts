@@ -0,0 +1,102 @@
+import { STORES, type AppStoreName } from "./schema";
+
+// Databases each feature opened on its own before the shared app database existed.
+interface LegacySource {
+  dbName: string;
+  storeName: string;
+  target: AppStoreName;
+  transform?: (record: Record<string, unknown>) => Record<string, unknown> | null;
+}
+
+const LEGACY_SOURCES: LegacySource[] = [
+  {
+    // Very old uploads kept the raw data URL under `data`; listed first so newer copies win.
+    dbName: "backgroundsDB",
+    storeName: "images",
+    target: STORES.backgrounds,
+    transform: (record) =>
+      typeof record.id === "string" && typeof record.data === "string"
+        ? { id: record.id, url: record.data, isBlob: true, type: "image", createdAt: Date.now() }
+        : null,
+  },
+  { dbName: "backgroundSelectorDB", storeName: "backgrounds", target: STORES.backgrounds },
+  { dbName: "bookmarkManagerDB", storeName: "tiles", target: STORES.tiles },
+  { dbName: "unifiedTasksDB", storeName: "tasks", target: STORES.tasks },
+  { dbName: "timerAlarmDB", storeName: "alarms", target: STORES.alarms },
+  { dbName: "bookmarkRemindersDB", storeName: "reminders", target: STORES.reminders },
+  { dbName: "bookmarkFaviconCacheDB", storeName: "favicons", target: STORES.favicons },
+];
+
+export const LEGACY_IMPORT_META_KEY = "legacyImportedAt";
+
+/** Opens an existing database at whatever version it has; resolves null if it was never created. */
+const openExistingDatabase = (name: string): Promise<IDBDatabase | null> =>
+  new Promise((resolve) => {
+    const request = indexedDB.open(name);
+    request.onupgradeneeded = () => {
+      // Only fires for a database that did not exist — abort so we don't leave an empty one behind.
+      request.transaction?.abort();
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => resolve(null);
+  });
+
+const readLegacyRecords = async (source: LegacySource): Promise<Record<string, unknown>[]> => {
+  const db = await openExistingDatabase(source.dbName);
+  if (!db) return [];
+
+  try {
+    if (!db.objectStoreNames.contains(source.storeName)) return [];
+    return await new Promise((resolve, reject) => {
+      const request = db.transaction(source.storeName, "readonly").objectStore(source.storeName).getAll();
+      request.onsuccess = () => resolve(request.result || []);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const isLegacyImportDone = (db: IDBDatabase): Promise<boolean> =>
+  new Promise((resolve, reject) => {
+    const request = db.transaction(STORES.meta, "readonly").objectStore(STORES.meta).get(LEGACY_IMPORT_META_KEY);
+    request.onsuccess = () => resolve(Boolean(request.result));
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * One-time move of every legacy database into the app database.
+ * All records land in a single transaction together with the "done" marker,
+ * so an interrupted import simply runs again on the next open.
+ */
+export const importLegacyDatabases = async (db: IDBDatabase): Promise<void> => {
+  if (await isLegacyImportDone(db)) return;
+
+  const batches = await Promise.all(
+    LEGACY_SOURCES.map(async (source) => {
+      const records = await readLegacyRecords(source);
+      const items = source.transform
+        ? records.map(source.transform).filter((item): item is Record<string, unknown> => item !== null)
+        : records;
+      return { source, items };
+    }),
+  );
+
+  const targets = [...new Set(LEGACY_SOURCES.map((source) => source.target)), STORES.meta];
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(targets, "readwrite");
+    for (const { source, items } of batches) {
+      const store = transaction.objectStore(source.target);
+      for (const item of items) store.put(item);
+    }
+    transaction.objectStore(STORES.meta).put({ key: LEGACY_IMPORT_META_KEY, value: Date.now() });
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+  for (const dbName of new Set(LEGACY_SOURCES.map((source) => source.dbName))) {
+    indexedDB.deleteDatabase(dbName);
+  }
+};
@@ -0,0 +1,210 @@
+// Declared schema of the single NEXX app database.
+// Bump the schema by appending a migration — never edit one that has shipped.
+
+export const APP_DB_NAME = "nexxAppDB";
+
+export const STORES = {
+  backgrounds: "backgrounds",
+  tiles: "tiles",
+  tasks: "tasks",
+  alarms: "alarms",
+  reminders: "reminders",
+  favicons: "favicons",
+  meta: "meta",
+  tombstones: "tombstones",
+  snapshots: "snapshots",
+  opens: "opens",
+} as const;
+
+export type AppStoreName = (typeof STORES)[keyof typeof STORES];
+
+/** Stores whose records carry an `updatedAt` revision stamp and leave a tombstone when deleted. */
+export const REVISIONED_STORES: AppStoreName[] = [
+  STORES.backgrounds,
+  STORES.tiles,
+  STORES.tasks,
+  STORES.alarms,
+  STORES.reminders,
+];
+
+/** Left behind when a record of a revisioned store is deleted, so sync can tell "deleted" from "never seen". */
+export interface Tombstone {
+  key: string;
+  store: AppStoreName;
+  id: string;
+  deletedAt: number;
+}
+
+export const tombstoneKey = (store: AppStoreName, id: IDBValidKey) => `${store}:${String(id)}`;
+
+/** Index names per store — keep in step with the migrations below. */
+export interface AppStoreIndexes {
+  backgrounds: "type" | "createdAt";
+  tiles: "createdAt" | "position";
+  tasks: "taskType" | "completed" | "createdAt";
+  alarms: "enabled" | "createdAt";
+  reminders: "bookmarkId" | "reminderAt" | "enabled" | "createdAt";
+  favicons: "updatedAt";
+  meta: never;
+  tombstones: "store" | "deletedAt";
+  snapshots: "createdAt";
+  opens: "lastOpenedAt";
+}
+
+export interface IndexSchema {
+  name: string;
+  keyPath: string | string[];
+  unique?: boolean;
+  multiEntry?: boolean;
+}
+
+export interface StoreSchema {
+  keyPath: string;
+  indexes?: IndexSchema[];
+}
+
+export interface MigrationContext {
+  db: IDBDatabase;
+  transaction: IDBTransaction;
+  oldVersion: number;
+}
+
+export interface Migration {
+  version: number;
+  description: string;
+  upgrade: (context: MigrationContext) => void;
+}
+
+/** Creates the store (and its indexes) unless a previous migration already did. */
+export const ensureStore = (context: MigrationContext, name: AppStoreName, schema: StoreSchema): IDBObjectStore => {
+  const store = context.db.objectStoreNames.contains(name)
+    ? context.transaction.objectStore(name)
+    : context.db.createObjectStore(name, { keyPath: schema.keyPath });
+
+  for (const index of schema.indexes ?? []) {
+    ensureIndex(context, name, index);
+  }
+  return store;
+};
+
+export const ensureIndex = (context: MigrationContext, storeName: AppStoreName, index: IndexSchema) => {
+  const store = context.transaction.objectStore(storeName);
+  if (store.indexNames.contains(index.name)) return;
+  store.createIndex(index.name, index.keyPath, {
+    unique: index.unique ?? false,
+    multiEntry: index.multiEntry ?? false,
+  });
+};
+
+/**
+ * Rewrites every record of a store inside the upgrade transaction.
+ * Return the new record to replace it, `null` to delete it, or `undefined` to leave it untouched.
+ */
+export const transformRecords = <T>(
+  context: MigrationContext,
+  storeName: AppStoreName,
+  transform: (record: T) => T | null | undefined,
+) => {
+  const request = context.transaction.objectStore(storeName).openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+
+    const next = transform(cursor.value as T);
+    if (next === null) cursor.delete();
+    else if (next !== undefined) cursor.update(next);
+    cursor.continue();
+  };
+};
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Initial stores for every feature that used to own a database",
+    upgrade: (context) => {
+      ensureStore(context, STORES.backgrounds, {
+        keyPath: "id",
+        indexes: [
+          { name: "type", keyPath: "type" },
+          { name: "createdAt", keyPath: "createdAt" },
+        ],
+      });
+      ensureStore(context, STORES.tiles, {
+        keyPath: "id",
+        indexes: [
+          { name: "createdAt", keyPath: "createdAt" },
+          { name: "position", keyPath: "position" },
+        ],
+      });
+      ensureStore(context, STORES.tasks, {
+        keyPath: "id",
+        indexes: [
+          { name: "taskType", keyPath: "taskType" },
+          { name: "completed", keyPath: "completed" },
+          { name: "createdAt", keyPath: "createdAt" },
+        ],
+      });
+      ensureStore(context, STORES.alarms, {
+        keyPath: "id",
+        indexes: [
+          { name: "enabled", keyPath: "enabled" },
+          { name: "createdAt", keyPath: "createdAt" },
+        ],
+      });
+      ensureStore(context, STORES.reminders, {
+        keyPath: "id",
+        indexes: [
+          { name: "bookmarkId", keyPath: "bookmarkId" },
+          { name: "reminderAt", keyPath: "reminderAt" },
+          { name: "enabled", keyPath: "enabled" },
+          { name: "createdAt", keyPath: "createdAt" },
+        ],
+      });
+      ensureStore(context, STORES.favicons, {
+        keyPath: "key",
+        indexes: [{ name: "updatedAt", keyPath: "updatedAt" }],
+      });
+      ensureStore(context, STORES.meta, { keyPath: "key" });
+    },
+  },
+  {
+    version: 2,
+    description: "Revision stamps on synced records and a tombstone store for deletions",
+    upgrade: (context) => {
+      ensureStore(context, STORES.tombstones, {
+        keyPath: "key",
+        indexes: [
+          { name: "store", keyPath: "store" },
+          { name: "deletedAt", keyPath: "deletedAt" },
+        ],
+      });
+      for (const store of REVISIONED_STORES) {
+        transformRecords<{ createdAt?: number; updatedAt?: number }>(context, store, (record) =>
+          typeof record.updatedAt === "number" ? undefined : { ...record, updatedAt: record.createdAt ?? 0 },
+        );
+      }
+    },
+  },
+  {
+    version: 3,
+    description: "Local snapshots of all data, taken on a schedule and before imports and sync applies",
+    upgrade: (context) => {
+      ensureStore(context, STORES.snapshots, {
+        keyPath: "id",
+        indexes: [{ name: "createdAt", keyPath: "createdAt" }],
+      });
+    },
+  },
+  {
+    version: 4,
+    description: "Per-bookmark open history on this device, for ranking search results",
+    upgrade: (context) => {
+      ensureStore(context, STORES.opens, {
+        keyPath: "nodeId",
+        indexes: [{ name: "lastOpenedAt", keyPath: "lastOpenedAt" }],
+      });
+    },
+  },
+];
+
+export const APP_DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
@@ -4,6 +4,7 @@ import { useCalendar } from "./Settings";
 import { useI18n } from "../i18n/LanguageProvider";
 import { alarmsDB } from "./settings/settingsDb";
 import { scheduleSyncPush } from "./settings/settingsSync";
+import { subscribeDataChanges } from "./IndexedDatabase/changeBus";
 import { buildThemeVars } from "./settings/themeUtils";
 import type { AlarmItem, AlarmRepeat, ActiveTimer, RingingAlert } from "./timerAlarm/types";
 import { PomodoroPanel, type PomodoroCompletion, type PomodoroPanelHandle } from "./timerAlarm/PomodoroPanel";
@@ -94,6 +95,8 @@ export function TimerAlarm() {
     requestNotificationPermission();
   }, [loadAlarms]);
 
+  useEffect(() => subscribeDataChanges([alarmsDB.storeName], () => void loadAlarms()), [loadAlarms]);
+
   useEffect(() => {
     const tick = setInterval(() => setNow(Date.now()), 250);
     return () => clearInterval(tick);
@@ -1,23 +1,20 @@
 import { useEffect, useState } from "react";
-import { cacheFaviconForUrl, getCachedFavicon, getFaviconCacheKey } from "./faviconCache";
-
-const FALLBACK_FAVICON = "https://www.google.com/s2/favicons?domain=chrome&sz=32";
+import { cacheFaviconForUrl, getCachedFavicon } from "./faviconCache";
+import { monogramFor, monogramTextColor } from "./monogram";
 
 interface BookmarkFaviconProps {
   url?: string;
   size: 16 | 32;
   className?: string;
+  /** Used for the letter icon shown when the site has no favicon. */
+  title?: string;
+  /** Background of the letter icon; the tile color on tiles. */
+  color?: string;
 }
 
-function getOnlineFaviconUrl(url: string, size: number): string {
-  const hostname = getFaviconCacheKey(url);
-  return hostname
-    ? `https://www.google.com/s2/favicons?domain=${hostname}&sz=${size}`
-    : FALLBACK_FAVICON;
-}
-
-export function BookmarkFavicon({ url, size, className }: BookmarkFaviconProps) {
-  const [src, setSrc] = useState<string | null>(null);
+export function BookmarkFavicon({ url, size, className, title = "", color }: BookmarkFaviconProps) {
+  // undefined until the cache answered, null when there is no favicon to show
+  const [src, setSrc] = useState<string | null | undefined>(undefined);
 
   useEffect(() => {
     if (!url) {
@@ -26,26 +23,20 @@ export function BookmarkFavicon({ url, size, className }: BookmarkFaviconProps)
     }
 
     let cancelled = false;
-    const onlineFallback = getOnlineFaviconUrl(url, size);
+    setSrc(undefined);
 
     const loadFavicon = async () => {
-      const cached = await getCachedFavicon(url);
+      const cached = await getCachedFavicon(url, size);
       if (cancelled) return;
 
-      if (cached) {
+      if (cached !== undefined) {
         setSrc(cached);
         return;
       }
 
-      if (navigator.onLine) {
-        const dataUrl = await cacheFaviconForUrl(url, size);
-        if (!cancelled) {
-          setSrc(dataUrl ?? onlineFallback);
-        }
-        return;
-      }
-
-      setSrc(onlineFallback);
+      // Offline with nothing cached (or an intranet host) gets the letter icon until a fetch succeeds
+      const dataUrl = navigator.onLine ? await cacheFaviconForUrl(url, size) : null;
+      if (!cancelled) setSrc(dataUrl);
     };
 
     void loadFavicon();
@@ -56,19 +47,21 @@ export function BookmarkFavicon({ url, size, className }: BookmarkFaviconProps)
   }, [url, size]);
 
   if (!url) return null;
+  if (src === undefined) return <span className={className} aria-hidden="true" />;
 
-  const displaySrc = src ?? getOnlineFaviconUrl(url, size);
+  if (src === null) {
+    const monogram = monogramFor(title, url);
+    return (
+      <span
+        className={`bookmark-monogram ${className ?? ""}`}
+        style={color ? { backgroundColor: color, color: monogramTextColor(color) } : undefined}
+        dir={monogram.rtl ? "rtl" : "ltr"}
+        aria-hidden="true"
+      >
+        {monogram.text}
+      </span>
+    );
+  }
 
-  return (
-    <img
-      src={displaySrc}
-      alt=""
-      className={className}
-      onError={(e) => {
-        if (e.currentTarget.src !== FALLBACK_FAVICON) {
-          e.currentTarget.src = FALLBACK_FAVICON;
-        }
-      }}
-    />
-  );
+  return <img src={src} alt="" className={className} onError={() => setSrc(null)} />;
 }
@@ -0,0 +1,80 @@
+import type { CSSProperties } from "react";
+import { useI18n } from "../../i18n/LanguageProvider";
+import { dailyOpens, type BookmarkOpenStats } from "./bookmarkOpens";
+import type { TaggedNode } from "./bookmarkTags";
+
+const CHART_DAYS = 30;
+
+interface BookmarkStatsModalProps {
+  node: TaggedNode;
+  stats?: BookmarkOpenStats;
+  themeStyle: CSSProperties;
+  onClear: () => void;
+  onClearAll: () => void;
+  onClose: () => void;
+}
+
+/** How often a bookmark was opened from NEXX, with its opens per day over the last month. */
+export function BookmarkStatsModal({ node, stats, themeStyle, onClear, onClearAll, onClose }: BookmarkStatsModalProps) {
+  const { t, language } = useI18n();
+  const days = dailyOpens(stats, CHART_DAYS);
+  const busiest = Math.max(1, ...days.map((day) => day.count));
+  const lastMonth = days.reduce((sum, day) => sum + day.count, 0);
+
+  return (
+    <div className="bookmarks-overlay">
+      <div className="bookmarks-modal bookmarks-stats" style={{ ...themeStyle, width: "auto", height: "auto", maxWidth: "24rem" }}>
+        <div className="bookmarks-toolbar">
+          <button type="button" onClick={onClose} className="bookmarks-btn">
+            {t("bookmarks.stats.close")}
+          </button>
+          <h3 className="text-base font-medium flex-grow text-center">{t("bookmarks.stats.title")}</h3>
+        </div>
+
+        <span className="bookmarks-stats__target" title={node.url || node.title}>
+          {node.title || node.url}
+        </span>
+
+        {stats ? (
+          <dl className="bookmarks-stats__figures">
+            <div>
+              <dt>{t("bookmarks.stats.opens")}</dt>
+              <dd>{stats.count}</dd>
+            </div>
+            <div>
+              <dt>{t("bookmarks.stats.lastMonth")}</dt>
+              <dd>{lastMonth}</dd>
+            </div>
+            <div>
+              <dt>{t("bookmarks.stats.lastOpened")}</dt>
+              <dd>{new Date(stats.lastOpenedAt).toLocaleString(language)}</dd>
+            </div>
+          </dl>
+        ) : (
+          <p className="bookmarks-stats__empty">{t("bookmarks.stats.never")}</p>
+        )}
+
+        <div className="bookmarks-stats__chart" aria-label={t("bookmarks.stats.chart", { count: CHART_DAYS })}>
+          {days.map((day) => (
+            <span
+              key={day.date}
+              className="bookmarks-stats__bar"
+              style={{ height: `${(day.count / busiest) * 100}%` }}
+              title={t("bookmarks.stats.day", { date: day.date, count: day.count })}
+            />
+          ))}
+        </div>
+        <span className="bookmarks-stats__hint">{t("bookmarks.stats.chart", { count: CHART_DAYS })}</span>
+
+        <div className="bookmarks-stats__actions">
+          <button type="button" className="bookmarks-btn" onClick={onClear} disabled={!stats}>
+            {t("bookmarks.stats.clear")}
+          </button>
+          <button type="button" className="bookmarks-btn" onClick={onClearAll}>
+            {t("bookmarks.stats.clearAll")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { useState, type CSSProperties, type KeyboardEvent } from "react";
+import { X } from "lucide-react";
+import { useI18n } from "../../i18n/LanguageProvider";
+import { normalizeTag, type TaggedNode } from "./bookmarkTags";
+
+interface BookmarkTagsModalProps {
+  node: TaggedNode;
+  tags: string[];
+  /** Tags used elsewhere, offered as suggestions. */
+  knownTags: string[];
+  themeStyle: CSSProperties;
+  onSave: (tags: string[]) => void;
+  onClose: () => void;
+}
+
+/** Edits the tags of one bookmark or folder. */
+export function BookmarkTagsModal({ node, tags, knownTags, themeStyle, onSave, onClose }: BookmarkTagsModalProps) {
+  const { t } = useI18n();
+  const [current, setCurrent] = useState(tags);
+  const [draft, setDraft] = useState("");
+
+  const add = (value: string) => {
+    const tag = normalizeTag(value);
+    if (tag && !current.includes(tag)) setCurrent((prev) => [...prev, tag]);
+    setDraft("");
+  };
+
+  const onKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter" || event.key === ",") {
+      event.preventDefault();
+      add(draft);
+    } else if (event.key === "Backspace" && !draft && current.length) {
+      setCurrent((prev) => prev.slice(0, -1));
+    }
+  };
+
+  const filter = normalizeTag(draft);
+  const suggestions = knownTags.filter((tag) => !current.includes(tag) && tag.includes(filter)).slice(0, 12);
+
+  return (
+    <div className="bookmarks-overlay">
+      <div className="bookmarks-modal bookmarks-tag-editor" style={{ ...themeStyle, width: "auto", height: "auto", maxWidth: "24rem" }}>
+        <div className="bookmarks-toolbar">
+          <button type="button" onClick={onClose} className="bookmarks-btn">
+            {t("bookmarks.cancel")}
+          </button>
+          <h3 className="text-base font-medium flex-grow text-center">{t("bookmarks.tags.edit")}</h3>
+          <button
+            type="button"
+            onClick={() => onSave(draft.trim() ? [...current, draft] : current)}
+            className="bookmarks-btn bookmarks-btn--primary"
+          >
+            {t("bookmarks.tags.save")}
+          </button>
+        </div>
+
+        <span className="bookmarks-tag-editor__target" title={node.url || node.title}>
+          {node.title || node.url}
+        </span>
+
+        <div className="bookmarks-tag-editor__field">
+          {current.map((tag) => (
+            <span key={tag} className="bookmarks-tag">
+              #{tag}
+              <button
+                type="button"
+                onClick={() => setCurrent((prev) => prev.filter((existing) => existing !== tag))}
+                aria-label={t("bookmarks.tags.remove", { tag })}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+          <input
+            type="text"
+            value={draft}
+            placeholder={t("bookmarks.tags.placeholder")}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={onKeyDown}
+            autoFocus
+          />
+        </div>
+
+        {suggestions.length > 0 && (
+          <div className="bookmarks-tag-list">
+            {suggestions.map((tag) => (
+              <button key={tag} type="button" className="bookmarks-tag" onClick={() => add(tag)}>
+                #{tag}
+              </button>
+            ))}
+          </div>
+        )}
+        <span className="bookmarks-tag-editor__hint">{t("bookmarks.tags.hint")}</span>
+      </div>
+    </div>
+  );
+}
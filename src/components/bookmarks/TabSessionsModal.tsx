@@ -0,0 +1,160 @@
+import { useCallback, useEffect, useState, type CSSProperties } from "react";
+import { RotateCcw, Trash2 } from "lucide-react";
+import { useI18n } from "../../i18n/LanguageProvider";
+import { captureSession, deleteSession, listSessions, restoreSession, type SessionScope, type TabSession } from "./tabSessions";
+
+interface TabSessionsModalProps {
+  themeStyle: CSSProperties;
+  /** Called after a session was added or removed, to push its record to sync. */
+  onChanged: () => void;
+  onClose: () => void;
+}
+
+/** Saves the open tabs as a session folder and lists the saved sessions to restore or delete. */
+export function TabSessionsModal({ themeStyle, onChanged, onClose }: TabSessionsModalProps) {
+  const { t, language } = useI18n();
+  const [sessions, setSessions] = useState<TabSession[]>([]);
+  const [name, setName] = useState("");
+  const [note, setNote] = useState("");
+  const [scope, setScope] = useState<SessionScope>("window");
+  const [closeTabs, setCloseTabs] = useState(false);
+  const [dedupe, setDedupe] = useState(true);
+  const [isBusy, setIsBusy] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => setSessions(await listSessions()), []);
+
+  useEffect(() => {
+    refresh().catch((error) => console.error("Error loading tab sessions:", error));
+  }, [refresh]);
+
+  const run = async (task: () => Promise<void>) => {
+    setIsBusy(true);
+    setStatus(null);
+    try {
+      await task();
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const capture = () =>
+    run(async () => {
+      const session = await captureSession({ scope, name, note, closeTabs });
+      if (!session) {
+        setStatus(t("bookmarks.sessions.nothingToSave"));
+        return;
+      }
+      setName("");
+      setNote("");
+      setStatus(t("bookmarks.sessions.saved", { count: session.tabCount }));
+      onChanged();
+      await refresh();
+    });
+
+  const restore = (session: TabSession) =>
+    run(async () => {
+      const { opened, skipped } = await restoreSession(session, dedupe);
+      setStatus(t("bookmarks.sessions.restored", { count: opened, skipped }));
+    });
+
+  const remove = (session: TabSession) => {
+    if (!confirm(t("bookmarks.sessions.deleteConfirm", { title: session.title }))) return;
+    void run(async () => {
+      await deleteSession(session);
+      onChanged();
+      await refresh();
+    });
+  };
+
+  return (
+    <div className="bookmarks-overlay">
+      <div className="bookmarks-modal bookmarks-sessions" style={{ ...themeStyle, width: "auto", height: "auto", maxWidth: "28rem" }}>
+        <div className="bookmarks-toolbar">
+          <button type="button" onClick={onClose} className="bookmarks-btn">
+            {t("bookmarks.sessions.close")}
+          </button>
+          <h3 className="text-base font-medium flex-grow text-center">{t("bookmarks.sessions.title")}</h3>
+        </div>
+
+        <div className="bookmarks-sessions__form">
+          <input
+            type="text"
+            className="bookmarks-input"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={t("bookmarks.sessions.name")}
+          />
+          <textarea
+            className="bookmarks-input"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder={t("bookmarks.sessions.note")}
+            rows={2}
+          />
+          <div className="bookmarks-sessions__options">
+            <select value={scope} onChange={(e) => setScope(e.target.value as SessionScope)}>
+              <option value="window">{t("bookmarks.sessions.scopeWindow")}</option>
+              <option value="all">{t("bookmarks.sessions.scopeAll")}</option>
+            </select>
+            <label className="bookmarks-recursive-search">
+              <input type="checkbox" checked={closeTabs} onChange={(e) => setCloseTabs(e.target.checked)} />
+              <span>{t("bookmarks.sessions.closeTabs")}</span>
+            </label>
+            <button type="button" className="bookmarks-btn bookmarks-btn--primary" onClick={capture} disabled={isBusy}>
+              {t("bookmarks.sessions.save")}
+            </button>
+          </div>
+        </div>
+
+        <div className="bookmarks-sessions__list">
+          {sessions.length === 0 && <p className="bookmarks-empty">{t("bookmarks.sessions.empty")}</p>}
+          {sessions.map((session) => (
+            <div key={session.folderId} className="bookmarks-sessions__row">
+              <span className="bookmarks-sessions__body">
+                <span className="bookmarks-sessions__title">{session.title}</span>
+                <span className="bookmarks-sessions__meta">
+                  {new Date(session.createdAt).toLocaleString(language)}
+                  {" · "}
+                  {t("bookmarks.sessions.tabs", { count: session.tabCount })}
+                  {session.windows.length > 1 && ` · ${t("bookmarks.sessions.windows", { count: session.windows.length })}`}
+                </span>
+                {session.note && <span className="bookmarks-sessions__note">{session.note}</span>}
+              </span>
+              <button
+                type="button"
+                className="bookmarks-btn"
+                onClick={() => restore(session)}
+                disabled={isBusy || session.tabCount === 0}
+              >
+                <RotateCcw className="w-3.5 h-3.5" />
+                {t("bookmarks.sessions.restore")}
+              </button>
+              <button
+                type="button"
+                className="bookmarks-btn"
+                onClick={() => remove(session)}
+                disabled={isBusy}
+                aria-label={t("bookmarks.sessions.delete")}
+                title={t("bookmarks.sessions.delete")}
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {sessions.length > 0 && (
+          <label className="bookmarks-recursive-search">
+            <input type="checkbox" checked={dedupe} onChange={(e) => setDedupe(e.target.checked)} />
+            <span>{t("bookmarks.sessions.dedupe")}</span>
+          </label>
+        )}
+
+        {status && <p className="bookmarks-sessions__status">{status}</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import { Plus, SlidersHorizontal } from "lucide-react";
+import { useI18n } from "../../i18n/LanguageProvider";
+import type { TileBoard } from "./tileBoards";
+
+interface TileBoardBarProps {
+  boards: TileBoard[];
+  activeBoardId: string;
+  onSelect: (boardId: string) => void;
+  onAdd: () => void;
+  onEdit: () => void;
+}
+
+/** Board tabs above the grid; Alt+1…9 switches boards from anywhere on the page. */
+export function TileBoardBar({ boards, activeBoardId, onSelect, onAdd, onEdit }: TileBoardBarProps) {
+  const { t } = useI18n();
+
+  return (
+    <div className="bookmarks-boards" role="tablist" aria-label={t("bookmarks.boards.label")}>
+      {boards.map((board, index) => {
+        const isActive = board.id === activeBoardId;
+        return (
+          <button
+            key={board.id}
+            type="button"
+            role="tab"
+            aria-selected={isActive}
+            className={`bookmarks-boards__tab${isActive ? " is-active" : ""}`}
+            onClick={() => onSelect(board.id)}
+            title={index < 9 ? t("bookmarks.boards.shortcut", { key: index + 1 }) : undefined}
+          >
+            {board.title || t("bookmarks.boards.defaultName")}
+          </button>
+        );
+      })}
+      <button type="button" className="bookmarks-boards__action" onClick={onAdd} title={t("bookmarks.boards.add")} aria-label={t("bookmarks.boards.add")}>
+        <Plus className="w-3.5 h-3.5" />
+      </button>
+      <button type="button" className="bookmarks-boards__action" onClick={onEdit} title={t("bookmarks.boards.edit")} aria-label={t("bookmarks.boards.edit")}>
+        <SlidersHorizontal className="w-3.5 h-3.5" />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { useState, type CSSProperties } from "react";
+import { Trash2 } from "lucide-react";
+import { useI18n } from "../../i18n/LanguageProvider";
+import { MAX_BOARD_TILES, MIN_BOARD_TILES, type TileBoard } from "./tileBoards";
+
+interface TileBoardSettingsModalProps {
+  board: TileBoard;
+  /** The tile count from Settings, used while the board has none of its own. */
+  globalTileNumber: number;
+  canDelete: boolean;
+  themeStyle: CSSProperties;
+  onSave: (board: TileBoard) => void;
+  onDelete: () => void;
+  onClose: () => void;
+}
+
+type BackgroundChoice = "global" | "board";
+
+/** Name, tile count and background of one board. */
+export function TileBoardSettingsModal({
+  board,
+  globalTileNumber,
+  canDelete,
+  themeStyle,
+  onSave,
+  onDelete,
+  onClose,
+}: TileBoardSettingsModalProps) {
+  const { t } = useI18n();
+  const [title, setTitle] = useState(board.title);
+  const [ownTileNumber, setOwnTileNumber] = useState(board.tileNumber !== undefined);
+  const [tileNumber, setTileNumber] = useState(board.tileNumber ?? globalTileNumber);
+  const [backgroundChoice, setBackgroundChoice] = useState<BackgroundChoice>(board.background ? "board" : "global");
+
+  const save = () => {
+    // "This board" keeps the background it had, or takes whatever Settings shows right now.
+    const background = backgroundChoice === "board" ? board.background ?? localStorage.getItem("selectedBackground") : null;
+    const next: TileBoard = { ...board, title: title.trim() };
+    delete next.tileNumber;
+    delete next.background;
+    onSave({ ...next, ...(ownTileNumber ? { tileNumber } : {}), ...(background ? { background } : {}) });
+  };
+
+  return (
+    <div className="bookmarks-overlay">
+      <div className="bookmarks-modal bookmarks-board-form" style={{ ...themeStyle, width: "auto", height: "auto", maxWidth: "24rem" }}>
+        <div className="bookmarks-toolbar">
+          <button type="button" onClick={onClose} className="bookmarks-btn">
+            {t("bookmarks.cancel")}
+          </button>
+          <h3 className="text-base font-medium flex-grow text-center">{t("bookmarks.boards.edit")}</h3>
+          <button type="button" onClick={save} className="bookmarks-btn bookmarks-btn--primary">
+            {t("bookmarks.boards.save")}
+          </button>
+        </div>
+
+        <label className="bookmarks-board-form__field">
+          <span className="bookmarks-group-label">{t("bookmarks.boards.name")}</span>
+          <input
+            type="text"
+            value={title}
+            placeholder={t("bookmarks.boards.defaultName")}
+            onChange={(e) => setTitle(e.target.value)}
+            className="bookmarks-input"
+            autoFocus
+          />
+        </label>
+
+        <div className="bookmarks-board-form__field">
+          <span className="bookmarks-group-label">{t("bookmarks.boards.tiles")}</span>
+          <label className="bookmarks-recursive-search">
+            <input type="checkbox" checked={!ownTileNumber} onChange={(e) => setOwnTileNumber(!e.target.checked)} />
+            <span>{t("bookmarks.boards.useGlobalTiles", { count: globalTileNumber })}</span>
+          </label>
+          {ownTileNumber && (
+            <div className="bookmarks-board-form__range">
+              <input
+                type="range"
+                min={MIN_BOARD_TILES}
+                max={MAX_BOARD_TILES}
+                step={1}
+                value={tileNumber}
+                onChange={(e) => setTileNumber(Number(e.target.value))}
+              />
+              <span>{tileNumber}</span>
+            </div>
+          )}
+        </div>
+
+        <div className="bookmarks-board-form__field">
+          <span className="bookmarks-group-label">{t("bookmarks.boards.background")}</span>
+          <div className="bookmarks-toggle-group">
+            {(["global", "board"] as const).map((choice) => (
+              <button
+                key={choice}
+                type="button"
+                className={`bookmarks-toggle-btn${backgroundChoice === choice ? " bookmarks-toggle-btn--active" : ""}`}
+                onClick={() => setBackgroundChoice(choice)}
+              >
+                {t(`bookmarks.boards.backgroundChoice.${choice}`)}
+              </button>
+            ))}
+          </div>
+          <span className="bookmarks-board-form__hint">{t("bookmarks.boards.backgroundHint")}</span>
+        </div>
+
+        {canDelete && (
+          <button
+            type="button"
+            className="bookmarks-btn bookmarks-board-form__delete"
+            onClick={() => {
+              if (confirm(t("bookmarks.boards.deleteConfirm", { name: board.title || t("bookmarks.boards.defaultName") }))) onDelete();
+            }}
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+            {t("bookmarks.boards.delete")}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { AppWindow, Bell, BookOpen, ExternalLink, FolderInput, Palette, Smile, Trash2, X } from "lucide-react";
+import { useI18n } from "../../i18n/LanguageProvider";
+import type { TileBoard } from "./tileBoards";
+
+interface TileSelectionBarProps {
+  count: number;
+  /** Boards the selection can move to; the shown board is left out. */
+  targetBoards: TileBoard[];
+  /** Selected tiles that open a page, for the open and Read Later actions. */
+  openableCount: number;
+  onSelectAll: () => void;
+  onColor: () => void;
+  onIcon: () => void;
+  onMove: (boardId: string) => void;
+  onReminder: () => void;
+  onReadLater: () => void;
+  onOpenTabs: () => void;
+  onOpenWindow: () => void;
+  onClear: () => void;
+  onDone: () => void;
+}
+
+/** Actions for the tiles picked in selection mode; click, Ctrl+click and Shift+click on tiles change the selection. */
+export function TileSelectionBar({
+  count,
+  targetBoards,
+  openableCount,
+  onSelectAll,
+  onColor,
+  onIcon,
+  onMove,
+  onReminder,
+  onReadLater,
+  onOpenTabs,
+  onOpenWindow,
+  onClear,
+  onDone,
+}: TileSelectionBarProps) {
+  const { t } = useI18n();
+  const isEmpty = count === 0;
+
+  return (
+    <div className="bookmarks-selection" role="toolbar" aria-label={t("bookmarks.bulk.toolbar")}>
+      <span className="bookmarks-selection__count">{t("bookmarks.bulk.selected", { count })}</span>
+      <button type="button" className="bookmarks-btn" onClick={onSelectAll}>
+        {t("bookmarks.bulk.selectAll")}
+      </button>
+      <span className="bookmarks-selection__actions">
+        <button type="button" className="bookmarks-btn" onClick={onColor} disabled={isEmpty} title={t("bookmarks.bulk.color")} aria-label={t("bookmarks.bulk.color")}>
+          <Palette className="w-3.5 h-3.5" />
+        </button>
+        <button type="button" className="bookmarks-btn" onClick={onIcon} disabled={isEmpty} title={t("bookmarks.bulk.icon")} aria-label={t("bookmarks.bulk.icon")}>
+          <Smile className="w-3.5 h-3.5" />
+        </button>
+        <button type="button" className="bookmarks-btn" onClick={onReminder} disabled={isEmpty} title={t("bookmarks.bulk.reminder")} aria-label={t("bookmarks.bulk.reminder")}>
+          <Bell className="w-3.5 h-3.5" />
+        </button>
+        <button type="button" className="bookmarks-btn" onClick={onReadLater} disabled={!openableCount} title={t("bookmarks.bulk.readLater")} aria-label={t("bookmarks.bulk.readLater")}>
+          <BookOpen className="w-3.5 h-3.5" />
+        </button>
+        <button type="button" className="bookmarks-btn" onClick={onOpenTabs} disabled={!openableCount} title={t("bookmarks.bulk.openTabs")} aria-label={t("bookmarks.bulk.openTabs")}>
+          <ExternalLink className="w-3.5 h-3.5" />
+        </button>
+        <button type="button" className="bookmarks-btn" onClick={onOpenWindow} disabled={!openableCount} title={t("bookmarks.bulk.openWindow")} aria-label={t("bookmarks.bulk.openWindow")}>
+          <AppWindow className="w-3.5 h-3.5" />
+        </button>
+        {targetBoards.length > 0 && (
+          <label className="bookmarks-selection__move" title={t("bookmarks.bulk.move")}>
+            <FolderInput className="w-3.5 h-3.5" />
+            <select
+              value=""
+              disabled={isEmpty}
+              aria-label={t("bookmarks.bulk.move")}
+              onChange={(e) => {
+                if (e.target.value) onMove(e.target.value);
+              }}
+            >
+              <option value="">{t("bookmarks.bulk.move")}</option>
+              {targetBoards.map((board) => (
+                <option key={board.id} value={board.id}>
+                  {board.title || t("bookmarks.boards.defaultName")}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        <button type="button" className="bookmarks-btn" onClick={onClear} disabled={isEmpty} title={t("bookmarks.bulk.clear")} aria-label={t("bookmarks.bulk.clear")}>
+          <Trash2 className="w-3.5 h-3.5" />
+        </button>
+      </span>
+      <button type="button" className="bookmarks-btn" onClick={onDone} title={t("bookmarks.bulk.done")} aria-label={t("bookmarks.bulk.done")}>
+        <X className="w-3.5 h-3.5" />
+      </button>
+    </div>
+  );
+}
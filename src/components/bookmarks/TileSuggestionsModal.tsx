@@ -0,0 +1,215 @@
+import { useCallback, useEffect, useState, type CSSProperties } from "react";
+import { Plus, X } from "lucide-react";
+import { useI18n } from "../../i18n/LanguageProvider";
+import { BookmarkFavicon } from "./BookmarkFavicon";
+import { listBookmarkFolders, type BookmarkFolderOption } from "./bookmarkExchange";
+import {
+  bookmarkSuggestion,
+  dismissSuggestion,
+  getTileSuggestionSettings,
+  hasSuggestionPermissions,
+  loadTileSuggestions,
+  requestSuggestionPermissions,
+  setTileSuggestionSettings,
+  type TileSuggestion,
+  type TileSuggestionSettings,
+} from "./tileSuggestions";
+
+interface TileSuggestionsModalProps {
+  /** Free slots on the shown board; accepting is disabled when there are none. */
+  emptySlots: number;
+  themeStyle: CSSProperties;
+  /** Puts the bookmark made for a suggestion into the next empty slot. */
+  onAccept: (node: chrome.bookmarks.BookmarkTreeNode) => Promise<void>;
+  onClose: () => void;
+}
+
+/** Offers often visited sites as tiles; turning it on asks for the topSites (and history) permission. */
+export function TileSuggestionsModal({ emptySlots, themeStyle, onAccept, onClose }: TileSuggestionsModalProps) {
+  const { t } = useI18n();
+  const [settings, setSettings] = useState<TileSuggestionSettings>(() => getTileSuggestionSettings());
+  const [includeHistory, setIncludeHistory] = useState(settings.includeHistory);
+  const [suggestions, setSuggestions] = useState<TileSuggestion[] | null>(null);
+  const [folders, setFolders] = useState<BookmarkFolderOption[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const folderId = settings.folderId ?? folders[0]?.id ?? null;
+
+  const run = useCallback(async (task: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await task();
+    } catch (taskError) {
+      setError(taskError instanceof Error ? taskError.message : String(taskError));
+    } finally {
+      setIsBusy(false);
+    }
+  }, []);
+
+  const update = useCallback((changes: Partial<TileSuggestionSettings>) => {
+    const next = setTileSuggestionSettings(changes);
+    setSettings(next);
+    return next;
+  }, []);
+
+  // Only reads the settings it is given, so it stays the same across renders
+  const refresh = useCallback(
+    async (current: TileSuggestionSettings) => {
+      // Permissions can be taken back from chrome://extensions at any time
+      if (!(await hasSuggestionPermissions(current.includeHistory))) {
+        setSuggestions(null);
+        update({ enabled: false });
+        return;
+      }
+      setSuggestions(await loadTileSuggestions(current));
+    },
+    [update],
+  );
+
+  useEffect(() => {
+    listBookmarkFolders()
+      .then(setFolders)
+      .catch((loadError) => console.warn("[nexx-bookmarks] failed to list folders:", loadError));
+    const initial = getTileSuggestionSettings();
+    if (initial.enabled) void run(() => refresh(initial));
+  }, [run, refresh]);
+
+  const turnOn = () =>
+    run(async () => {
+      if (!(await requestSuggestionPermissions(includeHistory))) {
+        setError(t("bookmarks.suggestions.permissionDenied"));
+        return;
+      }
+      await refresh(update({ enabled: true, includeHistory }));
+    });
+
+  const turnOff = () =>
+    run(async () => {
+      update({ enabled: false });
+      setSuggestions(null);
+      await chrome.permissions.remove({ permissions: ["topSites", "history"] });
+    });
+
+  const toggleHistory = (checked: boolean) =>
+    run(async () => {
+      if (checked && !(await requestSuggestionPermissions(true))) {
+        setError(t("bookmarks.suggestions.permissionDenied"));
+        return;
+      }
+      if (!checked) await chrome.permissions.remove({ permissions: ["history"] });
+      setIncludeHistory(checked);
+      await refresh(update({ includeHistory: checked }));
+    });
+
+  const accept = (suggestion: TileSuggestion) =>
+    run(async () => {
+      if (!folderId) return;
+      await onAccept(await bookmarkSuggestion(suggestion, folderId));
+      setSuggestions((prev) => prev?.filter((item) => item.host !== suggestion.host) ?? null);
+    });
+
+  const dismiss = (suggestion: TileSuggestion) => {
+    setSettings(dismissSuggestion(suggestion.host));
+    setSuggestions((prev) => prev?.filter((item) => item.host !== suggestion.host) ?? null);
+  };
+
+  const resetDismissed = () => run(() => refresh(update({ dismissed: [] })));
+
+  return (
+    <div className="bookmarks-overlay">
+      <div className="bookmarks-modal bookmarks-suggestions" style={{ ...themeStyle, width: "auto", height: "auto", maxWidth: "28rem" }}>
+        <div className="bookmarks-toolbar">
+          <button type="button" onClick={onClose} className="bookmarks-btn">
+            {t("bookmarks.suggestions.close")}
+          </button>
+          <h3 className="text-base font-medium flex-grow text-center">{t("bookmarks.suggestions.title")}</h3>
+        </div>
+
+        {!settings.enabled ? (
+          <div className="bookmarks-suggestions__intro">
+            <p>{t("bookmarks.suggestions.intro")}</p>
+            <label className="bookmarks-recursive-search">
+              <input type="checkbox" checked={includeHistory} onChange={(e) => setIncludeHistory(e.target.checked)} />
+              <span>{t("bookmarks.suggestions.includeHistory")}</span>
+            </label>
+            <button type="button" className="bookmarks-btn bookmarks-btn--primary" onClick={turnOn} disabled={isBusy}>
+              {t("bookmarks.suggestions.turnOn")}
+            </button>
+          </div>
+        ) : (
+          <>
+            <div className="bookmarks-suggestions__options">
+              <label className="bookmarks-recursive-search">
+                <input type="checkbox" checked={settings.includeHistory} onChange={(e) => toggleHistory(e.target.checked)} disabled={isBusy} />
+                <span>{t("bookmarks.suggestions.includeHistory")}</span>
+              </label>
+              <label className="bookmarks-suggestions__folder">
+                <span>{t("bookmarks.suggestions.folder")}</span>
+                <select value={folderId ?? ""} onChange={(e) => update({ folderId: e.target.value })}>
+                  {folders.map((folder) => (
+                    <option key={folder.id} value={folder.id}>
+                      {folder.path}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <span className="bookmarks-suggestions__meta">{t("bookmarks.suggestions.emptySlots", { count: emptySlots })}</span>
+            </div>
+
+            <div className="bookmarks-suggestions__list">
+              {suggestions?.length === 0 && <p className="bookmarks-empty">{t("bookmarks.suggestions.none")}</p>}
+              {suggestions?.map((suggestion) => (
+                <div key={suggestion.host} className="bookmarks-suggestions__row">
+                  <BookmarkFavicon url={suggestion.url} title={suggestion.title} size={16} className="w-4 h-4" />
+                  <span className="bookmarks-suggestions__body">
+                    <span className="bookmarks-suggestions__title">{suggestion.title}</span>
+                    <span className="bookmarks-suggestions__meta">
+                      {suggestion.host}
+                      {" · "}
+                      {suggestion.source === "history"
+                        ? t("bookmarks.suggestions.visits", { count: suggestion.visits ?? 0 })
+                        : t("bookmarks.suggestions.topSite")}
+                    </span>
+                  </span>
+                  <button
+                    type="button"
+                    className="bookmarks-btn"
+                    onClick={() => accept(suggestion)}
+                    disabled={isBusy || emptySlots === 0 || !folderId}
+                  >
+                    <Plus className="w-3.5 h-3.5" />
+                    {t("bookmarks.suggestions.add")}
+                  </button>
+                  <button
+                    type="button"
+                    className="bookmarks-btn"
+                    onClick={() => dismiss(suggestion)}
+                    aria-label={t("bookmarks.suggestions.dismiss")}
+                    title={t("bookmarks.suggestions.dismiss")}
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            <div className="bookmarks-suggestions__footer">
+              {settings.dismissed.length > 0 && (
+                <button type="button" className="bookmarks-btn" onClick={resetDismissed} disabled={isBusy}>
+                  {t("bookmarks.suggestions.resetDismissed", { count: settings.dismissed.length })}
+                </button>
+              )}
+              <button type="button" className="bookmarks-btn" onClick={turnOff} disabled={isBusy}>
+                {t("bookmarks.suggestions.turnOff")}
+              </button>
+            </div>
+          </>
+        )}
+
+        {error && <p className="bookmarks-suggestions__error">{error}</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,296 @@
+import { bookmarksDB } from "../settings/settingsDb";
+import { scheduleSyncPush, type SyncBookmarkTile } from "../settings/settingsSync";
+import { notifyLocalSubscribers } from "../IndexedDatabase/changeBus";
+import { loadBoardTiles, type TileBoard } from "./tileBoards";
+import { SEARCH_TILE_TYPE } from "./bookmarkTags";
+
+// Bookmark exchange: a Chrome folder or the tile board out as Netscape bookmark HTML (what every browser
+// imports), Markdown or JSON, and Netscape HTML back in. Tile colours, icons and positions travel as
+// DATA-TILE-* attributes, which other browsers ignore.
+
+export type ExchangeFormat = "html" | "markdown" | "json";
+
+export interface ExchangeNode {
+  title: string;
+  /** Absent for folders. */
+  url?: string;
+  /** Milliseconds since the epoch. */
+  addDate?: number;
+  tileColor?: string;
+  tileIcon?: string;
+  tilePosition?: number;
+  children?: ExchangeNode[];
+}
+
+export interface BookmarkFolderOption {
+  id: string;
+  /** Full path, e.g. `Bookmarks bar / Work`. */
+  path: string;
+}
+
+export interface BookmarkImportResult {
+  folders: number;
+  bookmarks: number;
+  /** Tiles placed on the active board from DATA-TILE-POSITION. */
+  tiles: number;
+  /** Tiles in the file whose slot was taken or past the board's size. */
+  tilesSkipped: number;
+}
+
+export const EXCHANGE_JSON_FORMAT = "nexx-bookmarks";
+const EXCHANGE_JSON_VERSION = 1;
+const DEFAULT_TILE_COLOR = "rgba(0, 0, 0, 0.6)";
+
+const FILE_EXTENSIONS: Record<ExchangeFormat, string> = { html: "html", markdown: "md", json: "json" };
+const MIME_TYPES: Record<ExchangeFormat, string> = {
+  html: "text/html",
+  markdown: "text/markdown",
+  json: "application/json",
+};
+
+const fromChromeNode = (node: chrome.bookmarks.BookmarkTreeNode): ExchangeNode => ({
+  title: node.title,
+  ...(node.url ? { url: node.url } : {}),
+  ...(node.dateAdded ? { addDate: node.dateAdded } : {}),
+  ...(node.children ? { children: node.children.map(fromChromeNode) } : {}),
+});
+
+const withTileStyle = (node: ExchangeNode, tile: SyncBookmarkTile): ExchangeNode => ({
+  ...node,
+  tileColor: tile.tileColor,
+  tileIcon: tile.tileIcon,
+  tilePosition: tile.position,
+});
+
+const loadTiles = () => bookmarksDB.queryIndex<SyncBookmarkTile>("position");
+
+/** Every folder under the root, depth first, for pickers. */
+export const listBookmarkFolders = async (): Promise<BookmarkFolderOption[]> => {
+  const tree = await chrome.bookmarks.getTree();
+  const folders: BookmarkFolderOption[] = [];
+  const walk = (nodes: chrome.bookmarks.BookmarkTreeNode[], prefix: string) => {
+    for (const node of nodes) {
+      if (node.url) continue;
+      const path = prefix ? `${prefix} / ${node.title}` : node.title;
+      folders.push({ id: node.id, path });
+      walk(node.children ?? [], path);
+    }
+  };
+  walk(tree[0]?.children ?? [], "");
+  return folders;
+};
+
+/** A Chrome folder with its whole subtree; bookmarks that are tiles carry their tile style. */
+export const readBookmarkFolder = async (folderId: string): Promise<ExchangeNode> => {
+  const [[folder], tiles] = await Promise.all([chrome.bookmarks.getSubTree(folderId), loadTiles()]);
+  const tilesByNode = new Map(tiles.map((tile) => [tile.nodeId, tile]));
+  const decorate = (chromeNode: chrome.bookmarks.BookmarkTreeNode, node: ExchangeNode): ExchangeNode => {
+    const tile = tilesByNode.get(chromeNode.id);
+    const children = chromeNode.children?.map((child, index) => decorate(child, node.children![index]));
+    const decorated = children ? { ...node, children } : node;
+    return tile ? withTileStyle(decorated, tile) : decorated;
+  };
+  return decorate(folder, fromChromeNode(folder));
+};
+
+/** A tile board in position order; folder tiles bring their current contents. */
+export const readTileBoard = async (boardId: string, title: string): Promise<ExchangeNode> => {
+  // Saved-search tiles hold no bookmark of their own
+  const tiles = (await loadBoardTiles<SyncBookmarkTile>(boardId)).filter((tile) => tile.type !== SEARCH_TILE_TYPE);
+  const children = await Promise.all(
+    tiles.map(async (tile): Promise<ExchangeNode> => {
+      if (tile.type === "folder") {
+        try {
+          const [folder] = await chrome.bookmarks.getSubTree(tile.nodeId);
+          return withTileStyle({ ...fromChromeNode(folder), title: tile.title }, tile);
+        } catch {
+          // The folder was deleted in Chrome; the tile still names it.
+          return withTileStyle({ title: tile.title, addDate: tile.createdAt, children: [] }, tile);
+        }
+      }
+      return withTileStyle({ title: tile.title, url: tile.url, addDate: tile.createdAt }, tile);
+    }),
+  );
+  return { title, children };
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const htmlAttributes = (node: ExchangeNode) =>
+  [
+    node.url !== undefined ? ` HREF="${escapeHtml(node.url)}"` : "",
+    node.addDate ? ` ADD_DATE="${Math.floor(node.addDate / 1000)}"` : "",
+    node.tileColor ? ` DATA-TILE-COLOR="${escapeHtml(node.tileColor)}"` : "",
+    node.tileIcon ? ` DATA-TILE-ICON="${escapeHtml(node.tileIcon)}"` : "",
+    node.tilePosition !== undefined ? ` DATA-TILE-POSITION="${node.tilePosition}"` : "",
+  ].join("");
+
+const htmlEntries = (nodes: ExchangeNode[], depth: number): string[] => {
+  const indent = "    ".repeat(depth);
+  return nodes.flatMap((node) =>
+    node.children
+      ? [
+          `${indent}<DT><H3${htmlAttributes(node)}>${escapeHtml(node.title)}</H3>`,
+          `${indent}<DL><p>`,
+          ...htmlEntries(node.children, depth + 1),
+          `${indent}</DL><p>`,
+        ]
+      : [`${indent}<DT><A${htmlAttributes(node)}>${escapeHtml(node.title)}</A>`],
+  );
+};
+
+export const toNetscapeHtml = (root: ExchangeNode): string =>
+  [
+    "<!DOCTYPE NETSCAPE-Bookmark-file-1>",
+    "<!-- This is an automatically generated file.",
+    "     It will be read and overwritten.",
+    "     DO NOT EDIT! -->",
+    '<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">',
+    "<TITLE>Bookmarks</TITLE>",
+    "<H1>Bookmarks</H1>",
+    "<DL><p>",
+    ...htmlEntries([root], 1),
+    "</DL><p>",
+    "",
+  ].join("\n");
+
+const escapeMarkdown = (text: string) => text.replace(/([\\[\]*_`])/g, "\\$1");
+const escapeMarkdownUrl = (url: string) => url.replace(/[()\s]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, "0")}`);
+
+const markdownEntries = (nodes: ExchangeNode[], depth: number): string[] => {
+  const indent = "  ".repeat(depth);
+  return nodes.flatMap((node) =>
+    node.children
+      ? [`${indent}- **${escapeMarkdown(node.title)}**`, ...markdownEntries(node.children, depth + 1)]
+      : [`${indent}- [${escapeMarkdown(node.title || node.url || "")}](${escapeMarkdownUrl(node.url ?? "")})`],
+  );
+};
+
+export const toMarkdown = (root: ExchangeNode): string =>
+  [`# ${escapeMarkdown(root.title)}`, "", ...markdownEntries(root.children ?? [], 0), ""].join("\n");
+
+export const toJson = (root: ExchangeNode): string =>
+  JSON.stringify({ format: EXCHANGE_JSON_FORMAT, version: EXCHANGE_JSON_VERSION, exportedAt: new Date().toISOString(), root }, null, 2);
+
+const SERIALIZERS: Record<ExchangeFormat, (root: ExchangeNode) => string> = {
+  html: toNetscapeHtml,
+  markdown: toMarkdown,
+  json: toJson,
+};
+
+export const downloadBookmarks = (root: ExchangeNode, format: ExchangeFormat, baseName: string) => {
+  const link = document.createElement("a");
+  link.href = `data:${MIME_TYPES[format]};charset=utf-8,${encodeURIComponent(SERIALIZERS[format](root))}`;
+  link.download = `${baseName}.${FILE_EXTENSIONS[format]}`;
+  link.click();
+};
+
+const readNumber = (element: Element, name: string): number | undefined => {
+  const value = Number.parseInt(element.getAttribute(name) ?? "", 10);
+  return Number.isFinite(value) ? value : undefined;
+};
+
+const readEntry = (element: Element): Omit<ExchangeNode, "children"> => {
+  const addDate = readNumber(element, "add_date");
+  const tilePosition = readNumber(element, "data-tile-position");
+  return {
+    title: element.textContent?.trim() ?? "",
+    ...(addDate !== undefined ? { addDate: addDate * 1000 } : {}),
+    ...(element.getAttribute("data-tile-color") ? { tileColor: element.getAttribute("data-tile-color")! } : {}),
+    ...(element.getAttribute("data-tile-icon") ? { tileIcon: element.getAttribute("data-tile-icon")! } : {}),
+    ...(tilePosition !== undefined ? { tilePosition } : {}),
+  };
+};
+
+// Netscape files never close <DT> or <p>, so the HTML parser nests a folder's <DL> inside its <DT>,
+// or leaves it as the next sibling when a stray <DD> description sits in between.
+const readList = (list: Element): ExchangeNode[] => {
+  const nodes: ExchangeNode[] = [];
+  for (const item of Array.from(list.children)) {
+    if (item.tagName !== "DT") continue;
+    const heading = item.querySelector(":scope > h3");
+    const link = item.querySelector(":scope > a");
+    if (heading) {
+      const sibling = item.nextElementSibling?.tagName === "DD" ? item.nextElementSibling.nextElementSibling : item.nextElementSibling;
+      const contents = item.querySelector(":scope > dl") ?? (sibling?.tagName === "DL" ? sibling : null);
+      nodes.push({ ...readEntry(heading), children: contents ? readList(contents) : [] });
+    } else if (link?.getAttribute("href")) {
+      nodes.push({ ...readEntry(link), url: link.getAttribute("href")! });
+    }
+  }
+  return nodes;
+};
+
+/** The top-level entries of a Netscape bookmark file; throws when the file is not one. */
+export const parseNetscapeHtml = (text: string): ExchangeNode[] => {
+  const page = new DOMParser().parseFromString(text, "text/html");
+  const list = page.querySelector("dl");
+  if (!list) throw new Error("Not a bookmark file: no <DL> list found.");
+  return readList(list);
+};
+
+/**
+ * Recreates the file's folders and bookmarks under `parentId` with chrome.bookmarks.create.
+ * Entries with a DATA-TILE-POSITION go on `board` at that slot when it is free.
+ */
+export const importBookmarks = async (
+  nodes: ExchangeNode[],
+  parentId: string,
+  board: TileBoard,
+  tileNumber: number,
+): Promise<BookmarkImportResult> => {
+  const result: BookmarkImportResult = { folders: 0, bookmarks: 0, tiles: 0, tilesSkipped: 0 };
+  const taken = new Set((await loadBoardTiles(board.id)).map((tile) => tile.position));
+  const newTiles: SyncBookmarkTile[] = [];
+
+  const placeTile = (node: ExchangeNode, created: chrome.bookmarks.BookmarkTreeNode) => {
+    if (node.tilePosition === undefined) return;
+    if (node.tilePosition >= tileNumber || taken.has(node.tilePosition)) {
+      result.tilesSkipped += 1;
+      return;
+    }
+    taken.add(node.tilePosition);
+    result.tiles += 1;
+    newTiles.push({
+      id: crypto.randomUUID(),
+      type: node.children ? "folder" : "bookmark",
+      nodeId: created.id,
+      title: created.title,
+      url: created.url,
+      tileColor: node.tileColor || DEFAULT_TILE_COLOR,
+      tileIcon: node.tileIcon || (node.children ? "📁" : "default"),
+      position: node.tilePosition,
+      boardId: board.id,
+      createdAt: Date.now(),
+    });
+  };
+
+  const create = async (entries: ExchangeNode[], targetId: string) => {
+    for (const node of entries) {
+      if (node.children) {
+        const folder = await chrome.bookmarks.create({ parentId: targetId, title: node.title });
+        result.folders += 1;
+        placeTile(node, folder);
+        await create(node.children, folder.id);
+      } else if (node.url) {
+        try {
+          const bookmark = await chrome.bookmarks.create({ parentId: targetId, title: node.title, url: node.url });
+          result.bookmarks += 1;
+          placeTile(node, bookmark);
+        } catch (error) {
+          // Chrome refuses some schemes (e.g. javascript:); skip those rather than abort the whole file.
+          console.warn("[nexx-bookmarks] skipped bookmark:", node.url, error);
+        }
+      }
+    }
+  };
+
+  await create(nodes, parentId);
+  if (newTiles.length) {
+    await bookmarksDB.bulkPut(newTiles);
+    notifyLocalSubscribers(bookmarksDB.storeName);
+    scheduleSyncPush();
+  }
+  return result;
+};
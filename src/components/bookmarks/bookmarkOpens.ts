@@ -0,0 +1,131 @@
+import createDatabase from "../IndexedDatabase/IndexedDatabase";
+import { notifyLocalSubscribers } from "../IndexedDatabase/changeBus";
+import { STORES } from "../IndexedDatabase/schema";
+import { bookmarksDB } from "../settings/settingsDb";
+import { toDateKey } from "../tasks/taskUtils";
+
+// Which bookmarks were opened from NEXX, and when. Kept on this device only, like the favicon cache:
+// it ranks search results, drives the "Most used" / "Recently opened" views and is left out of sync and backups. Tiles, search and reminders all record
+// opens, so each one is announced on this page as well as in other tabs.
+
+export interface BookmarkOpenStats {
+  nodeId: string;
+  url?: string;
+  count: number;
+  lastOpenedAt: number;
+  /** Latest opens, newest first; frecency only looks at these. */
+  recent: number[];
+  /** Opens per local day (`yyyy-MM-dd`) over the last HISTOGRAM_DAYS days. */
+  days?: Record<string, number>;
+}
+
+export interface DailyOpens {
+  date: string;
+  count: number;
+}
+
+const RECENT_OPENS = 10;
+export const HISTOGRAM_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Weight of one open by its age in days; older opens count for less
+const AGE_WEIGHTS: [number, number][] = [
+  [4, 100],
+  [14, 70],
+  [31, 50],
+  [90, 30],
+];
+const OLD_OPEN_WEIGHT = 10;
+
+// Local date `offset` days before `now`, counted in calendar days so DST changes don't skip one
+const dayKeyBefore = (now: number, offset: number) => {
+  const date = new Date(now);
+  return toDateKey(new Date(date.getFullYear(), date.getMonth(), date.getDate() - offset));
+};
+
+const opensDB = createDatabase({ storeName: STORES.opens });
+
+export const recordBookmarkOpen = async (nodeId: string, url?: string) => {
+  const now = Date.now();
+  const previous = await opensDB.getItem<BookmarkOpenStats>(nodeId);
+  const today = dayKeyBefore(now, 0);
+  const oldest = dayKeyBefore(now, HISTOGRAM_DAYS - 1);
+  const days = Object.fromEntries(Object.entries(previous?.days ?? {}).filter(([date]) => date >= oldest));
+  days[today] = (days[today] ?? 0) + 1;
+  const stats: BookmarkOpenStats = {
+    nodeId,
+    url: url ?? previous?.url,
+    count: (previous?.count ?? 0) + 1,
+    lastOpenedAt: now,
+    recent: [now, ...(previous?.recent ?? [])].slice(0, RECENT_OPENS),
+    days,
+  };
+  await opensDB.saveItem(stats);
+  notifyLocalSubscribers(STORES.opens, [nodeId]);
+};
+
+/** Tile id to bookmark node id. Reminders set from a tile hold the tile id, while opens are counted per node. */
+export const loadTileNodeIds = async (): Promise<Map<string, string>> =>
+  new Map(
+    (await bookmarksDB.getAllItems<{ id: string; nodeId?: string }>()).flatMap((record) =>
+      record.nodeId ? [[record.id, record.nodeId] as [string, string]] : [],
+    ),
+  );
+
+/** The node a reminder's bookmark id stands for. */
+export const reminderNodeId = async (bookmarkId: string) => (await loadTileNodeIds()).get(bookmarkId) ?? bookmarkId;
+
+export const loadOpenStats = async (): Promise<Map<string, BookmarkOpenStats>> =>
+  new Map((await opensDB.getAllItems<BookmarkOpenStats>()).map((stats) => [stats.nodeId, stats]));
+
+/** Forgets the opens of the given bookmarks, or of every bookmark when no ids are given. */
+export const clearOpenHistory = async (nodeIds?: string[]) => {
+  if (nodeIds) {
+    for (const nodeId of nodeIds) await opensDB.deleteItem(nodeId);
+  } else {
+    await opensDB.clear();
+  }
+  notifyLocalSubscribers(STORES.opens, nodeIds);
+};
+
+/** Adds the opens of `fromIds` to `intoId` and forgets theirs, for merged duplicates. */
+export const mergeOpenHistory = async (fromIds: string[], intoId: string) => {
+  const all = await loadOpenStats();
+  const merged = [intoId, ...fromIds].map((nodeId) => all.get(nodeId)).filter((stats) => stats !== undefined);
+  if (!merged.some((stats) => stats.nodeId !== intoId)) return;
+  const days: Record<string, number> = {};
+  for (const stats of merged) {
+    for (const [date, count] of Object.entries(stats.days ?? {})) days[date] = (days[date] ?? 0) + count;
+  }
+  await opensDB.saveItem<BookmarkOpenStats>({
+    nodeId: intoId,
+    url: all.get(intoId)?.url ?? merged[0].url,
+    count: merged.reduce((sum, stats) => sum + stats.count, 0),
+    lastOpenedAt: Math.max(...merged.map((stats) => stats.lastOpenedAt)),
+    recent: merged
+      .flatMap((stats) => stats.recent)
+      .sort((a, b) => b - a)
+      .slice(0, RECENT_OPENS),
+    days,
+  });
+  await clearOpenHistory(fromIds.filter((nodeId) => nodeId !== intoId));
+};
+
+/** Opens per day for the `count` days up to today, oldest first; days without opens are 0. */
+export const dailyOpens = (stats: BookmarkOpenStats | undefined, count: number, now = Date.now()): DailyOpens[] =>
+  Array.from({ length: count }, (_, index) => {
+    const date = dayKeyBefore(now, count - 1 - index);
+    return { date, count: stats?.days?.[date] ?? 0 };
+  });
+
+const ageWeight = (ageMs: number) => {
+  const days = ageMs / DAY_MS;
+  return AGE_WEIGHTS.find(([maxDays]) => days <= maxDays)?.[1] ?? OLD_OPEN_WEIGHT;
+};
+
+/** How often and how recently a bookmark was opened: the open count times the average weight of its latest opens. */
+export const frecencyScore = (stats: BookmarkOpenStats | undefined, now = Date.now()): number => {
+  if (!stats?.recent.length) return 0;
+  const weights = stats.recent.reduce((sum, openedAt) => sum + ageWeight(now - openedAt), 0);
+  return (stats.count * weights) / stats.recent.length;
+};
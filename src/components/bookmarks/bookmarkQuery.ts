@@ -0,0 +1,67 @@
+import { normalizeTag } from "./bookmarkTags";
+
+// The bookmark search box syntax: free text plus `tag:`, `site:` and `folder:` filters.
+// Values with spaces are quoted (`folder:"Read later"`). Every filter must match, except `site:`,
+// where any one will do since a bookmark has a single host.
+
+export interface BookmarkQuery {
+  /** What is left once the filters are taken out; matched as before against title and address. */
+  text: string;
+  tags: string[];
+  sites: string[];
+  folders: string[];
+}
+
+export interface QueryTarget {
+  url?: string;
+  tags: string[];
+  /** Titles of the folders above the node, outermost first. */
+  path: string[];
+}
+
+const TOKEN = /(\w+):"([^"]*)"|(\w+):(\S+)|(\S+)/g;
+
+export const parseBookmarkQuery = (input: string): BookmarkQuery => {
+  const query: BookmarkQuery = { text: "", tags: [], sites: [], folders: [] };
+  const words: string[] = [];
+  for (const match of input.matchAll(TOKEN)) {
+    const key = (match[1] ?? match[3])?.toLowerCase();
+    const value = match[2] ?? match[4] ?? "";
+    if (key === "tag" && normalizeTag(value)) query.tags.push(normalizeTag(value));
+    else if (key === "site" && value) query.sites.push(value.toLowerCase().replace(/^www\./, ""));
+    else if (key === "folder" && value) query.folders.push(value.toLowerCase());
+    else words.push(match[0]);
+  }
+  query.text = words.join(" ");
+  return query;
+};
+
+export const hasQueryFilters = (query: BookmarkQuery) =>
+  query.tags.length > 0 || query.sites.length > 0 || query.folders.length > 0;
+
+const hostOf = (url?: string) => {
+  if (!url) return "";
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, "");
+  } catch {
+    return "";
+  }
+};
+
+/** Whether a node passes the filters of `query`; the free text is left to the caller. */
+export const matchesQueryFilters = (query: BookmarkQuery, target: QueryTarget): boolean => {
+  if (query.tags.some((tag) => !target.tags.includes(tag))) return false;
+  if (query.sites.length) {
+    const host = hostOf(target.url);
+    if (!host || !query.sites.some((site) => host === site || host.endsWith(`.${site}`))) return false;
+  }
+  return query.folders.every((folder) => target.path.some((title) => title.toLowerCase().includes(folder)));
+};
+
+/** Adds `tag:<tag>` to the search text, or takes it out when it is already there. */
+export const toggleQueryTag = (input: string, tag: string): string => {
+  const token = `tag:${tag}`;
+  const tokens = input.split(/\s+/).filter(Boolean);
+  const kept = tokens.filter((existing) => existing.toLowerCase() !== token);
+  return (kept.length === tokens.length ? [...tokens, token] : kept).join(" ");
+};
@@ -0,0 +1,151 @@
+import { matchesQueryFilters, parseBookmarkQuery, type BookmarkQuery } from "./bookmarkQuery";
+import { foldText, fuzzyMatchFields, prepareFuzzyQuery, type FoldedText, type FuzzyQuery } from "./fuzzySearch";
+import { frecencyScore, type BookmarkOpenStats } from "./bookmarkOpens";
+import type { BookmarkTagIndex } from "./bookmarkTags";
+
+// Ranks bookmark nodes for a search: `tag:` / `site:` / `folder:` filters decide what is in, the fuzzy
+// match on title and address plus frecency decide the order. Big trees are searched a slice at a time
+// so typing stays responsive.
+
+export type SearchField = "all" | "name" | "address";
+
+export interface SearchableNode {
+  id: string;
+  title: string;
+  url?: string;
+  children?: SearchableNode[];
+}
+
+export interface BookmarkSearch {
+  query: BookmarkQuery;
+  fuzzy: FuzzyQuery;
+  field: SearchField;
+  tagIndex: BookmarkTagIndex;
+  openStats: Map<string, BookmarkOpenStats>;
+  now: number;
+}
+
+export interface IncrementalSearchProgress<T> {
+  /** Best matches so far, best first. */
+  results: T[];
+  /** Matches found so far, including those past the limit. */
+  total: number;
+  done: boolean;
+}
+
+interface FoldedNode {
+  title: FoldedText;
+  address: FoldedText;
+}
+
+// An address match is worth a bit less than the same match in the title
+const ADDRESS_WEIGHT = 0.7;
+// Frecency is added on a log scale so a much-opened bookmark outranks a slightly better match, not a far better one
+const FRECENCY_WEIGHT = 12;
+const SLICE_MS = 8;
+
+const foldedNodes = new WeakMap<SearchableNode, FoldedNode>();
+
+const foldNode = (node: SearchableNode): FoldedNode => {
+  let folded = foldedNodes.get(node);
+  if (!folded) {
+    folded = {
+      title: foldText(node.title),
+      address: foldText((node.url ?? "").replace(/^[a-z][\w+.-]*:\/\/(www\.)?/i, "")),
+    };
+    foldedNodes.set(node, folded);
+  }
+  return folded;
+};
+
+export const createBookmarkSearch = (
+  term: string,
+  field: SearchField,
+  tagIndex: BookmarkTagIndex,
+  openStats: Map<string, BookmarkOpenStats>
+): BookmarkSearch => {
+  const query = parseBookmarkQuery(term);
+  return { query, fuzzy: prepareFuzzyQuery(query.text), field, tagIndex, openStats, now: Date.now() };
+};
+
+/** Rank of a node for the search, higher is better; null when it does not match. `path` is used by `folder:`. */
+export const scoreBookmarkNode = (search: BookmarkSearch, node: SearchableNode, path: string[]): number | null => {
+  if (!matchesQueryFilters(search.query, { url: node.url, tags: search.tagIndex.get(node.id) ?? [], path })) return null;
+
+  let score = 0;
+  if (search.fuzzy.tokens.length) {
+    const folded = foldNode(node);
+    const fields = [];
+    if (search.field !== "address") fields.push({ folded: folded.title, weight: 1 });
+    if (search.field !== "name") fields.push({ folded: folded.address, weight: ADDRESS_WEIGHT });
+    const match = fuzzyMatchFields(search.fuzzy, fields);
+    if (!match) return null;
+    score = match.score;
+  }
+  return score + FRECENCY_WEIGHT * Math.log1p(frecencyScore(search.openStats.get(node.id), search.now));
+};
+
+interface Ranked<T> {
+  node: T;
+  score: number;
+  order: number;
+}
+
+const byRank = <T>(a: Ranked<T>, b: Ranked<T>) => b.score - a.score || a.order - b.order;
+
+/** Matching nodes among `nodes` (and their descendants when `recursive`), best first. */
+export const rankBookmarkNodes = <T extends SearchableNode>(
+  search: BookmarkSearch,
+  nodes: T[],
+  recursive: boolean,
+  path: string[] = []
+): T[] => {
+  const ranked: Ranked<T>[] = [];
+  const visit = (level: T[], levelPath: string[]) => {
+    for (const node of level) {
+      const score = scoreBookmarkNode(search, node, levelPath);
+      if (score !== null) ranked.push({ node, score, order: ranked.length });
+      if (recursive && node.children?.length) visit(node.children as T[], [...levelPath, node.title]);
+    }
+  };
+  visit(nodes, path);
+  return ranked.sort(byRank).map((entry) => entry.node);
+};
+
+/**
+ * Searches the whole tree under `nodes` in time slices, reporting the best `limit` matches after each one.
+ * Returns a function that stops the search.
+ */
+export const searchBookmarksIncrementally = <T extends SearchableNode>(
+  search: BookmarkSearch,
+  nodes: T[],
+  limit: number,
+  onProgress: (progress: IncrementalSearchProgress<T>) => void
+): (() => void) => {
+  const stack: { node: T; path: string[] }[] = nodes.map((node) => ({ node, path: [] })).reverse();
+  const ranked: Ranked<T>[] = [];
+  let order = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const runSlice = () => {
+    const started = performance.now();
+    while (stack.length && performance.now() - started < SLICE_MS) {
+      const { node, path } = stack.pop()!;
+      const score = scoreBookmarkNode(search, node, path);
+      if (score !== null) ranked.push({ node, score, order });
+      order += 1;
+      const children = (node.children ?? []) as T[];
+      const childPath = children.length ? [...path, node.title] : path;
+      for (let i = children.length - 1; i >= 0; i--) stack.push({ node: children[i], path: childPath });
+    }
+
+    ranked.sort(byRank);
+    onProgress({ results: ranked.slice(0, limit).map((entry) => entry.node), total: ranked.length, done: !stack.length });
+    timer = stack.length ? setTimeout(runSlice, 0) : null;
+  };
+
+  runSlice();
+  return () => {
+    if (timer) clearTimeout(timer);
+  };
+};
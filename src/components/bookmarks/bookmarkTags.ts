@@ -0,0 +1,143 @@
+import { bookmarksDB } from "../settings/settingsDb";
+
+// User tags on bookmark nodes, and saved searches. Like board records (tileBoards.ts) both live in the
+// bookmarks store without a `position`, so sync, backups and snapshots carry them and the grid never sees
+// them. A tags record keeps the url of its node, so sync finds the node on another device the way it does
+// for tiles. Callers schedule the sync push.
+
+export const TAGS_RECORD_TYPE = "tags";
+export const SAVED_SEARCH_RECORD_TYPE = "savedSearch";
+/** Tile type of a saved search pinned to the grid; its `nodeId` is the saved search id. */
+export const SEARCH_TILE_TYPE = "search";
+
+export interface BookmarkTagsRecord {
+  id: string;
+  type: typeof TAGS_RECORD_TYPE;
+  nodeId: string;
+  /** The bookmark's title when last tagged, for backups and sync reports. */
+  title: string;
+  url?: string;
+  tags: string[];
+  createdAt: number;
+  updatedAt?: number;
+}
+
+export interface SavedSearch {
+  id: string;
+  type: typeof SAVED_SEARCH_RECORD_TYPE;
+  title: string;
+  /** Search box text, including `tag:` / `site:` / `folder:` filters. */
+  query: string;
+  /** Pinned searches show as virtual folders at the top of the bookmark browser. */
+  pinned: boolean;
+  createdAt: number;
+  updatedAt?: number;
+}
+
+/** Tags per bookmark node id. */
+export type BookmarkTagIndex = Map<string, string[]>;
+
+export interface TaggedNode {
+  id: string;
+  title: string;
+  url?: string;
+}
+
+export const isTagsRecord = (record: object): record is BookmarkTagsRecord =>
+  (record as { type?: unknown }).type === TAGS_RECORD_TYPE;
+
+export const isSavedSearchRecord = (record: object): record is SavedSearch =>
+  (record as { type?: unknown }).type === SAVED_SEARCH_RECORD_TYPE;
+
+/** Tags are lower case, without a leading `#` and with dashes for spaces, so `tag:` needs no quoting. */
+export const normalizeTag = (tag: string) => tag.trim().replace(/^#+/, "").replace(/\s+/g, "-").toLowerCase();
+
+const cleanTags = (tags: string[]) => [...new Set(tags.map(normalizeTag).filter(Boolean))].sort();
+
+const loadTagRecords = async () => (await bookmarksDB.getAllItems<object>()).filter(isTagsRecord);
+
+/** Tags of every tagged node; "keep both" sync conflicts can leave two records for a node, so they are united. */
+export const loadTagIndex = async (): Promise<BookmarkTagIndex> => {
+  const index: BookmarkTagIndex = new Map();
+  for (const record of await loadTagRecords()) {
+    index.set(record.nodeId, cleanTags([...(index.get(record.nodeId) ?? []), ...record.tags]));
+  }
+  return index;
+};
+
+/** Every tag in use with the number of nodes carrying it, most used first. */
+export const countTags = (index: BookmarkTagIndex): [string, number][] => {
+  const counts = new Map<string, number>();
+  for (const tags of index.values()) {
+    for (const tag of tags) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+  }
+  return [...counts].sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b));
+};
+
+/** Replaces a node's tags; an empty list removes its record. */
+export const setBookmarkTags = async (node: TaggedNode, tags: string[]) => {
+  const [record, ...extra] = (await loadTagRecords()).filter((existing) => existing.nodeId === node.id);
+  for (const duplicate of extra) await bookmarksDB.deleteItem(duplicate.id);
+  const next = cleanTags(tags);
+  if (!next.length) {
+    if (record) await bookmarksDB.deleteItem(record.id);
+    return;
+  }
+  await bookmarksDB.saveItem({
+    ...(record ?? { id: crypto.randomUUID(), type: TAGS_RECORD_TYPE, createdAt: Date.now() }),
+    nodeId: node.id,
+    title: node.title,
+    url: node.url,
+    tags: next,
+  });
+};
+
+/** Gives `into` the tags of every node in `fromIds` as well, and drops theirs; false when none had tags. */
+export const mergeBookmarkTags = async (fromIds: string[], into: TaggedNode): Promise<boolean> => {
+  const from = new Set(fromIds);
+  const records = await loadTagRecords();
+  const moved = records.filter((record) => from.has(record.nodeId));
+  if (!moved.length) return false;
+  const kept = records.filter((record) => record.nodeId === into.id).flatMap((record) => record.tags);
+  for (const record of moved) await bookmarksDB.deleteItem(record.id);
+  await setBookmarkTags(into, [...kept, ...moved.flatMap((record) => record.tags)]);
+  return true;
+};
+
+/** Drops the tags of deleted nodes; false when none had tags. */
+export const deleteBookmarkTags = async (nodeIds: string[]): Promise<boolean> => {
+  const removed = new Set(nodeIds);
+  const records = (await loadTagRecords()).filter((record) => removed.has(record.nodeId));
+  for (const record of records) await bookmarksDB.deleteItem(record.id);
+  return records.length > 0;
+};
+
+/** Saved searches, oldest first. */
+export const listSavedSearches = async (): Promise<SavedSearch[]> =>
+  (await bookmarksDB.getAllItems<object>()).filter(isSavedSearchRecord).sort((a, b) => a.createdAt - b.createdAt);
+
+export const saveSavedSearch = async (search: SavedSearch) => {
+  await bookmarksDB.saveItem(search);
+};
+
+export const createSavedSearch = async (title: string, query: string): Promise<SavedSearch> => {
+  const search: SavedSearch = {
+    id: crypto.randomUUID(),
+    type: SAVED_SEARCH_RECORD_TYPE,
+    title,
+    query,
+    pinned: false,
+    createdAt: Date.now(),
+  };
+  await saveSavedSearch(search);
+  return search;
+};
+
+/** Removes a saved search and the tiles it was pinned to. */
+export const deleteSavedSearch = async (searchId: string) => {
+  const tiles = await bookmarksDB.queryIndex<{ id: string; type: string; nodeId: string }>("position");
+  for (const tile of tiles) {
+    if (tile.type === SEARCH_TILE_TYPE && tile.nodeId === searchId) await bookmarksDB.deleteItem(tile.id);
+  }
+  await bookmarksDB.deleteItem(searchId);
+};
@@ -0,0 +1,96 @@
+import { bookmarksDB } from "../settings/settingsDb";
+
+// Tiles copy the title and address of their bookmark node when they are made. Chrome's own bookmark manager,
+// Chrome sync and other extensions change the tree behind NEXX's back, so the widget follows chrome.bookmarks
+// events, copies renames and address edits onto the tiles and flags tiles whose node is gone. Callers schedule
+// the sync push.
+
+export interface TrackedTile {
+  id: string;
+  type: string;
+  nodeId: string;
+  title: string;
+  url?: string;
+}
+
+export interface TrackedNode {
+  id: string;
+  title: string;
+  url?: string;
+  children?: TrackedNode[];
+}
+
+/** Title and address of every node in the tree, by node id. */
+export type BookmarkNodeIndex = Map<string, { title: string; url?: string }>;
+
+// Imports fire an event per bookmark; one refresh after the burst is enough
+const CHANGE_DEBOUNCE_MS = 250;
+
+const TRACKED_TILE_TYPES = new Set(["bookmark", "folder"]);
+
+/** Calls `onChange` once after each burst of bookmark tree changes; returns the unsubscribe function. */
+export const subscribeBookmarkChanges = (onChange: () => void): (() => void) => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let isImporting = false;
+  const schedule = () => {
+    if (isImporting) return;
+    clearTimeout(timer);
+    timer = setTimeout(onChange, CHANGE_DEBOUNCE_MS);
+  };
+  const onImportBegan = () => {
+    isImporting = true;
+  };
+  const onImportEnded = () => {
+    isImporting = false;
+    schedule();
+  };
+
+  const events = [
+    chrome.bookmarks.onCreated,
+    chrome.bookmarks.onRemoved,
+    chrome.bookmarks.onChanged,
+    chrome.bookmarks.onMoved,
+    chrome.bookmarks.onChildrenReordered,
+  ] as chrome.events.Event<() => void>[];
+  events.forEach((event) => event.addListener(schedule));
+  chrome.bookmarks.onImportBegan.addListener(onImportBegan);
+  chrome.bookmarks.onImportEnded.addListener(onImportEnded);
+
+  return () => {
+    clearTimeout(timer);
+    events.forEach((event) => event.removeListener(schedule));
+    chrome.bookmarks.onImportBegan.removeListener(onImportBegan);
+    chrome.bookmarks.onImportEnded.removeListener(onImportEnded);
+  };
+};
+
+export const indexBookmarkTree = (roots: TrackedNode[]): BookmarkNodeIndex => {
+  const index: BookmarkNodeIndex = new Map();
+  const visit = (node: TrackedNode) => {
+    index.set(node.id, { title: node.title, url: node.url });
+    node.children?.forEach(visit);
+  };
+  roots.forEach(visit);
+  return index;
+};
+
+/** A tile for a bookmark or folder node that is no longer in the tree. */
+export const isOrphanedTile = (tile: TrackedTile, index: BookmarkNodeIndex) =>
+  TRACKED_TILE_TYPES.has(tile.type) && !index.has(tile.nodeId);
+
+/** The tile with its node's current title and address, or null when they already match or the node is gone. */
+export const withNodeMetadata = <T extends TrackedTile>(tile: T, index: BookmarkNodeIndex): T | null => {
+  const node = TRACKED_TILE_TYPES.has(tile.type) ? index.get(tile.nodeId) : undefined;
+  if (!node || (node.title === tile.title && node.url === tile.url)) return null;
+  return { ...tile, title: node.title, url: node.url };
+};
+
+/** Points an orphaned tile at another bookmark of the same address, as sync does for tiles from other devices; null when there is none. */
+export const relinkTileByUrl = async <T extends TrackedTile>(tile: T): Promise<T | null> => {
+  if (!tile.url) return null;
+  const [node] = await chrome.bookmarks.search({ url: tile.url });
+  if (!node) return null;
+  const relinked = { ...tile, nodeId: node.id, title: node.title };
+  await bookmarksDB.saveItem(relinked);
+  return relinked;
+};
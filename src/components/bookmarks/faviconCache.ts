@@ -1,17 +1,37 @@
 import createDatabase from "../IndexedDatabase/IndexedDatabase";
+import { STORES } from "../IndexedDatabase/schema";
+
+// Favicons are kept as data URLs per host so tiles show them offline. Entries older than FAVICON_TTL_MS are
+// still shown but fetched again in the background; the least recently shown ones are evicted once the cache
+// holds more than MAX_FAVICON_ENTRIES entries or MAX_FAVICON_BYTES of data. Hosts without a favicon are
+// remembered too (an empty `dataUrl`), so they get a monogram without a fetch on every render.
 
 interface FaviconCacheEntry {
   key: string;
+  /** Empty when the host has no favicon. */
   dataUrl: string;
   updatedAt: number;
+  /** Last time a tile or row showed it; absent on entries cached before eviction existed. */
+  lastUsedAt?: number;
+}
+
+export interface FaviconCacheStats {
+  entries: number;
+  bytes: number;
 }
 
-const faviconDB = createDatabase({
-  dbName: "bookmarkFaviconCacheDB",
-  storeName: "favicons",
-  version: 1,
-  keyPath: "key",
-});
+export const FAVICON_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+export const MAX_FAVICON_ENTRIES = 500;
+export const MAX_FAVICON_BYTES = 4 * 1024 * 1024;
+// Showing a favicon bumps its last use at most this often, to keep renders from writing to IndexedDB
+const TOUCH_INTERVAL_MS = 60 * 60 * 1000;
+const EVICTION_DELAY_MS = 2000;
+
+const faviconDB = createDatabase({ storeName: STORES.favicons });
+
+const inFlight = new Map<string, Promise<string | null>>();
+let evictionTimer: ReturnType<typeof setTimeout> | undefined;
+let chromeDefaultIcon: Promise<string | null> | undefined;
 
 export function getFaviconCacheKey(url: string): string {
   try {
@@ -63,33 +83,117 @@ function buildFaviconSources(url: string, size: number): string[] {
   return sources;
 }
 
-export async function getCachedFavicon(url: string): Promise<string | null> {
+const isStale = (entry: FaviconCacheEntry, now = Date.now()) => now - entry.updatedAt > FAVICON_TTL_MS;
+
+// Chrome's favicon endpoint answers with a generic globe for pages it has no icon for; that is not a favicon.
+// A failed fetch is not remembered, so the next lookup tries again.
+function getChromeDefaultIcon(size: number): Promise<string | null> {
+  if (!chromeDefaultIcon) {
+    const source = getChromeFaviconUrl("https://nexx.invalid/", size);
+    const pending = source ? fetchAsDataUrl(source) : Promise.resolve(null);
+    chromeDefaultIcon = pending.then((icon) => {
+      if (!icon) chromeDefaultIcon = undefined;
+      return icon;
+    });
+  }
+  return chromeDefaultIcon;
+}
+
+async function fetchFavicon(url: string, size: number): Promise<string | null> {
+  const placeholder = await getChromeDefaultIcon(size);
+  for (const source of buildFaviconSources(url, size)) {
+    const dataUrl = await fetchAsDataUrl(source);
+    if (dataUrl && dataUrl !== placeholder) return dataUrl;
+  }
+  return null;
+}
+
+/** Evicts the least recently shown entries until the cache is within its entry and size limits. */
+export async function enforceFaviconCacheLimits(): Promise<void> {
+  const entries = await faviconDB.getAllItems<FaviconCacheEntry>();
+  let bytes = entries.reduce((sum, entry) => sum + entry.dataUrl.length, 0);
+  let count = entries.length;
+  if (count <= MAX_FAVICON_ENTRIES && bytes <= MAX_FAVICON_BYTES) return;
+
+  const byLastUse = [...entries].sort((a, b) => (a.lastUsedAt ?? a.updatedAt) - (b.lastUsedAt ?? b.updatedAt));
+  for (const entry of byLastUse) {
+    if (count <= MAX_FAVICON_ENTRIES && bytes <= MAX_FAVICON_BYTES) break;
+    await faviconDB.deleteItem(entry.key);
+    count -= 1;
+    bytes -= entry.dataUrl.length;
+  }
+}
+
+function scheduleEviction() {
+  clearTimeout(evictionTimer);
+  evictionTimer = setTimeout(() => {
+    enforceFaviconCacheLimits().catch((error) => console.warn("[nexx-favicons] eviction failed:", error));
+  }, EVICTION_DELAY_MS);
+}
+
+// One fetch per host at a time, however many tiles ask for it. A failed fetch keeps the icon already cached
+// and only restarts its TTL; the host is remembered as having none only when nothing was cached.
+function refreshFavicon(key: string, url: string, size: number): Promise<string | null> {
+  const pending = inFlight.get(key);
+  if (pending) return pending;
+
+  const refresh = (async () => {
+    const dataUrl = await fetchFavicon(url, size);
+    const now = Date.now();
+    const existing = dataUrl ? undefined : await faviconDB.getItem<FaviconCacheEntry>(key);
+    await faviconDB.saveItem<FaviconCacheEntry>(
+      existing ? { ...existing, updatedAt: now, lastUsedAt: now } : { key, dataUrl: dataUrl ?? "", updatedAt: now, lastUsedAt: now },
+    );
+    scheduleEviction();
+    return dataUrl ?? (existing?.dataUrl || null);
+  })().finally(() => inFlight.delete(key));
+  inFlight.set(key, refresh);
+  return refresh;
+}
+
+/**
+ * The cached favicon of the url's host: a data URL, null when the host is known to have none, or undefined when
+ * nothing is cached yet. A stale entry is returned as is and refreshed in the background when online.
+ */
+export async function getCachedFavicon(url: string, size = 32): Promise<string | null | undefined> {
   const key = getFaviconCacheKey(url);
   if (!key) return null;
 
   const entry = await faviconDB.getItem<FaviconCacheEntry>(key);
-  return entry?.dataUrl ?? null;
+  if (!entry) return undefined;
+
+  const now = Date.now();
+  if (isStale(entry, now) && navigator.onLine) {
+    void refreshFavicon(key, url, size).catch((error) => console.warn("[nexx-favicons] refresh failed:", error));
+  } else if (now - (entry.lastUsedAt ?? 0) > TOUCH_INTERVAL_MS) {
+    void faviconDB.saveItem<FaviconCacheEntry>({ ...entry, lastUsedAt: now });
+  }
+  return entry.dataUrl || null;
 }
 
+/** Fetches and caches the favicon of the url's host unless a fresh entry exists; null when the host has none. */
 export async function cacheFaviconForUrl(url: string, size = 32): Promise<string | null> {
   const key = getFaviconCacheKey(url);
   if (!key) return null;
 
   const existing = await faviconDB.getItem<FaviconCacheEntry>(key);
-  if (existing?.dataUrl) return existing.dataUrl;
-
-  for (const source of buildFaviconSources(url, size)) {
-    const dataUrl = await fetchAsDataUrl(source);
-    if (dataUrl) {
-      await faviconDB.saveItem({ key, dataUrl, updatedAt: Date.now() });
-      return dataUrl;
-    }
-  }
+  if (existing && !isStale(existing)) return existing.dataUrl || null;
+  if (!navigator.onLine) return existing?.dataUrl || null;
 
-  return null;
+  return refreshFavicon(key, url, size);
 }
 
 export async function prefetchFaviconsForUrls(urls: string[], size = 32): Promise<void> {
   const uniqueUrls = [...new Set(urls.filter(Boolean))];
   await Promise.all(uniqueUrls.map((url) => cacheFaviconForUrl(url, size)));
 }
+
+export async function getFaviconCacheStats(): Promise<FaviconCacheStats> {
+  const entries = await faviconDB.getAllItems<FaviconCacheEntry>();
+  return { entries: entries.length, bytes: entries.reduce((sum, entry) => sum + entry.dataUrl.length, 0) };
+}
+
+/** Drops every cached favicon; they are fetched again as tiles are shown. */
+export async function purgeFaviconCache(): Promise<void> {
+  await faviconDB.clear();
+}
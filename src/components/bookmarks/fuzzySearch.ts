@@ -0,0 +1,251 @@
+// Typo- and word-order-tolerant matching for the bookmark search. Text is folded first, so Persian and
+// Arabic letter variants, diacritics, tatweel and ZWNJ make no difference; ranges point back into the
+// original text for highlighting. Pure functions, like bookmarkQuery.ts.
+
+/** Half-open `[start, end)` range in the original text. */
+export type MatchRange = [number, number];
+
+export interface FoldedText {
+  text: string;
+  /** Index in the original text of each folded character. */
+  source: number[];
+  /** Length of the original text. */
+  length: number;
+  /** `[start, end)` of every word in `text`. */
+  words: MatchRange[];
+}
+
+export interface FuzzyQuery {
+  /** Folded words of the query; each must match somewhere, in any order. */
+  tokens: string[];
+}
+
+export interface FuzzyMatch {
+  score: number;
+  /** Matched ranges per field, in the order the fields were given. */
+  ranges: MatchRange[][];
+}
+
+interface TokenMatch {
+  score: number;
+  ranges: MatchRange[];
+}
+
+const LETTER_VARIANTS: Record<string, string> = {
+  "ي": "ی",
+  "ى": "ی",
+  "ئ": "ی",
+  "ك": "ک",
+  "ة": "ه",
+  "ۀ": "ه",
+  "أ": "ا",
+  "إ": "ا",
+  "آ": "ا",
+  "ٱ": "ا",
+  "ؤ": "و",
+};
+
+// Arabic harakat, superscript alef, tatweel, zero-width characters and direction marks
+const IGNORED = /[\u064B-\u065F\u0670\u0640\u200B-\u200F\uFEFF]/;
+const ZWNJ = "\u200C";
+const COMBINING_MARKS = /[\u0300-\u036f]/g;
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+
+// Points per matched query character, by how it matched
+const EXACT_POINTS = 10;
+const TYPO_POINTS = 6;
+const SUBSEQUENCE_POINTS = 5;
+const WORD_START_BONUS = 8;
+const WHOLE_WORD_BONUS = 4;
+const TYPO_PENALTY = 4;
+const GAP_PENALTY = 2;
+
+const foldChar = (char: string): string => {
+  if (char.charCodeAt(0) < 0x80) return char.toLowerCase();
+  if (IGNORED.test(char)) return "";
+  const variant = LETTER_VARIANTS[char];
+  if (variant) return variant;
+  const code = char.charCodeAt(0);
+  // Persian and Arabic-Indic digits
+  if (code >= 0x06f0 && code <= 0x06f9) return String(code - 0x06f0);
+  if (code >= 0x0660 && code <= 0x0669) return String(code - 0x0660);
+  return char.normalize("NFD").replace(COMBINING_MARKS, "").toLowerCase();
+};
+
+export const foldText = (input: string): FoldedText => {
+  let text = "";
+  const source: number[] = [];
+  const words: MatchRange[] = [];
+  let index = 0;
+  let inWord = false;
+  for (const char of input) {
+    // ZWNJ joins the parts of one written word but still separates them for word-start matching
+    if (char === ZWNJ) inWord = false;
+    const folded = foldChar(char);
+    for (const foldedChar of folded) {
+      const isWordChar = WORD_CHAR.test(foldedChar);
+      if (isWordChar && !inWord) words.push([text.length, text.length + 1]);
+      else if (isWordChar) words[words.length - 1][1] = text.length + 1;
+      inWord = isWordChar;
+      text += foldedChar;
+      source.push(index);
+    }
+    index += char.length;
+  }
+  return { text, source, length: input.length, words };
+};
+
+export const prepareFuzzyQuery = (input: string): FuzzyQuery => ({
+  tokens: input
+    .split(/\s+/)
+    .map((word) => foldText(word).text)
+    .filter(Boolean),
+});
+
+const isWordStart = (folded: FoldedText, position: number) => folded.words.some(([start]) => start === position);
+const isWordEnd = (folded: FoldedText, position: number) => folded.words.some(([, end]) => end === position);
+
+const matchExact = (token: string, folded: FoldedText): TokenMatch | null => {
+  let best: TokenMatch | null = null;
+  for (let start = folded.text.indexOf(token); start !== -1; start = folded.text.indexOf(token, start + 1)) {
+    const end = start + token.length;
+    let score = token.length * EXACT_POINTS;
+    if (isWordStart(folded, start)) score += WORD_START_BONUS;
+    if (isWordStart(folded, start) && isWordEnd(folded, end)) score += WHOLE_WORD_BONUS;
+    if (!best || score > best.score) best = { score, ranges: [[start, end]] };
+  }
+  return best;
+};
+
+// Optimal string alignment distance (insertions, deletions, substitutions and swapped neighbours),
+// or `limit + 1` as soon as it is known to exceed `limit`
+const editDistance = (a: string, b: string, limit: number): number => {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+  let beforePrevious = new Array<number>(b.length + 1).fill(0);
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  let current = new Array<number>(b.length + 1).fill(0);
+  for (let i = 1; i <= a.length; i++) {
+    current[0] = i;
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) value = Math.min(value, beforePrevious[j - 2] + 1);
+      current[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > limit) return limit + 1;
+    [beforePrevious, previous, current] = [previous, current, beforePrevious];
+  }
+  return previous[b.length];
+};
+
+const allowedTypos = (length: number) => (length >= 8 ? 2 : length >= 4 ? 1 : 0);
+
+// A word, or the start of one, that is within a typo or two of the token
+const matchTypo = (token: string, folded: FoldedText): TokenMatch | null => {
+  const allowed = allowedTypos(token.length);
+  if (!allowed) return null;
+  let best: TokenMatch | null = null;
+  for (const [start, end] of folded.words) {
+    for (let length = token.length - allowed; length <= token.length + allowed; length++) {
+      if (length < 1 || start + length > end) continue;
+      const distance = editDistance(token, folded.text.slice(start, start + length), allowed);
+      if (distance > allowed) continue;
+      const score = token.length * TYPO_POINTS - distance * TYPO_PENALTY;
+      if (!best || score > best.score) best = { score, ranges: [[start, start + length]] };
+    }
+  }
+  return best;
+};
+
+// The token's characters in order, starting at a word; few enough runs that it still reads as the token
+const matchSubsequence = (token: string, folded: FoldedText): TokenMatch | null => {
+  if (token.length < 2) return null;
+  let best: TokenMatch | null = null;
+  for (const [wordStart] of folded.words) {
+    if (folded.text[wordStart] !== token[0]) continue;
+    const ranges: MatchRange[] = [[wordStart, wordStart + 1]];
+    let position = wordStart + 1;
+    let gaps = 0;
+    for (let i = 1; i < token.length && position !== -1; i++) {
+      const found = folded.text.indexOf(token[i], position);
+      if (found === -1) {
+        position = -1;
+        break;
+      }
+      const last = ranges[ranges.length - 1];
+      if (found === last[1]) last[1] = found + 1;
+      else ranges.push([found, found + 1]);
+      gaps += found - position;
+      position = found + 1;
+    }
+    if (position === -1 || ranges.length > Math.ceil(token.length / 2) + 1) continue;
+    const score = token.length * SUBSEQUENCE_POINTS - (ranges.length - 1) * GAP_PENALTY - Math.min(gaps, token.length * 2);
+    if (!best || score > best.score) best = { score, ranges };
+  }
+  return best;
+};
+
+const matchToken = (token: string, folded: FoldedText): TokenMatch | null => {
+  const exact = matchExact(token, folded);
+  if (exact) return exact;
+  const typo = matchTypo(token, folded);
+  const subsequence = matchSubsequence(token, folded);
+  if (typo && subsequence) return typo.score >= subsequence.score ? typo : subsequence;
+  return typo ?? subsequence;
+};
+
+const toOriginalRange = (folded: FoldedText, [start, end]: MatchRange): MatchRange => {
+  const from = folded.source[start];
+  const to = end < folded.source.length ? folded.source[end] : folded.length;
+  return [from, Math.max(to, from + 1)];
+};
+
+/** Merges overlapping or touching ranges, sorted by start. */
+export const mergeRanges = (ranges: MatchRange[]): MatchRange[] => {
+  const merged: MatchRange[] = [];
+  for (const [start, end] of [...ranges].sort((a, b) => a[0] - b[0])) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+    else merged.push([start, end]);
+  }
+  return merged;
+};
+
+/**
+ * Matches every query token against the best of several fields (e.g. title and address), each scaled by
+ * its weight. Null when a token matches none of them.
+ */
+export const fuzzyMatchFields = (
+  query: FuzzyQuery,
+  fields: { folded: FoldedText; weight: number }[]
+): FuzzyMatch | null => {
+  const ranges: MatchRange[][] = fields.map(() => []);
+  let score = 0;
+  for (const token of query.tokens) {
+    let best: { field: number; match: TokenMatch; score: number } | null = null;
+    for (let field = 0; field < fields.length; field++) {
+      const match = matchToken(token, fields[field].folded);
+      const weighted = match ? match.score * fields[field].weight : 0;
+      if (match && (!best || weighted > best.score)) best = { field, match, score: weighted };
+    }
+    if (!best) return null;
+    score += best.score;
+    const { folded } = fields[best.field];
+    ranges[best.field].push(...best.match.ranges.map((range) => toOriginalRange(folded, range)));
+  }
+  return { score, ranges: ranges.map(mergeRanges) };
+};
+
+/** Ranges of `text` matched by any query token, for highlighting; tokens that don't match are skipped. */
+export const highlightRanges = (query: FuzzyQuery, text: string): MatchRange[] => {
+  if (!query.tokens.length || !text) return [];
+  const folded = foldText(text);
+  const ranges: MatchRange[] = [];
+  for (const token of query.tokens) {
+    const match = matchToken(token, folded);
+    if (match) ranges.push(...match.ranges.map((range) => toOriginalRange(folded, range)));
+  }
+  return mergeRanges(ranges);
+};
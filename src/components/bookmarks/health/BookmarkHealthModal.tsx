@@ -0,0 +1,52 @@
+import { useState } from "react";
+import { Copy, HeartPulse, Link2Off, X } from "lucide-react";
+import { useI18n } from "../../../i18n/LanguageProvider";
+import { useCalendar } from "../../Settings";
+import { buildThemeCssVars } from "../../settings/themeUtils";
+import { DuplicatesPanel } from "./DuplicatesPanel";
+import { LinkCheckPanel } from "./LinkCheckPanel";
+import "./BookmarkHealth.css";
+
+type HealthView = "links" | "duplicates";
+
+interface BookmarkHealthModalProps {
+  onClose: () => void;
+}
+
+/** Bookmark maintenance tools, one tab each. */
+export function BookmarkHealthModal({ onClose }: BookmarkHealthModalProps) {
+  const { t } = useI18n();
+  const { textColor, backgroundColor } = useCalendar();
+  const themeCssVars = buildThemeCssVars(textColor, backgroundColor);
+  const [view, setView] = useState<HealthView>("links");
+
+  return (
+    <div className="bookmarks-overlay" onClick={onClose}>
+      <div className="bookmarks-modal bookmark-health" style={themeCssVars} onClick={(e) => e.stopPropagation()} role="dialog">
+        <div className="bookmark-health__header">
+          <div className="bookmark-health__heading">
+            <HeartPulse className="w-5 h-5" />
+            <h3>{t("bookmarks.health.title")}</h3>
+          </div>
+          <button type="button" className="bookmark-health__close" onClick={onClose} aria-label={t("bookmarks.health.close")}>
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="bookmark-health__tabs">
+          <button type="button" className={view === "links" ? "active" : ""} onClick={() => setView("links")}>
+            <Link2Off className="w-4 h-4" />
+            {t("bookmarks.health.tabs.links")}
+          </button>
+          <button type="button" className={view === "duplicates" ? "active" : ""} onClick={() => setView("duplicates")}>
+            <Copy className="w-4 h-4" />
+            {t("bookmarks.health.tabs.duplicates")}
+          </button>
+        </div>
+
+        {view === "links" && <LinkCheckPanel />}
+        {view === "duplicates" && <DuplicatesPanel />}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import { useState } from "react";
+import { Bell, LayoutGrid, Merge, ScanSearch } from "lucide-react";
+import { useI18n } from "../../../i18n/LanguageProvider";
+import { BookmarkFavicon } from "../BookmarkFavicon";
+import { groupDuplicates, type DuplicateGroup, type DuplicateMatch } from "./duplicateFinder";
+import { collectAllBookmarks, loadBookmarkUsage, mergeBookmarks, type BookmarkUsage } from "./bookmarkHealth";
+
+type GroupFilter = "all" | DuplicateMatch;
+
+const FILTERS: GroupFilter[] = ["all", "exact", "near"];
+const NO_USAGE: BookmarkUsage = { tiles: 0, reminders: 0 };
+
+// The bookmark that tiles or reminders already use is the one to keep; otherwise the oldest.
+const pickKeeper = (group: DuplicateGroup, usage: Map<string, BookmarkUsage>) => {
+  const weight = (nodeId: string) => {
+    const used = usage.get(nodeId) ?? NO_USAGE;
+    return used.tiles + used.reminders;
+  };
+  return group.entries.reduce((best, entry) => (weight(entry.nodeId) > weight(best.nodeId) ? entry : best)).nodeId;
+};
+
+/** Finds bookmarks of the same page across folders and merges each group into one. */
+export function DuplicatesPanel() {
+  const { t } = useI18n();
+  const [groups, setGroups] = useState<DuplicateGroup[] | null>(null);
+  const [usage, setUsage] = useState<Map<string, BookmarkUsage>>(new Map());
+  const [keepers, setKeepers] = useState<Record<string, string>>({});
+  const [filter, setFilter] = useState<GroupFilter>("all");
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (task: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await task();
+    } catch (taskError) {
+      setError(taskError instanceof Error ? taskError.message : String(taskError));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const scan = async () => {
+    const [entries, nextUsage] = await Promise.all([collectAllBookmarks(), loadBookmarkUsage()]);
+    const nextGroups = groupDuplicates(entries);
+    setGroups(nextGroups);
+    setUsage(nextUsage);
+    setKeepers(Object.fromEntries(nextGroups.map((group) => [group.key, pickKeeper(group, nextUsage)])));
+  };
+
+  const merge = (targets: DuplicateGroup[]) => {
+    const removed = targets.reduce((count, group) => count + group.entries.length - 1, 0);
+    if (!confirm(t("bookmarks.health.duplicates.mergeConfirm", { count: removed }))) return;
+    return run(async () => {
+      for (const group of targets) {
+        await mergeBookmarks(keepers[group.key], group.entries.map((entry) => entry.nodeId));
+      }
+      await scan();
+    });
+  };
+
+  const visible = (groups ?? []).filter((group) => filter === "all" || group.match === filter);
+  const exactGroups = (groups ?? []).filter((group) => group.match === "exact");
+  const extra = (groups ?? []).reduce((count, group) => count + group.entries.length - 1, 0);
+
+  return (
+    <div className="bookmark-health__panel">
+      <div className="bookmark-health__toolbar">
+        <button type="button" className="bookmarks-btn bookmarks-btn--primary" onClick={() => run(scan)} disabled={isBusy}>
+          <ScanSearch className="w-3.5 h-3.5" />
+          {t(groups ? "bookmarks.health.duplicates.rescan" : "bookmarks.health.duplicates.scan")}
+        </button>
+        {groups && (
+          <span className="bookmark-health__meta">
+            {t("bookmarks.health.duplicates.summary", { groups: groups.length, extra })}
+          </span>
+        )}
+      </div>
+
+      {groups && groups.length > 0 && (
+        <div className="bookmark-health__actions">
+          <div className="bookmark-health__filters">
+            {FILTERS.map((name) => (
+              <button key={name} type="button" className={filter === name ? "active" : ""} onClick={() => setFilter(name)}>
+                {t(`bookmarks.health.duplicates.filters.${name}`)}
+              </button>
+            ))}
+          </div>
+          <button type="button" className="bookmarks-btn" onClick={() => merge(exactGroups)} disabled={isBusy || !exactGroups.length}>
+            <Merge className="w-3.5 h-3.5" />
+            {t("bookmarks.health.duplicates.mergeAllExact", { count: exactGroups.length })}
+          </button>
+        </div>
+      )}
+
+      {error && <p className="bookmark-health__error">{error}</p>}
+
+      <div className="bookmark-health__list">
+        {!groups && <p className="bookmark-health__empty">{t("bookmarks.health.duplicates.intro")}</p>}
+        {groups && visible.length === 0 && <p className="bookmark-health__empty">{t("bookmarks.health.duplicates.none")}</p>}
+        {visible.map((group) => (
+          <section key={group.key} className="bookmark-health__group">
+            <div className="bookmark-health__group-header">
+              <span className={`bookmark-health__badge bookmark-health__badge--${group.match}`}>
+                {t(`bookmarks.health.duplicates.match.${group.match}`)}
+              </span>
+              <span className="bookmark-health__group-key">{group.key}</span>
+              <button type="button" className="bookmarks-btn" onClick={() => merge([group])} disabled={isBusy}>
+                <Merge className="w-3.5 h-3.5" />
+                {t("bookmarks.health.duplicates.merge")}
+              </button>
+            </div>
+            {group.entries.map((entry) => {
+              const used = usage.get(entry.nodeId) ?? NO_USAGE;
+              return (
+                <label key={entry.nodeId} className="bookmark-health__row">
+                  <input
+                    type="radio"
+                    name={`keep-${group.key}`}
+                    checked={keepers[group.key] === entry.nodeId}
+                    onChange={() => setKeepers((prev) => ({ ...prev, [group.key]: entry.nodeId }))}
+                    title={t("bookmarks.health.duplicates.keep")}
+                  />
+                  <BookmarkFavicon url={entry.url} size={16} className="bookmark-health__favicon" />
+                  <span className="bookmark-health__body">
+                    <span className="bookmark-health__title-row">
+                      <span className="bookmark-health__title">{entry.title || entry.url}</span>
+                      {keepers[group.key] === entry.nodeId && (
+                        <span className="bookmark-health__badge bookmark-health__badge--ok">{t("bookmarks.health.duplicates.keep")}</span>
+                      )}
+                      {used.tiles > 0 && (
+                        <span className="bookmark-health__usage" title={t("bookmarks.health.duplicates.tiles", { count: used.tiles })}>
+                          <LayoutGrid className="w-3 h-3" />
+                          {used.tiles}
+                        </span>
+                      )}
+                      {used.reminders > 0 && (
+                        <span className="bookmark-health__usage" title={t("bookmarks.health.duplicates.reminders", { count: used.reminders })}>
+                          <Bell className="w-3 h-3" />
+                          {used.reminders}
+                        </span>
+                      )}
+                    </span>
+                    <span className="bookmark-health__url">{entry.url}</span>
+                    {entry.path && <span className="bookmark-health__path">{entry.path}</span>}
+                  </span>
+                </label>
+              );
+            })}
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+}
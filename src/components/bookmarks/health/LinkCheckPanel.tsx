@@ -0,0 +1,233 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { ArrowRight, FolderInput, Play, Square, Trash2, Wand2 } from "lucide-react";
+import { useI18n } from "../../../i18n/LanguageProvider";
+import { BookmarkFavicon } from "../BookmarkFavicon";
+import { listBookmarkFolders, type BookmarkFolderOption } from "../bookmarkExchange";
+import { checkLinks, type LinkCheckKind, type LinkCheckResult } from "./linkChecker";
+import {
+  ALL_TILES_SOURCE,
+  BROKEN_FOLDER_TITLE,
+  applyRedirects,
+  collectLinkTargets,
+  deleteBookmarkNodes,
+  moveToBrokenFolder,
+  requestLinkCheckPermission,
+} from "./bookmarkHealth";
+
+type ResultFilter = "problems" | LinkCheckKind;
+
+const FILTERS: ResultFilter[] = ["problems", "redirected", "client-error", "server-error", "network", "ok"];
+const PROBLEM_KINDS: LinkCheckKind[] = ["redirected", "client-error", "server-error", "network"];
+
+const matchesFilter = (result: LinkCheckResult, filter: ResultFilter) =>
+  filter === "problems" ? PROBLEM_KINDS.includes(result.kind) : result.kind === filter;
+
+/** Checks a folder or the tiles for dead links and redirects, then fixes the selected ones. */
+export function LinkCheckPanel() {
+  const { t } = useI18n();
+  const [folders, setFolders] = useState<BookmarkFolderOption[]>([]);
+  const [source, setSource] = useState(ALL_TILES_SOURCE);
+  const [results, setResults] = useState<LinkCheckResult[]>([]);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [filter, setFilter] = useState<ResultFilter>("problems");
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    listBookmarkFolders()
+      .then(setFolders)
+      .catch((loadError) => console.warn("[nexx-bookmarks] failed to list folders:", loadError));
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const counts = useMemo(
+    () => Object.fromEntries(FILTERS.map((name) => [name, results.filter((result) => matchesFilter(result, name)).length])),
+    [results],
+  );
+  const visible = results.filter((result) => matchesFilter(result, filter));
+  const selectedResults = visible.filter((result) => selected.has(result.nodeId));
+  const selectedRedirects = selectedResults.filter((result) => result.kind === "redirected" && result.finalUrl);
+
+  const start = async () => {
+    setError(null);
+    if (!(await requestLinkCheckPermission())) {
+      setError(t("bookmarks.health.links.permissionDenied"));
+      return;
+    }
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    setResults([]);
+    setSelected(new Set());
+    try {
+      const targets = await collectLinkTargets(source);
+      setProgress({ done: 0, total: targets.length });
+      await checkLinks(targets, {
+        signal: controller.signal,
+        onResult: (result, done, total) => {
+          setResults((prev) => [...prev, result]);
+          setProgress({ done, total });
+        },
+      });
+    } catch (checkError) {
+      if (!controller.signal.aborted) setError(checkError instanceof Error ? checkError.message : String(checkError));
+    } finally {
+      abortRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const toggle = (nodeId: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(nodeId)) next.delete(nodeId);
+      else next.add(nodeId);
+      return next;
+    });
+
+  const allVisibleSelected = visible.length > 0 && visible.every((result) => selected.has(result.nodeId));
+  const toggleAll = () => setSelected(allVisibleSelected ? new Set() : new Set(visible.map((result) => result.nodeId)));
+
+  const runFix = async (task: () => Promise<void>, settle: (result: LinkCheckResult) => LinkCheckResult | null) => {
+    setError(null);
+    try {
+      await task();
+      const fixed = new Set(selectedResults.map((result) => result.nodeId));
+      setResults((prev) => prev.flatMap((result) => (fixed.has(result.nodeId) ? (settle(result) ?? []) : [result])));
+      setSelected(new Set());
+    } catch (fixError) {
+      setError(fixError instanceof Error ? fixError.message : String(fixError));
+    }
+  };
+
+  const applySelectedRedirects = () =>
+    runFix(
+      () => applyRedirects(selectedRedirects.map((result) => ({ nodeId: result.nodeId, finalUrl: result.finalUrl! }))),
+      (result) => (result.kind === "redirected" && result.finalUrl ? { ...result, kind: "ok", url: result.finalUrl, finalUrl: undefined } : result),
+    );
+
+  const moveBroken = () => {
+    let brokenPath = BROKEN_FOLDER_TITLE;
+    return runFix(
+      async () => {
+        brokenPath = await moveToBrokenFolder(selectedResults.map((result) => result.nodeId));
+      },
+      (result) => ({ ...result, path: brokenPath }),
+    );
+  };
+
+  const remove = () => {
+    if (!confirm(t("bookmarks.health.links.deleteConfirm", { count: selectedResults.length }))) return;
+    return runFix(
+      () => deleteBookmarkNodes(selectedResults.map((result) => result.nodeId)),
+      () => null,
+    );
+  };
+
+  const describeStatus = (result: LinkCheckResult) =>
+    result.kind === "network" ? result.error ?? t("bookmarks.health.links.kinds.network") : String(result.status ?? "");
+
+  return (
+    <div className="bookmark-health__panel">
+      <div className="bookmark-health__toolbar">
+        <select value={source} onChange={(e) => setSource(e.target.value)} disabled={isRunning}>
+          <option value={ALL_TILES_SOURCE}>{t("bookmarks.health.links.allTiles")}</option>
+          {folders.map((folder) => (
+            <option key={folder.id} value={folder.id}>
+              {folder.path}
+            </option>
+          ))}
+        </select>
+        {isRunning ? (
+          <button type="button" className="bookmarks-btn" onClick={() => abortRef.current?.abort()}>
+            <Square className="w-3.5 h-3.5" />
+            {t("bookmarks.health.links.stop")}
+          </button>
+        ) : (
+          <button type="button" className="bookmarks-btn bookmarks-btn--primary" onClick={start}>
+            <Play className="w-3.5 h-3.5" />
+            {t("bookmarks.health.links.start")}
+          </button>
+        )}
+        {progress && (
+          <span className="bookmark-health__meta">
+            {t("bookmarks.health.links.progress", { done: progress.done, total: progress.total })}
+          </span>
+        )}
+      </div>
+
+      {results.length > 0 && (
+        <div className="bookmark-health__filters">
+          {FILTERS.map((name) => (
+            <button
+              key={name}
+              type="button"
+              className={filter === name ? "active" : ""}
+              onClick={() => {
+                setFilter(name);
+                setSelected(new Set());
+              }}
+            >
+              {t(`bookmarks.health.links.kinds.${name}`)} ({counts[name]})
+            </button>
+          ))}
+        </div>
+      )}
+
+      {visible.length > 0 && (
+        <div className="bookmark-health__actions">
+          <label className="bookmark-health__select-all">
+            <input type="checkbox" checked={allVisibleSelected} onChange={toggleAll} />
+            {t("bookmarks.health.selected", { count: selectedResults.length })}
+          </label>
+          <button type="button" className="bookmarks-btn" onClick={applySelectedRedirects} disabled={!selectedRedirects.length}>
+            <Wand2 className="w-3.5 h-3.5" />
+            {t("bookmarks.health.links.useRedirect")}
+          </button>
+          <button type="button" className="bookmarks-btn" onClick={moveBroken} disabled={!selectedResults.length}>
+            <FolderInput className="w-3.5 h-3.5" />
+            {t("bookmarks.health.links.moveBroken", { folder: BROKEN_FOLDER_TITLE })}
+          </button>
+          <button type="button" className="bookmarks-btn" onClick={remove} disabled={!selectedResults.length}>
+            <Trash2 className="w-3.5 h-3.5" />
+            {t("bookmarks.health.links.delete")}
+          </button>
+        </div>
+      )}
+
+      {error && <p className="bookmark-health__error">{error}</p>}
+
+      <div className="bookmark-health__list">
+        {!isRunning && progress && visible.length === 0 && (
+          <p className="bookmark-health__empty">{t("bookmarks.health.links.nothingHere")}</p>
+        )}
+        {!progress && <p className="bookmark-health__empty">{t("bookmarks.health.links.intro")}</p>}
+        {visible.map((result) => (
+          <label key={result.nodeId} className="bookmark-health__row">
+            <input type="checkbox" checked={selected.has(result.nodeId)} onChange={() => toggle(result.nodeId)} />
+            <BookmarkFavicon url={result.url} size={16} className="bookmark-health__favicon" />
+            <span className="bookmark-health__body">
+              <span className="bookmark-health__title-row">
+                <span className="bookmark-health__title">{result.title || result.url}</span>
+                <span className={`bookmark-health__badge bookmark-health__badge--${result.kind}`}>
+                  {t(`bookmarks.health.links.kinds.${result.kind}`)}
+                  {result.kind !== "ok" && ` · ${describeStatus(result)}`}
+                </span>
+              </span>
+              <span className="bookmark-health__url">{result.url}</span>
+              {result.kind === "redirected" && result.finalUrl && (
+                <span className="bookmark-health__url bookmark-health__url--final">
+                  <ArrowRight className="w-3 h-3" />
+                  {result.finalUrl}
+                </span>
+              )}
+              {result.path && <span className="bookmark-health__path">{result.path}</span>}
+            </span>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
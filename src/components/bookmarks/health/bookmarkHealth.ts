@@ -0,0 +1,178 @@
+import { bookmarkRemindersDB, bookmarksDB } from "../../settings/settingsDb";
+import { scheduleSyncPush, type SyncBookmarkTile } from "../../settings/settingsSync";
+import { notifyLocalSubscribers } from "../../IndexedDatabase/changeBus";
+import type { BookmarkReminder } from "../reminders/types";
+import { deleteBookmarkTags, mergeBookmarkTags } from "../bookmarkTags";
+import { clearOpenHistory, mergeOpenHistory } from "../bookmarkOpens";
+import { isCheckableUrl, type LinkTarget } from "./linkChecker";
+import type { BookmarkEntry } from "./duplicateFinder";
+
+// The chrome.bookmarks side of bookmark maintenance: which bookmarks to look at, and the fixes applied
+// afterwards. Tiles and reminders point at bookmark node ids, so every fix keeps them in step.
+
+/** Checks every tile on every board, plus the contents of folder tiles. */
+export const ALL_TILES_SOURCE = "tiles";
+export const BROKEN_FOLDER_TITLE = "Broken";
+// Chrome's ids for the top-level folders; "Other bookmarks" is where new folders go when nothing else fits.
+const OTHER_BOOKMARKS_ID = "2";
+const CHECK_ORIGINS = ["https://*/*", "http://*/*"];
+
+interface IndexedNode {
+  node: chrome.bookmarks.BookmarkTreeNode;
+  /** Path of the folder holding the node. */
+  path: string;
+}
+
+const indexTree = async (): Promise<Map<string, IndexedNode>> => {
+  const [root] = await chrome.bookmarks.getTree();
+  const index = new Map<string, IndexedNode>();
+  const walk = (nodes: chrome.bookmarks.BookmarkTreeNode[], path: string) => {
+    for (const node of nodes) {
+      index.set(node.id, { node, path });
+      if (node.children) walk(node.children, path ? `${path} / ${node.title}` : node.title);
+    }
+  };
+  walk(root?.children ?? [], "");
+  return index;
+};
+
+const collectUnder = (entry: IndexedNode, into: Map<string, LinkTarget>) => {
+  const walk = (node: chrome.bookmarks.BookmarkTreeNode, path: string) => {
+    if (node.url) {
+      if (isCheckableUrl(node.url)) into.set(node.id, { nodeId: node.id, title: node.title, url: node.url, path });
+      return;
+    }
+    const childPath = path ? `${path} / ${node.title}` : node.title;
+    for (const child of node.children ?? []) walk(child, childPath);
+  };
+  walk(entry.node, entry.path);
+};
+
+/** The http(s) bookmarks under a folder id, or on the tiles for `ALL_TILES_SOURCE`; each node once. */
+export const collectLinkTargets = async (source: string): Promise<LinkTarget[]> => {
+  const index = await indexTree();
+  const targets = new Map<string, LinkTarget>();
+  if (source === ALL_TILES_SOURCE) {
+    const tiles = await bookmarksDB.queryIndex<SyncBookmarkTile>("position");
+    for (const tile of tiles) {
+      const entry = index.get(tile.nodeId);
+      if (entry) collectUnder(entry, targets);
+    }
+  } else {
+    const entry = index.get(source);
+    if (entry) collectUnder(entry, targets);
+  }
+  return [...targets.values()];
+};
+
+/** Every bookmark (not folder) in the tree, with its folder path. */
+export const collectAllBookmarks = async (): Promise<BookmarkEntry[]> => {
+  const entries: BookmarkEntry[] = [];
+  for (const { node, path } of (await indexTree()).values()) {
+    if (node.url) entries.push({ nodeId: node.id, title: node.title, url: node.url, path, dateAdded: node.dateAdded });
+  }
+  return entries;
+};
+
+export interface BookmarkUsage {
+  tiles: number;
+  reminders: number;
+}
+
+/** How many tiles and reminders use each bookmark node; nodes nothing uses are left out. */
+export const loadBookmarkUsage = async (): Promise<Map<string, BookmarkUsage>> => {
+  const [tiles, reminders] = await Promise.all([
+    bookmarksDB.queryIndex<SyncBookmarkTile>("position"),
+    bookmarkRemindersDB.getAllItems<BookmarkReminder>(),
+  ]);
+  const usage = new Map<string, BookmarkUsage>();
+  const entryFor = (nodeId: string) => {
+    const entry = usage.get(nodeId) ?? { tiles: 0, reminders: 0 };
+    usage.set(nodeId, entry);
+    return entry;
+  };
+  const tileNodes = new Map(tiles.map((tile) => [tile.id, tile.nodeId]));
+  for (const tile of tiles) entryFor(tile.nodeId).tiles += 1;
+  // Reminders set from a tile hold the tile id; the rest hold the node id
+  for (const reminder of reminders) entryFor(tileNodes.get(reminder.bookmarkId) ?? reminder.bookmarkId).reminders += 1;
+  return usage;
+};
+
+/** Cross-origin checks need host access; asked for on the click that starts a check. */
+export const requestLinkCheckPermission = (): Promise<boolean> => chrome.permissions.request({ origins: CHECK_ORIGINS });
+
+const announceBookmarksChange = () => {
+  notifyLocalSubscribers(bookmarksDB.storeName);
+  scheduleSyncPush();
+};
+
+const updateTiles = async (nodeIds: Set<string>, change: (tile: SyncBookmarkTile) => SyncBookmarkTile | null) => {
+  const tiles = (await bookmarksDB.queryIndex<SyncBookmarkTile>("position")).filter((tile) => nodeIds.has(tile.nodeId));
+  if (!tiles.length) return;
+  const kept: SyncBookmarkTile[] = [];
+  for (const tile of tiles) {
+    const next = change(tile);
+    if (next) kept.push(next);
+    else await bookmarksDB.deleteItem(tile.id);
+  }
+  if (kept.length) await bookmarksDB.bulkPut(kept);
+  announceBookmarksChange();
+};
+
+/** Points each bookmark, and the tiles on it, at the address its redirect ended on. */
+export const applyRedirects = async (fixes: { nodeId: string; finalUrl: string }[]) => {
+  const finalUrls = new Map(fixes.map((fix) => [fix.nodeId, fix.finalUrl]));
+  for (const [nodeId, url] of finalUrls) await chrome.bookmarks.update(nodeId, { url });
+  await updateTiles(new Set(finalUrls.keys()), (tile) => ({ ...tile, url: finalUrls.get(tile.nodeId) }));
+};
+
+const findOrCreateBrokenFolder = async (): Promise<{ id: string; path: string }> => {
+  const [root] = await chrome.bookmarks.getTree();
+  const topLevel = root?.children ?? [];
+  const parent = topLevel.find((node) => node.id === OTHER_BOOKMARKS_ID) ?? topLevel[topLevel.length - 1];
+  if (!parent) throw new Error("No bookmark folder to hold broken links.");
+  const path = `${parent.title} / ${BROKEN_FOLDER_TITLE}`;
+  const existing = parent.children?.find((node) => !node.url && node.title === BROKEN_FOLDER_TITLE);
+  if (existing) return { id: existing.id, path };
+  const created = await chrome.bookmarks.create({ parentId: parent.id, title: BROKEN_FOLDER_TITLE });
+  return { id: created.id, path };
+};
+
+/** Moves bookmarks into the "Broken" folder under Other bookmarks and returns its path; tiles keep pointing at them. */
+export const moveToBrokenFolder = async (nodeIds: string[]): Promise<string> => {
+  const folder = await findOrCreateBrokenFolder();
+  for (const nodeId of nodeIds) await chrome.bookmarks.move(nodeId, { parentId: folder.id });
+  return folder.path;
+};
+
+/** Deletes bookmarks and clears the tiles and tags on them. */
+export const deleteBookmarkNodes = async (nodeIds: string[]) => {
+  for (const nodeId of nodeIds) await chrome.bookmarks.remove(nodeId);
+  if (await deleteBookmarkTags(nodeIds)) announceBookmarksChange();
+  await clearOpenHistory(nodeIds);
+  await updateTiles(new Set(nodeIds), () => null);
+};
+
+/** Keeps `keepId`, moves the tiles, reminders and tags of the other bookmarks onto it, then deletes them. */
+export const mergeBookmarks = async (keepId: string, removeIds: string[]) => {
+  const [kept] = await chrome.bookmarks.get(keepId);
+  const removed = new Set(removeIds.filter((nodeId) => nodeId !== keepId));
+  if (!kept || !removed.size) return;
+
+  if (await mergeBookmarkTags([...removed], { id: kept.id, title: kept.title, url: kept.url })) announceBookmarksChange();
+  await mergeOpenHistory([...removed], kept.id);
+  await updateTiles(removed, (tile) => ({ ...tile, nodeId: kept.id, url: kept.url }));
+  const reminders = (await bookmarkRemindersDB.getAllItems<BookmarkReminder>()).filter((reminder) =>
+    removed.has(reminder.bookmarkId),
+  );
+  if (reminders.length) {
+    const now = Date.now();
+    await bookmarkRemindersDB.bulkPut(
+      reminders.map((reminder) => ({ ...reminder, bookmarkId: kept.id, bookmarkUrl: kept.url, updatedAt: now })),
+    );
+    notifyLocalSubscribers(bookmarkRemindersDB.storeName);
+    scheduleSyncPush();
+  }
+  // Only once nothing points at them any more
+  for (const nodeId of removed) await chrome.bookmarks.remove(nodeId);
+};
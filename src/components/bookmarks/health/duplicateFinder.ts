@@ -0,0 +1,89 @@
+// Finds bookmarks that point at the same page. Pure functions over plain entries, like linkChecker.ts;
+// bookmarkHealth.ts reads the tree and does the merging.
+
+/** `exact`: every URL in the group is identical; `near`: they only match once normalized. */
+export type DuplicateMatch = "exact" | "near";
+
+export interface BookmarkEntry {
+  nodeId: string;
+  title: string;
+  url: string;
+  /** Folder path in the bookmark tree, e.g. `Bookmarks bar / Work`. */
+  path: string;
+  dateAdded?: number;
+}
+
+export interface DuplicateGroup {
+  /** The normalized URL shared by the group. */
+  key: string;
+  match: DuplicateMatch;
+  /** Oldest first. */
+  entries: BookmarkEntry[];
+}
+
+// Query parameters that only say where a click came from; `utm_*` is matched by prefix.
+const TRACKING_PARAMS = new Set([
+  "fbclid",
+  "gclid",
+  "dclid",
+  "msclkid",
+  "yclid",
+  "igshid",
+  "mc_cid",
+  "mc_eid",
+  "_ga",
+  "_hsenc",
+  "_hsmi",
+  "ref",
+  "ref_src",
+  "spm",
+]);
+
+const isTrackingParam = (name: string) => {
+  const lower = name.toLowerCase();
+  return lower.startsWith("utm_") || TRACKING_PARAMS.has(lower);
+};
+
+const byName = ([a]: [string, string], [b]: [string, string]) => (a < b ? -1 : a > b ? 1 : 0);
+
+/**
+ * The part of a URL that names the page: no scheme, `www.`, trailing slash, tracking parameters or fragment,
+ * and the remaining parameters sorted. Non-web URLs (bookmarklets, `chrome://`) are only trimmed.
+ */
+export const normalizeBookmarkUrl = (url: string): string => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return url.trim();
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") return parsed.href;
+  const host = parsed.hostname.replace(/^www\./, "");
+  const port = parsed.port ? `:${parsed.port}` : "";
+  const path = parsed.pathname.replace(/\/+$/, "");
+  const params = [...parsed.searchParams].filter(([name]) => !isTrackingParam(name)).sort(byName);
+  const query = params.length ? `?${new URLSearchParams(params)}` : "";
+  return `${host}${port}${path}${query}`;
+};
+
+/** Groups of two or more bookmarks with the same normalized URL, largest first. */
+export const groupDuplicates = (entries: BookmarkEntry[]): DuplicateGroup[] => {
+  const byKey = new Map<string, BookmarkEntry[]>();
+  for (const entry of entries) {
+    const key = normalizeBookmarkUrl(entry.url);
+    const group = byKey.get(key);
+    if (group) group.push(entry);
+    else byKey.set(key, [entry]);
+  }
+
+  const groups: DuplicateGroup[] = [];
+  for (const [key, group] of byKey) {
+    if (group.length < 2) continue;
+    groups.push({
+      key,
+      match: group.every((entry) => entry.url === group[0].url) ? "exact" : "near",
+      entries: [...group].sort((a, b) => (a.dateAdded ?? 0) - (b.dateAdded ?? 0)),
+    });
+  }
+  return groups.sort((a, b) => b.entries.length - a.entries.length || (a.key < b.key ? -1 : 1));
+};
@@ -0,0 +1,113 @@
+// Checks bookmark URLs over the network. Nothing here touches chrome.* so it runs against any HTTP server;
+// bookmarkHealth.ts collects the targets and applies the fixes.
+
+export type LinkCheckKind = "ok" | "redirected" | "client-error" | "server-error" | "network";
+
+export interface LinkTarget {
+  nodeId: string;
+  title: string;
+  url: string;
+  /** Folder path in the bookmark tree, e.g. `Bookmarks bar / Work`. */
+  path: string;
+}
+
+export interface LinkCheckResult extends LinkTarget {
+  kind: LinkCheckKind;
+  /** Final HTTP status; absent on network failures. */
+  status?: number;
+  /** Where the request ended up after redirects. */
+  finalUrl?: string;
+  /** Why a network check failed (DNS, refused, timeout…). */
+  error?: string;
+}
+
+export interface LinkCheckOptions {
+  concurrency?: number;
+  timeoutMs?: number;
+  /** Stand-in for `fetch`, e.g. in tests. */
+  fetcher?: typeof fetch;
+  signal?: AbortSignal;
+  onResult?: (result: LinkCheckResult, done: number, total: number) => void;
+}
+
+export const DEFAULT_CHECK_CONCURRENCY = 6;
+export const DEFAULT_CHECK_TIMEOUT_MS = 10_000;
+// Some servers reject HEAD outright or answer it differently from GET; those get a second, GET request.
+const RETRY_WITH_GET = new Set([400, 403, 404, 405, 429, 500, 501, 503]);
+
+export const isCheckableUrl = (url: string) => /^https?:\/\//i.test(url);
+
+// Redirects to the same address with only a trailing slash or letter case changed are not worth reporting.
+const sameAddress = (a: string, b: string) => {
+  const normalize = (url: string) => url.toLowerCase().replace(/\/+$/, "");
+  return normalize(a) === normalize(b);
+};
+
+const classify = (target: LinkTarget, response: Response): LinkCheckResult => {
+  const finalUrl = response.url || target.url;
+  if (response.status >= 500) return { ...target, kind: "server-error", status: response.status, finalUrl };
+  if (response.status >= 400) return { ...target, kind: "client-error", status: response.status, finalUrl };
+  if (response.redirected && !sameAddress(finalUrl, target.url)) {
+    return { ...target, kind: "redirected", status: response.status, finalUrl };
+  }
+  return { ...target, kind: "ok", status: response.status };
+};
+
+const request = async (url: string, method: "HEAD" | "GET", fetcher: typeof fetch, timeoutMs: number, signal?: AbortSignal) => {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  const timer = setTimeout(abort, timeoutMs);
+  signal?.addEventListener("abort", abort);
+  try {
+    const response = await fetcher(url, { method, redirect: "follow", cache: "no-store", credentials: "omit", signal: controller.signal });
+    // Only the status matters; don't download the page.
+    void response.body?.cancel().catch(() => undefined);
+    return response;
+  } catch (error) {
+    if (controller.signal.aborted && !signal?.aborted) throw new Error(`timed out after ${Math.round(timeoutMs / 1000)} s`);
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", abort);
+  }
+};
+
+/** One URL: HEAD first, GET when HEAD looks refused. */
+export const checkLink = async (
+  target: LinkTarget,
+  { fetcher = fetch, timeoutMs = DEFAULT_CHECK_TIMEOUT_MS, signal }: LinkCheckOptions = {},
+): Promise<LinkCheckResult> => {
+  try {
+    let response = await request(target.url, "HEAD", fetcher, timeoutMs, signal);
+    if (RETRY_WITH_GET.has(response.status)) response = await request(target.url, "GET", fetcher, timeoutMs, signal);
+    return classify(target, response);
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    return { ...target, kind: "network", error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+/**
+ * Checks every target with at most `concurrency` requests in flight; results arrive through `onResult`
+ * as they finish and are returned in input order. Aborting `signal` stops new requests and rejects.
+ */
+export const checkLinks = async (targets: LinkTarget[], options: LinkCheckOptions = {}): Promise<LinkCheckResult[]> => {
+  const { concurrency = DEFAULT_CHECK_CONCURRENCY, signal, onResult } = options;
+  const results: LinkCheckResult[] = new Array(targets.length);
+  let next = 0;
+  let done = 0;
+
+  const worker = async () => {
+    while (next < targets.length) {
+      if (signal?.aborted) throw new DOMException("Link check cancelled", "AbortError");
+      const index = next;
+      next += 1;
+      results[index] = await checkLink(targets[index], options);
+      done += 1;
+      onResult?.(results[index], done, targets.length);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, targets.length) }, worker));
+  return results;
+};
@@ -0,0 +1,54 @@
+// Letter icons for bookmarks without a favicon: the initials of the title (or the host when the title is empty),
+// drawn on the tile color. Persian and other right-to-left titles keep their reading order, and their two
+// initials are kept apart with a ZWNJ so they don't join into one glyph.
+
+export interface Monogram {
+  text: string;
+  rtl: boolean;
+}
+
+const RTL_LETTER = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]/;
+const LETTER_OR_DIGIT = /[\p{L}\p{N}]/u;
+const ZWNJ = "\u200C";
+
+const hostOf = (url?: string) => {
+  if (!url) return "";
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return "";
+  }
+};
+
+// First letter or digit of a word, skipping quotes, emoji and other marks in front of it
+const initialOf = (word: string) => Array.from(word).find((char) => LETTER_OR_DIGIT.test(char)) ?? "";
+
+/** Up to two initials: the first letters of the first two words, or one letter for a single word or a host. */
+export const monogramFor = (title: string, url?: string): Monogram => {
+  const words = title.trim() ? title.trim().split(/\s+/) : [hostOf(url).split(".")[0] ?? ""];
+  const initials = words.map(initialOf).filter(Boolean).slice(0, 2);
+  if (!initials.length) return { text: "?", rtl: false };
+  const rtl = RTL_LETTER.test(initials[0]);
+  return { text: rtl ? initials.join(ZWNJ) : initials.join("").toLocaleUpperCase(), rtl };
+};
+
+const parseColor = (color: string): [number, number, number, number] | null => {
+  const hex = color.trim().match(/^#([\da-f]{3}|[\da-f]{6})$/i);
+  if (hex) {
+    const digits = hex[1].length === 3 ? [...hex[1]].map((digit) => digit + digit) : hex[1].match(/../g) ?? [];
+    const [r, g, b] = digits.map((pair) => Number.parseInt(pair, 16));
+    return [r, g, b, 1];
+  }
+  const rgb = color.match(/rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:[\s,/]+([\d.]+))?/i);
+  if (!rgb) return null;
+  return [Number(rgb[1]), Number(rgb[2]), Number(rgb[3]), rgb[4] === undefined ? 1 : Number(rgb[4])];
+};
+
+/** Dark text on light, mostly opaque colors and white text otherwise; tiles sit on a dark glass backdrop. */
+export const monogramTextColor = (background?: string): string => {
+  const parsed = background ? parseColor(background) : null;
+  if (!parsed) return "#ffffff";
+  const [r, g, b, alpha] = parsed;
+  const luminance = (0.2126 * r + 0.7152 * g + 0.0722 * b) / 255;
+  return alpha >= 0.5 && luminance > 0.6 ? "#1a1a1a" : "#ffffff";
+};
@@ -0,0 +1,201 @@
+import { useMemo, useState, type CSSProperties } from "react";
+import { BookOpen, Clock, ExternalLink, Pencil, Trash2 } from "lucide-react";
+import { useI18n } from "../../../i18n/LanguageProvider";
+import { BookmarkFavicon } from "../BookmarkFavicon";
+import { useReminders } from "./RemindersContext";
+import {
+  estimateReadingMinutes,
+  nextToRead,
+  readLaterQueue,
+  readStateOf,
+  readStateUpdate,
+  requestReadingTimePermission,
+} from "./readLater";
+import { getHostname } from "./reminderUtils";
+import type { BookmarkReminder, ReadState } from "./types";
+import "./ReadLater.css";
+
+interface ReadLaterModalProps {
+  themeStyle: CSSProperties;
+  onClose: () => void;
+}
+
+const READ_STATES: ReadState[] = ["unread", "reading", "done"];
+
+/** The Read Later queue by progress, with "Open next", notes and reading time estimates. */
+export function ReadLaterModal({ themeStyle, onClose }: ReadLaterModalProps) {
+  const { t, language } = useI18n();
+  const { reminders, updateReminder, deleteReminder, openReminderBookmark } = useReminders();
+  const [shownState, setShownState] = useState<ReadState>("unread");
+  const [editingNoteId, setEditingNoteId] = useState<string | null>(null);
+  const [noteDraft, setNoteDraft] = useState("");
+  const [isEstimating, setIsEstimating] = useState(false);
+
+  const queue = useMemo(() => readLaterQueue(reminders), [reminders]);
+  const next = nextToRead(queue);
+  const shown = queue.filter((reminder) => readStateOf(reminder) === shownState);
+  const unread = queue.filter((reminder) => readStateOf(reminder) === "unread");
+  const unreadMinutes = unread.reduce((total, reminder) => total + (reminder.readingMinutes ?? 0), 0);
+  const unestimated = queue.filter((reminder) => readStateOf(reminder) !== "done" && !reminder.readingMinutes && reminder.bookmarkUrl);
+
+  const estimateAll = async () => {
+    if (!(await requestReadingTimePermission())) return;
+    setIsEstimating(true);
+    try {
+      for (const reminder of unestimated) {
+        const readingMinutes = await estimateReadingMinutes(reminder.bookmarkUrl);
+        if (readingMinutes) await updateReminder(reminder.id, { readingMinutes });
+      }
+    } finally {
+      setIsEstimating(false);
+    }
+  };
+
+  const startNoteEdit = (reminder: BookmarkReminder) => {
+    setEditingNoteId(reminder.id);
+    setNoteDraft(reminder.note ?? "");
+  };
+
+  const saveNote = async (id: string) => {
+    setEditingNoteId(null);
+    await updateReminder(id, { note: noteDraft.trim() || undefined });
+  };
+
+  const remove = (reminder: BookmarkReminder) => {
+    if (!confirm(t("bookmarks.readLater.removeConfirm", { title: reminder.bookmarkTitle }))) return;
+    void deleteReminder(reminder.id);
+  };
+
+  const renderRow = (reminder: BookmarkReminder) => (
+    <div key={reminder.id} className="read-later__row">
+      <BookmarkFavicon url={reminder.bookmarkUrl} title={reminder.bookmarkTitle} size={16} className="read-later__favicon" />
+      <span className="read-later__body">
+        <span className="read-later__title">{reminder.bookmarkTitle}</span>
+        <span className="read-later__meta">
+          {getHostname(reminder.bookmarkUrl)}
+          {reminder.readingMinutes !== undefined && ` · ${t("bookmarks.readLater.minutes", { count: reminder.readingMinutes })}`}
+          {` · ${t("bookmarks.readLater.added", { date: new Date(reminder.createdAt).toLocaleDateString(language) })}`}
+        </span>
+        {editingNoteId === reminder.id ? (
+          <span className="read-later__note-edit">
+            <textarea
+              className="bookmarks-input"
+              value={noteDraft}
+              onChange={(e) => setNoteDraft(e.target.value)}
+              placeholder={t("bookmarks.readLater.notePlaceholder")}
+              rows={2}
+              autoFocus
+            />
+            <span className="read-later__note-actions">
+              <button type="button" className="bookmarks-btn" onClick={() => setEditingNoteId(null)}>
+                {t("bookmarks.readLater.cancel")}
+              </button>
+              <button type="button" className="bookmarks-btn bookmarks-btn--primary" onClick={() => void saveNote(reminder.id)}>
+                {t("bookmarks.readLater.saveNote")}
+              </button>
+            </span>
+          </span>
+        ) : (
+          reminder.note && <span className="read-later__note">{reminder.note}</span>
+        )}
+      </span>
+      <select
+        value={readStateOf(reminder)}
+        onChange={(e) => void updateReminder(reminder.id, readStateUpdate(e.target.value as ReadState))}
+        aria-label={t("bookmarks.readLater.state")}
+      >
+        {READ_STATES.map((state) => (
+          <option key={state} value={state}>
+            {t(`bookmarks.readLater.states.${state}`)}
+          </option>
+        ))}
+      </select>
+      <span className="read-later__actions">
+        <button
+          type="button"
+          className="bookmarks-btn"
+          onClick={() => void openReminderBookmark(reminder.id)}
+          disabled={!reminder.bookmarkUrl}
+          aria-label={t("bookmarks.readLater.open")}
+          title={t("bookmarks.readLater.open")}
+        >
+          <ExternalLink className="w-3.5 h-3.5" />
+        </button>
+        <button
+          type="button"
+          className="bookmarks-btn"
+          onClick={() => startNoteEdit(reminder)}
+          aria-label={t("bookmarks.readLater.editNote")}
+          title={t("bookmarks.readLater.editNote")}
+        >
+          <Pencil className="w-3.5 h-3.5" />
+        </button>
+        <button
+          type="button"
+          className="bookmarks-btn"
+          onClick={() => remove(reminder)}
+          aria-label={t("bookmarks.readLater.remove")}
+          title={t("bookmarks.readLater.remove")}
+        >
+          <Trash2 className="w-3.5 h-3.5" />
+        </button>
+      </span>
+    </div>
+  );
+
+  return (
+    <div className="bookmarks-overlay">
+      <div className="bookmarks-modal read-later" style={{ ...themeStyle, width: "auto", height: "auto", maxWidth: "34rem" }}>
+        <div className="bookmarks-toolbar">
+          <button type="button" onClick={onClose} className="bookmarks-btn">
+            {t("bookmarks.readLater.close")}
+          </button>
+          <h3 className="text-base font-medium flex-grow text-center">{t("bookmarks.readLater.title")}</h3>
+        </div>
+
+        <div className="read-later__summary">
+          <span className="read-later__meta">
+            {t("bookmarks.readLater.unread", { count: unread.length })}
+            {unreadMinutes > 0 && ` · ${t("bookmarks.readLater.total", { count: unreadMinutes })}`}
+          </span>
+          {unestimated.length > 0 && (
+            <button type="button" className="bookmarks-btn" onClick={() => void estimateAll()} disabled={isEstimating}>
+              <Clock className="w-3.5 h-3.5" />
+              {t(isEstimating ? "bookmarks.readLater.estimating" : "bookmarks.readLater.estimate")}
+            </button>
+          )}
+          <button
+            type="button"
+            className="bookmarks-btn bookmarks-btn--primary"
+            onClick={() => next && void openReminderBookmark(next.id)}
+            disabled={!next}
+            title={next?.bookmarkTitle}
+          >
+            <BookOpen className="w-3.5 h-3.5" />
+            {t("bookmarks.readLater.openNext")}
+          </button>
+        </div>
+
+        <div className="read-later__tabs" role="tablist">
+          {READ_STATES.map((state) => (
+            <button
+              key={state}
+              type="button"
+              role="tab"
+              aria-selected={shownState === state}
+              className={`bookmarks-btn${shownState === state ? " read-later__tab--active" : ""}`}
+              onClick={() => setShownState(state)}
+            >
+              {t(`bookmarks.readLater.states.${state}`)} ({queue.filter((reminder) => readStateOf(reminder) === state).length})
+            </button>
+          ))}
+        </div>
+
+        <div className="read-later__list">
+          {shown.length === 0 && <p className="bookmarks-empty">{t(`bookmarks.readLater.empty.${shownState}`)}</p>}
+          {shown.map(renderRow)}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -10,9 +10,12 @@ import {
 } from "react";
 import { bookmarkRemindersDB } from "../../settings/settingsDb";
 import { scheduleSyncPush } from "../../settings/settingsSync";
+import { subscribeDataChanges } from "../../IndexedDatabase/changeBus";
 import { playAlertSound, requestNotificationPermission, showAlertNotification } from "../../timerAlarm/utils";
 import { getReminderSettings } from "./reminderSettings";
 import { openBookmarkUrl, refreshReminderScheduling } from "./reminderScheduler";
+import { loadTileNodeIds, recordBookmarkOpen, reminderNodeId } from "../bookmarkOpens";
+import { isReadLaterItem, readStateOnOpen } from "./readLater";
 import type { BookmarkReminder, ReminderInput } from "./types";
 import {
   computeNextRepeatAt,
@@ -37,6 +40,7 @@ interface RemindersContextValue {
   dateKeysWithReminders: Set<string>;
   activeReminders: BookmarkReminder[];
   openReminderBookmark: (id: string) => Promise<void>;
+  markPagesOpened: (pages: { nodeId: string; url: string }[]) => Promise<void>;
 }
 
 const RemindersContext = createContext<RemindersContextValue | null>(null);
@@ -51,8 +55,7 @@ export function RemindersProvider({ children }: { children: ReactNode }) {
 
   const loadReminders = useCallback(async () => {
     try {
-      const stored = await bookmarkRemindersDB.getAllItems<BookmarkReminder>();
-      const sorted = stored.sort((a, b) => a.reminderAt - b.reminderAt);
+      const sorted = await bookmarkRemindersDB.queryIndex<BookmarkReminder>("reminderAt");
       setReminders(sorted);
       await refreshReminderScheduling(sorted);
     } catch (error) {
@@ -67,19 +70,11 @@ export function RemindersProvider({ children }: { children: ReactNode }) {
     requestNotificationPermission();
   }, [loadReminders]);
 
-  useEffect(() => {
-    const onStorage = (
-      changes: { [key: string]: chrome.storage.StorageChange },
-      area: string,
-    ) => {
-      if (area !== "local") return;
-      if (changes.nexx_reminders_updated_at || changes.nexx_reminders_cache) {
-        void loadReminders();
-      }
-    };
-    chrome.storage.onChanged.addListener(onStorage);
-    return () => chrome.storage.onChanged.removeListener(onStorage);
-  }, [loadReminders]);
+  // Other tabs, the popup and the service worker (notification actions) all write reminders
+  useEffect(
+    () => subscribeDataChanges([bookmarkRemindersDB.storeName], () => void loadReminders()),
+    [loadReminders],
+  );
 
   const persist = useCallback(async (next: BookmarkReminder[]) => {
     setReminders(next);
@@ -101,6 +96,8 @@ export function RemindersProvider({ children }: { children: ReactNode }) {
         category: input.category,
         priority: input.priority,
         repeat: input.repeat,
+        readState: input.category === "read_later" ? "unread" : undefined,
+        readingMinutes: input.readingMinutes,
         enabled: true,
         createdAt: now,
         updatedAt: now,
@@ -217,13 +214,43 @@ export function RemindersProvider({ children }: { children: ReactNode }) {
       if (!reminder?.bookmarkUrl) return;
 
       openBookmarkUrl(reminder.bookmarkUrl);
+      void reminderNodeId(reminder.bookmarkId)
+        .then((nodeId) => recordBookmarkOpen(nodeId, reminder.bookmarkUrl))
+        .catch((error) => console.error("Error recording bookmark open:", error));
 
       const settings = getReminderSettings();
-      if (settings.autoCompleteOnOpen) {
+      if (isReadLaterItem(reminder)) {
+        const updates = readStateOnOpen(reminder, settings.autoCompleteOnOpen);
+        if (updates) await updateReminder(id, updates);
+      } else if (settings.autoCompleteOnOpen) {
         await completeReminder(id);
       }
     },
-    [completeReminder],
+    [completeReminder, updateReminder],
+  );
+
+  // Read Later items move along when their page is opened from a tile or a folder. Written in one pass, since
+  // several pages can be opened at once and several items can point at the same page. Pages are given by node
+  // id, the key opens are counted under; items set from a tile are matched through the tile's node.
+  const markPagesOpened = useCallback(
+    async (pages: { nodeId: string; url: string }[]) => {
+      const { autoCompleteOnOpen } = getReminderSettings();
+      const tileNodeIds = await loadTileNodeIds();
+      const now = Date.now();
+      const changed = new Map<string, BookmarkReminder>();
+      for (const reminder of remindersRef.current) {
+        if (!isReadLaterItem(reminder)) continue;
+        const nodeId = tileNodeIds.get(reminder.bookmarkId) ?? reminder.bookmarkId;
+        if (!pages.some((page) => page.nodeId === nodeId || page.url === reminder.bookmarkUrl)) continue;
+        const updates = readStateOnOpen(reminder, autoCompleteOnOpen);
+        if (updates) changed.set(reminder.id, { ...reminder, ...updates, updatedAt: now });
+      }
+      if (!changed.size) return;
+
+      for (const reminder of changed.values()) await bookmarkRemindersDB.saveItem(reminder);
+      await persist(remindersRef.current.map((r) => changed.get(r.id) ?? r));
+    },
+    [persist],
   );
 
   const getRemindersForBookmark = useCallback(
@@ -255,6 +282,7 @@ export function RemindersProvider({ children }: { children: ReactNode }) {
       dateKeysWithReminders,
       activeReminders,
       openReminderBookmark,
+      markPagesOpened,
     }),
     [
       reminders,
@@ -269,6 +297,7 @@ export function RemindersProvider({ children }: { children: ReactNode }) {
       dateKeysWithReminders,
       activeReminders,
       openReminderBookmark,
+      markPagesOpened,
     ],
   );
 
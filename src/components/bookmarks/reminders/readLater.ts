@@ -0,0 +1,87 @@
+import { isCheckableUrl } from "../health/linkChecker";
+import { applyQuickPreset, defaultRepeatRule } from "./reminderUtils";
+import type { BookmarkReminder, ReadState, ReminderInput } from "./types";
+
+// The Read Later queue: reminders in the read_later category, read in the order they were added. An item goes
+// from unread to reading when its page is opened through NEXX, and to done when marked so (or on open with
+// autoCompleteOnOpen). Done items are completed reminders, so they stop firing.
+
+/** Reading speed behind the time estimates; extension/popup.js uses the same figure. */
+export const READING_WORDS_PER_MINUTE = 230;
+
+const PAGE_ORIGINS = ["https://*/*", "http://*/*"];
+const PAGE_FETCH_TIMEOUT_MS = 10_000;
+
+export const isReadLaterItem = (reminder: BookmarkReminder) => reminder.category === "read_later" && !reminder.dismissedAt;
+
+/** Completed items are done however they were completed; items saved before read states existed start unread. */
+export const readStateOf = (reminder: BookmarkReminder): ReadState =>
+  reminder.completedAt ? "done" : reminder.readState ?? "unread";
+
+export const readLaterQueue = (reminders: BookmarkReminder[]) =>
+  reminders.filter(isReadLaterItem).sort((a, b) => a.createdAt - b.createdAt);
+
+/** The oldest unread item; what "Open next" opens. */
+export const nextToRead = (queue: BookmarkReminder[]) => queue.find((reminder) => readStateOf(reminder) === "unread");
+
+/** Fields that move an item to `state`: done completes the reminder, the others bring it back. */
+export const readStateUpdate = (state: ReadState): Partial<BookmarkReminder> =>
+  state === "done"
+    ? { readState: state, completedAt: Date.now(), enabled: false, snoozeUntil: undefined }
+    : { readState: state, completedAt: undefined, enabled: true };
+
+/** What opening the page does to an item, or null when it stays as it is. */
+export const readStateOnOpen = (reminder: BookmarkReminder, autoCompleteOnOpen: boolean): Partial<BookmarkReminder> | null => {
+  const state = readStateOf(reminder);
+  if (state === "done") return null;
+  if (autoCompleteOnOpen) return readStateUpdate("done");
+  return state === "unread" ? readStateUpdate("reading") : null;
+};
+
+/** Whether opening `url` (as bookmark or tile `bookmarkId`) is opening this item's page. */
+export const isReadLaterPage = (reminder: BookmarkReminder, bookmarkId: string, url: string) =>
+  isReadLaterItem(reminder) && (reminder.bookmarkId === bookmarkId || reminder.bookmarkUrl === url);
+
+/** A queue item for a page; it reminds at the default hour tomorrow. */
+export const readLaterInput = (page: { id: string; title: string; url?: string }): ReminderInput => ({
+  bookmarkId: page.id,
+  bookmarkTitle: page.title,
+  bookmarkUrl: page.url,
+  reminderAt: applyQuickPreset("tomorrow"),
+  dateOnly: false,
+  category: "read_later",
+  priority: "medium",
+  repeat: defaultRepeatRule(),
+});
+
+/** Minutes to read `text`, at least one. */
+export const readingMinutesFor = (text: string) =>
+  Math.max(1, Math.round(text.split(/\s+/).filter(Boolean).length / READING_WORDS_PER_MINUTE));
+
+// The article text of a page: its <article> or <main> when it has one, without scripts and page chrome
+const pageText = (html: string) => {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  doc.querySelectorAll("script, style, noscript, template, svg, nav, header, footer, aside").forEach((el) => el.remove());
+  return (doc.querySelector("article") ?? doc.querySelector("main") ?? doc.body)?.textContent ?? "";
+};
+
+/** Pages are fetched cross-origin, so estimating asks for host access on the click that starts it. */
+export const requestReadingTimePermission = (): Promise<boolean> => chrome.permissions.request({ origins: PAGE_ORIGINS });
+
+/** Downloads the page and estimates its reading time; undefined without host access or when it isn't an HTML page. */
+export const estimateReadingMinutes = async (url?: string): Promise<number | undefined> => {
+  if (!url || !isCheckableUrl(url)) return undefined;
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), PAGE_FETCH_TIMEOUT_MS);
+  try {
+    if (!(await chrome.permissions.contains({ origins: PAGE_ORIGINS }))) return undefined;
+    const response = await fetch(url, { credentials: "omit", signal: controller.signal });
+    if (!response.ok || !response.headers.get("content-type")?.includes("text/html")) return undefined;
+    return readingMinutesFor(pageText(await response.text()));
+  } catch (error) {
+    console.warn("[nexx-read-later] could not estimate reading time:", error);
+    return undefined;
+  } finally {
+    clearTimeout(timer);
+  }
+};
@@ -19,6 +19,9 @@ export type ReminderCategory =
   | "work"
   | "personal";
 
+/** Progress of a read-later item; missing on other reminders. */
+export type ReadState = "unread" | "reading" | "done";
+
 export type RepeatType = "none" | "daily" | "weekly" | "monthly" | "every_x_days" | "custom";
 
 export interface RepeatRule {
@@ -46,6 +49,9 @@ export interface BookmarkReminder {
   completedAt?: number;
   dismissedAt?: number;
   lastTriggeredAt?: number;
+  readState?: ReadState;
+  /** Estimated reading time of the page, in minutes. */
+  readingMinutes?: number;
 }
 
 export interface ReminderInput {
@@ -58,6 +64,7 @@ export interface ReminderInput {
   category?: ReminderCategory;
   priority: ReminderPriority;
   repeat: RepeatRule;
+  readingMinutes?: number;
 }
 
 export type ReminderFilter =
@@ -0,0 +1,180 @@
+import { bookmarksDB } from "../settings/settingsDb";
+import { toDateKey } from "../tasks/taskUtils";
+
+// Tab sessions are plain Chrome bookmark folders under "NEXX Sessions" in Other bookmarks, so Chrome sync and
+// any bookmark manager see them too. A session of several windows keeps one subfolder per window. The note
+// and capture time live in a session record in the bookmarks store (no `position`, like tag records), which
+// names the folder by node id. Callers schedule the sync push.
+
+export const SESSION_RECORD_TYPE = "session";
+export const SESSIONS_FOLDER_TITLE = "NEXX Sessions";
+
+export interface TabSessionRecord {
+  id: string;
+  type: typeof SESSION_RECORD_TYPE;
+  /** The session's bookmark folder. */
+  nodeId: string;
+  title: string;
+  note: string;
+  createdAt: number;
+  updatedAt?: number;
+}
+
+export interface TabSession {
+  folderId: string;
+  title: string;
+  note: string;
+  createdAt: number;
+  /** Addresses per window, in tab order. */
+  windows: string[][];
+  tabCount: number;
+}
+
+export type SessionScope = "window" | "all";
+
+export interface CaptureSessionOptions {
+  scope: SessionScope;
+  name: string;
+  note: string;
+  /** Closes the saved tabs afterwards; the tab showing NEXX stays open. */
+  closeTabs: boolean;
+}
+
+export interface RestoreSessionResult {
+  opened: number;
+  /** Tabs left out because their address was already open. */
+  skipped: number;
+}
+
+export const isSessionRecord = (record: object): record is TabSessionRecord =>
+  (record as { type?: unknown }).type === SESSION_RECORD_TYPE;
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/** `yyyy-MM-dd HH:mm` in local time; the same on every language so sessions sort by title too. */
+const sessionStamp = (time: number) => {
+  const date = new Date(time);
+  return `${toDateKey(date)} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+// NEXX's own pages and blank new tabs are not worth restoring
+const isSavableTab = (tab: chrome.tabs.Tab, currentTabId?: number) =>
+  !!tab.url &&
+  tab.id !== currentTabId &&
+  !tab.url.startsWith(chrome.runtime.getURL("")) &&
+  !tab.url.startsWith("chrome://newtab") &&
+  tab.url !== "about:blank";
+
+const findSessionsFolder = async (): Promise<chrome.bookmarks.BookmarkTreeNode | undefined> =>
+  (await chrome.bookmarks.search({ title: SESSIONS_FOLDER_TITLE })).find((node) => !node.url);
+
+const ensureSessionsFolder = async (): Promise<chrome.bookmarks.BookmarkTreeNode> => {
+  const existing = await findSessionsFolder();
+  if (existing) return existing;
+  // Other bookmarks is the second top-level folder; the bookmarks bar is the fallback
+  const [root] = await chrome.bookmarks.getTree();
+  const parent = root.children?.[1] ?? root.children?.[0];
+  if (!parent) throw new Error("No bookmark folder to keep sessions in");
+  return chrome.bookmarks.create({ parentId: parent.id, title: SESSIONS_FOLDER_TITLE });
+};
+
+const loadSessionRecords = async () => (await bookmarksDB.getAllItems<object>()).filter(isSessionRecord);
+
+/** Bookmarks the tabs of this window, or of every normal window, into a new session folder. */
+export const captureSession = async ({ scope, name, note, closeTabs }: CaptureSessionOptions): Promise<TabSession | null> => {
+  const currentTab = await chrome.tabs.getCurrent();
+  const windows =
+    scope === "window"
+      ? [await chrome.windows.getCurrent({ populate: true })]
+      : await chrome.windows.getAll({ populate: true, windowTypes: ["normal"] });
+  const groups = windows
+    .filter((win) => !win.incognito)
+    .map((win) => (win.tabs ?? []).filter((tab) => isSavableTab(tab, currentTab?.id)))
+    .filter((tabs) => tabs.length > 0);
+  if (!groups.length) return null;
+
+  const createdAt = Date.now();
+  const stamp = sessionStamp(createdAt);
+  const title = name.trim() ? `${name.trim()} · ${stamp}` : stamp;
+  const sessionsFolder = await ensureSessionsFolder();
+  const folder = await chrome.bookmarks.create({ parentId: sessionsFolder.id, title });
+  for (const [index, tabs] of groups.entries()) {
+    const parentId =
+      groups.length > 1 ? (await chrome.bookmarks.create({ parentId: folder.id, title: `Window ${index + 1}` })).id : folder.id;
+    for (const tab of tabs) await chrome.bookmarks.create({ parentId, title: tab.title || tab.url, url: tab.url });
+  }
+
+  const record: TabSessionRecord = {
+    id: crypto.randomUUID(),
+    type: SESSION_RECORD_TYPE,
+    nodeId: folder.id,
+    title,
+    note: note.trim(),
+    createdAt,
+  };
+  await bookmarksDB.saveItem(record);
+
+  if (closeTabs) {
+    const tabIds = groups.flat().map((tab) => tab.id).filter((id) => id !== undefined);
+    if (tabIds.length) await chrome.tabs.remove(tabIds);
+  }
+
+  const windowUrls = groups.map((tabs) => tabs.map((tab) => tab.url as string));
+  return { folderId: folder.id, title, note: record.note, createdAt, windows: windowUrls, tabCount: windowUrls.flat().length };
+};
+
+// Bookmarks directly in the folder form one window, each subfolder another
+const windowsOf = (folder: chrome.bookmarks.BookmarkTreeNode): string[][] => {
+  const children = folder.children ?? [];
+  const loose = children.filter((child) => child.url).map((child) => child.url as string);
+  const nested = children
+    .filter((child) => !child.url)
+    .map((child) => (child.children ?? []).filter((grandchild) => grandchild.url).map((grandchild) => grandchild.url as string));
+  return [loose, ...nested].filter((urls) => urls.length > 0);
+};
+
+/** Saved sessions, newest first; folders added by hand under "NEXX Sessions" count as well. */
+export const listSessions = async (): Promise<TabSession[]> => {
+  const sessionsFolder = await findSessionsFolder();
+  if (!sessionsFolder) return [];
+  const [[tree], records] = await Promise.all([chrome.bookmarks.getSubTree(sessionsFolder.id), loadSessionRecords()]);
+  const recordByFolder = new Map(records.map((record) => [record.nodeId, record]));
+  return (tree.children ?? [])
+    .filter((child) => !child.url)
+    .map((folder) => {
+      const record = recordByFolder.get(folder.id);
+      const windows = windowsOf(folder);
+      return {
+        folderId: folder.id,
+        title: folder.title,
+        note: record?.note ?? "",
+        createdAt: record?.createdAt ?? folder.dateAdded ?? 0,
+        windows,
+        tabCount: windows.flat().length,
+      };
+    })
+    .sort((a, b) => b.createdAt - a.createdAt);
+};
+
+/** Opens each window of a session as a new window; with `dedupe`, addresses already open in a tab are left out. */
+export const restoreSession = async (session: TabSession, dedupe: boolean): Promise<RestoreSessionResult> => {
+  const open = dedupe ? new Set((await chrome.tabs.query({})).map((tab) => tab.url)) : new Set<string>();
+  let opened = 0;
+  let skipped = 0;
+  for (const urls of session.windows) {
+    const remaining = urls.filter((url) => !open.has(url));
+    skipped += urls.length - remaining.length;
+    if (!remaining.length) continue;
+    await chrome.windows.create({ url: remaining, focused: true });
+    opened += remaining.length;
+  }
+  return { opened, skipped };
+};
+
+/** Deletes the session folder with its bookmarks, and its record. */
+export const deleteSession = async (session: TabSession) => {
+  await chrome.bookmarks.removeTree(session.folderId);
+  for (const record of await loadSessionRecords()) {
+    if (record.nodeId === session.folderId) await bookmarksDB.deleteItem(record.id);
+  }
+};
@@ -0,0 +1,89 @@
+import { bookmarksDB } from "../settings/settingsDb";
+
+// Tile boards ("spaces"): named grids, each with its own tiles, order, size and view preferences.
+// Board records live in the bookmarks store next to the tiles, so sync and backups carry them unchanged;
+// having no `position`, they stay out of the grid's position index. A tile without `boardId` is on the
+// default board, which is where every tile saved before boards existed still is.
+// Like tile edits, board edits leave scheduling the sync push to the caller.
+
+export const GROUPING_TYPES = ["none", "alphabetical", "type", "opened"] as const;
+export const SORT_TYPES = ["default", "name-asc", "name-desc", "type", "most-used", "recently-opened"] as const;
+export type GroupingType = (typeof GROUPING_TYPES)[number];
+export type SortType = (typeof SORT_TYPES)[number];
+
+export const isGroupingType = (value: unknown): value is GroupingType => GROUPING_TYPES.includes(value as GroupingType);
+export const isSortType = (value: unknown): value is SortType => SORT_TYPES.includes(value as SortType);
+
+export const BOARD_RECORD_TYPE = "board";
+export const DEFAULT_BOARD_ID = "board-default";
+export const MIN_BOARD_TILES = 10;
+export const MAX_BOARD_TILES = 100;
+// Which board this device shows is a local choice, like the open settings section; it does not sync.
+const ACTIVE_BOARD_KEY = "nexx_active_board";
+
+export interface TileBoard {
+  id: string;
+  type: typeof BOARD_RECORD_TYPE;
+  /** Empty for the default board until the user renames it. */
+  title: string;
+  order: number;
+  /** The global tile count when unset. */
+  tileNumber?: number;
+  groupingType?: GroupingType;
+  sortType?: SortType;
+  /** Same format as localStorage `selectedBackground`; the global background when unset. */
+  background?: string;
+  createdAt: number;
+  updatedAt?: number;
+}
+
+interface BoardTile {
+  id: string;
+  type: string;
+  position: number;
+  boardId?: string;
+}
+
+export const isBoardRecord = (record: object): record is TileBoard =>
+  (record as { type?: unknown }).type === BOARD_RECORD_TYPE;
+
+export const tileBoardId = (tile: { boardId?: string }): string => tile.boardId ?? DEFAULT_BOARD_ID;
+
+const defaultBoard = (): TileBoard => ({ id: DEFAULT_BOARD_ID, type: BOARD_RECORD_TYPE, title: "", order: 0, createdAt: 0 });
+
+/** Every board in display order; the default board is always first, stored or not. */
+export const listBoards = async (): Promise<TileBoard[]> => {
+  const records = await bookmarksDB.getAllItems<object>();
+  const boards = records.filter(isBoardRecord);
+  const stored = boards.find((board) => board.id === DEFAULT_BOARD_ID);
+  const others = boards.filter((board) => board.id !== DEFAULT_BOARD_ID).sort((a, b) => a.order - b.order);
+  return [stored ?? defaultBoard(), ...others];
+};
+
+/** One board's tiles, ordered by position. */
+export const loadBoardTiles = async <T extends BoardTile>(boardId: string): Promise<T[]> =>
+  (await bookmarksDB.queryIndex<T>("position")).filter((tile) => tileBoardId(tile) === boardId);
+
+export const saveBoard = async (board: TileBoard) => {
+  await bookmarksDB.saveItem(board);
+};
+
+export const createBoard = async (title: string, order: number): Promise<TileBoard> => {
+  const board: TileBoard = { id: crypto.randomUUID(), type: BOARD_RECORD_TYPE, title, order, createdAt: Date.now() };
+  await saveBoard(board);
+  return board;
+};
+
+/** Removes a board and its tiles; the default board cannot be deleted. */
+export const deleteBoard = async (boardId: string) => {
+  if (boardId === DEFAULT_BOARD_ID) return;
+  const tiles = await loadBoardTiles(boardId);
+  for (const tile of tiles) await bookmarksDB.deleteItem(tile.id);
+  await bookmarksDB.deleteItem(boardId);
+};
+
+export const getActiveBoardId = (): string => localStorage.getItem(ACTIVE_BOARD_KEY) ?? DEFAULT_BOARD_ID;
+
+export const setActiveBoardId = (boardId: string) => {
+  localStorage.setItem(ACTIVE_BOARD_KEY, boardId);
+};
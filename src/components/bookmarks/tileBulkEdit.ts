@@ -0,0 +1,93 @@
+import { bookmarksDB } from "../settings/settingsDb";
+import { tileBoardId } from "./tileBoards";
+
+// Edits applied to several selected tiles at once. Each one returns the records as they were before, so the
+// whole operation can be undone in one step. Callers schedule the sync push.
+
+export interface BulkTile {
+  id: string;
+  type: string;
+  nodeId: string;
+  title: string;
+  url?: string;
+  tileColor: string;
+  tileIcon: string;
+  position: number;
+  boardId?: string;
+  createdAt: number;
+  updatedAt?: number;
+}
+
+export type BulkAction = "color" | "icon" | "clear" | "move" | "reminder" | "readLater";
+
+export interface BulkUndo<T extends BulkTile = BulkTile> {
+  action: BulkAction;
+  count: number;
+  /** Tile records as they were before the operation. */
+  before: T[];
+  /** Reminders the operation added. */
+  reminderIds: string[];
+}
+
+/** Tiles of a selection between two grid indexes (either order), skipping empty slots. */
+export const tilesInRange = <T extends BulkTile>(tiles: (T | null)[], from: number, to: number): T[] =>
+  tiles.slice(Math.min(from, to), Math.max(from, to) + 1).filter((tile) => tile !== null);
+
+export const recolorTiles = async <T extends BulkTile>(tiles: T[], tileColor: string): Promise<BulkUndo<T>> => {
+  await bookmarksDB.bulkPut(tiles.map((tile) => ({ ...tile, tileColor })));
+  return { action: "color", count: tiles.length, before: tiles, reminderIds: [] };
+};
+
+export const setTilesIcon = async <T extends BulkTile>(tiles: T[], tileIcon: string): Promise<BulkUndo<T>> => {
+  await bookmarksDB.bulkPut(tiles.map((tile) => ({ ...tile, tileIcon })));
+  return { action: "icon", count: tiles.length, before: tiles, reminderIds: [] };
+};
+
+export const clearTiles = async <T extends BulkTile>(tiles: T[]): Promise<BulkUndo<T>> => {
+  for (const tile of tiles) await bookmarksDB.deleteItem(tile.id);
+  return { action: "clear", count: tiles.length, before: tiles, reminderIds: [] };
+};
+
+// Free positions of a board below `capacity`, lowest first, ignoring the tiles in `leaving`
+const freePositions = async (boardId: string, capacity: number, leaving: Set<string> = new Set()): Promise<number[]> => {
+  const taken = new Set(
+    (await bookmarksDB.queryIndex<BulkTile>("position"))
+      .filter((tile) => tileBoardId(tile) === boardId && !leaving.has(tile.id))
+      .map((tile) => tile.position),
+  );
+  return Array.from({ length: capacity }, (_, position) => position).filter((position) => !taken.has(position));
+};
+
+/** Moves tiles into the first free slots of another board, in grid order; tiles that don't fit stay where they are. */
+export const moveTilesToBoard = async <T extends BulkTile>(tiles: T[], boardId: string, capacity: number): Promise<BulkUndo<T>> => {
+  const free = await freePositions(boardId, capacity);
+  const moving = [...tiles].sort((a, b) => a.position - b.position).slice(0, free.length);
+  await bookmarksDB.bulkPut(moving.map((tile, index) => ({ ...tile, boardId, position: free[index] })));
+  return { action: "move", count: moving.length, before: moving, reminderIds: [] };
+};
+
+/**
+ * Puts the records back as they were. A tile whose old slot has since been taken goes to the first free slot of
+ * its board; `capacityOf` gives a board's tile count. Tiles with no free slot left are not restored.
+ */
+export const restoreTiles = async <T extends BulkTile>(before: T[], capacityOf: (boardId: string) => number): Promise<void> => {
+  const restoring = new Set(before.map((tile) => tile.id));
+  const freeByBoard = new Map<string, Set<number>>();
+  for (const boardId of new Set(before.map(tileBoardId))) {
+    freeByBoard.set(boardId, new Set(await freePositions(boardId, capacityOf(boardId), restoring)));
+  }
+  // Tiles whose slot is still free get it back before the others fill the gaps
+  const [kept, displaced] = [true, false].map((fits) =>
+    before.filter((tile) => freeByBoard.get(tileBoardId(tile))?.has(tile.position) === fits),
+  );
+  kept.forEach((tile) => freeByBoard.get(tileBoardId(tile))?.delete(tile.position));
+  const restored: T[] = [...kept];
+  for (const tile of displaced) {
+    const free = freeByBoard.get(tileBoardId(tile));
+    const [slot] = free ?? [];
+    if (slot === undefined) continue;
+    free?.delete(slot);
+    restored.push({ ...tile, position: slot });
+  }
+  await bookmarksDB.bulkPut(restored);
+};
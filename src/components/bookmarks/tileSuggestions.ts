@@ -0,0 +1,140 @@
+import { bookmarksDB } from "../settings/settingsDb";
+
+// "Suggest tiles": often visited sites from chrome.topSites, and from chrome.history when allowed, that no
+// tile points at yet. It is opt-in, and both permissions are optional ones asked for when it is turned on.
+// Sites are compared by host, so a site that is pinned or was dismissed is not suggested for any of its pages.
+
+export interface TileSuggestionSettings {
+  enabled: boolean;
+  includeHistory: boolean;
+  /** Folder new bookmarks are created in; the first top-level folder when unset. */
+  folderId: string | null;
+  /** Hosts never to suggest again. */
+  dismissed: string[];
+}
+
+export type SuggestionSource = "topSites" | "history";
+
+export interface TileSuggestion {
+  host: string;
+  url: string;
+  title: string;
+  source: SuggestionSource;
+  /** Visits over the history window; history suggestions only. */
+  visits?: number;
+}
+
+export const TILE_SUGGESTIONS_KEY = "nexx_tile_suggestions";
+
+export const DEFAULT_TILE_SUGGESTION_SETTINGS: TileSuggestionSettings = {
+  enabled: false,
+  includeHistory: false,
+  folderId: null,
+  dismissed: [],
+};
+
+const MAX_SUGGESTIONS = 24;
+const HISTORY_DAYS = 30;
+const HISTORY_MAX_ITEMS = 2000;
+// A host needs this many visits in the window before history suggests it
+const MIN_HISTORY_VISITS = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const getTileSuggestionSettings = (): TileSuggestionSettings => {
+  try {
+    const raw = localStorage.getItem(TILE_SUGGESTIONS_KEY);
+    if (!raw) return { ...DEFAULT_TILE_SUGGESTION_SETTINGS };
+    return { ...DEFAULT_TILE_SUGGESTION_SETTINGS, ...JSON.parse(raw) };
+  } catch {
+    return { ...DEFAULT_TILE_SUGGESTION_SETTINGS };
+  }
+};
+
+export const setTileSuggestionSettings = (settings: Partial<TileSuggestionSettings>) => {
+  const next = { ...getTileSuggestionSettings(), ...settings };
+  localStorage.setItem(TILE_SUGGESTIONS_KEY, JSON.stringify(next));
+  return next;
+};
+
+const suggestionPermissions = (includeHistory: boolean): chrome.runtime.ManifestPermissions[] =>
+  includeHistory ? ["topSites", "history"] : ["topSites"];
+
+/** Asks for the permissions the settings need; call from the click that turns suggestions on. */
+export const requestSuggestionPermissions = (includeHistory: boolean): Promise<boolean> =>
+  chrome.permissions.request({ permissions: suggestionPermissions(includeHistory) });
+
+export const hasSuggestionPermissions = (includeHistory: boolean): Promise<boolean> =>
+  chrome.permissions.contains({ permissions: suggestionPermissions(includeHistory) });
+
+/** Host of a web page without `www.`; empty for anything that is not http(s). */
+export const siteKey = (url?: string): string => {
+  if (!url) return "";
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") return "";
+    return parsed.hostname.toLowerCase().replace(/^www\./, "");
+  } catch {
+    return "";
+  }
+};
+
+const readTopSites = async (): Promise<TileSuggestion[]> =>
+  (await chrome.topSites.get()).map((site) => ({
+    host: siteKey(site.url),
+    url: site.url,
+    title: site.title || siteKey(site.url),
+    source: "topSites",
+  }));
+
+// History is per page; visits are added up per host, and the site's front page is what gets suggested
+const readHistorySites = async (): Promise<TileSuggestion[]> => {
+  const items = await chrome.history.search({
+    text: "",
+    startTime: Date.now() - HISTORY_DAYS * DAY_MS,
+    maxResults: HISTORY_MAX_ITEMS,
+  });
+  const sites = new Map<string, TileSuggestion>();
+  for (const item of items) {
+    const host = siteKey(item.url);
+    if (!host || !item.url) continue;
+    const site = sites.get(host) ?? { host, url: `${new URL(item.url).origin}/`, title: host, source: "history", visits: 0 };
+    site.visits = (site.visits ?? 0) + (item.visitCount ?? 0);
+    if (new URL(item.url).pathname === "/" && item.title) site.title = item.title;
+    sites.set(host, site);
+  }
+  return [...sites.values()]
+    .filter((site) => (site.visits ?? 0) >= MIN_HISTORY_VISITS)
+    .sort((a, b) => (b.visits ?? 0) - (a.visits ?? 0));
+};
+
+/** Top sites first, in Chrome's order, then the most visited hosts from history; pinned and dismissed hosts left out. */
+export const loadTileSuggestions = async (settings: TileSuggestionSettings): Promise<TileSuggestion[]> => {
+  const [tiles, topSites, historySites] = await Promise.all([
+    bookmarksDB.queryIndex<{ url?: string }>("position"),
+    readTopSites(),
+    settings.includeHistory ? readHistorySites() : Promise.resolve([]),
+  ]);
+  const seen = new Set([...settings.dismissed, ...tiles.map((tile) => siteKey(tile.url))]);
+  const suggestions: TileSuggestion[] = [];
+  for (const suggestion of [...topSites, ...historySites]) {
+    if (!suggestion.host || seen.has(suggestion.host)) continue;
+    seen.add(suggestion.host);
+    suggestions.push(suggestion);
+    if (suggestions.length === MAX_SUGGESTIONS) break;
+  }
+  return suggestions;
+};
+
+export const dismissSuggestion = (host: string) => {
+  const settings = getTileSuggestionSettings();
+  return setTileSuggestionSettings({ dismissed: [...new Set([...settings.dismissed, host])] });
+};
+
+/** The bookmark a suggestion becomes: an existing bookmark of the same address, else a new one in `folderId`. */
+export const bookmarkSuggestion = async (
+  suggestion: TileSuggestion,
+  folderId: string
+): Promise<chrome.bookmarks.BookmarkTreeNode> => {
+  const [existing] = await chrome.bookmarks.search({ url: suggestion.url });
+  return existing ?? chrome.bookmarks.create({ parentId: folderId, title: suggestion.title, url: suggestion.url });
+};
@@ -0,0 +1,23 @@
+import { useEffect, useState } from "react";
+import { searchBookmarksIncrementally, type BookmarkSearch, type IncrementalSearchProgress, type SearchableNode } from "./bookmarkSearch";
+
+const IDLE = { results: [], total: 0, done: true };
+
+/** Best `limit` matches of `search` in the tree under `nodes`, updated as the slices come in; idle while `search` is null. */
+export function useIncrementalBookmarkSearch<T extends SearchableNode>(
+  search: BookmarkSearch | null,
+  nodes: T[],
+  limit: number
+): IncrementalSearchProgress<T> {
+  const [progress, setProgress] = useState<IncrementalSearchProgress<T>>(IDLE);
+
+  useEffect(() => {
+    if (!search) {
+      setProgress(IDLE);
+      return;
+    }
+    return searchBookmarksIncrementally(search, nodes, limit, setProgress);
+  }, [search, nodes, limit]);
+
+  return progress;
+}
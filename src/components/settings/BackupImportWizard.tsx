@@ -0,0 +1,174 @@
+import React, { useState } from "react";
+import { FileUp } from "lucide-react";
+import { useI18n } from "../../i18n/LanguageProvider";
+import type { Backup } from "./backupFormat";
+import {
+  applyImport,
+  defaultImportModes,
+  summarizeImport,
+  type ImportMode,
+  type ImportModes,
+  type ImportPreview,
+  type SettingsImportMode,
+} from "./backupImport";
+import { SYNC_COLLECTIONS } from "./syncDomains";
+
+const COLLECTION_MODES: ImportMode[] = ["merge", "replace", "skip"];
+const SETTINGS_MODES: SettingsImportMode[] = ["replace", "skip"];
+
+interface BackupImportWizardProps {
+  backup: Backup;
+  preview: ImportPreview;
+  onCancel: () => void;
+}
+
+/** Shows how a backup differs from this device, lets the user pick replace / merge / skip per collection, then a dry run. */
+export const BackupImportWizard: React.FC<BackupImportWizardProps> = ({ backup, preview, onCancel }) => {
+  const { t } = useI18n();
+  const [modes, setModes] = useState<ImportModes>(() => defaultImportModes(preview));
+  const [step, setStep] = useState<"choose" | "review">("choose");
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const exportedAt = new Date(backup.exportedAt);
+  const outcomes = SYNC_COLLECTIONS.map((name) => ({ name, ...summarizeImport(preview.collections[name], modes.collections[name]) }));
+  const deletedTotal = outcomes.reduce((sum, outcome) => sum + outcome.deleted, 0);
+  const nothingToDo = outcomes.every((outcome) => outcome.mode === "skip") && modes.settings === "skip";
+
+  const runImport = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await applyImport(backup, preview, modes);
+      alert(t("settings.importSuccess"));
+      window.location.reload();
+    } catch (importError) {
+      setError(importError instanceof Error ? importError.message : String(importError));
+      setIsBusy(false);
+    }
+  };
+
+  const modeButtons = <M extends string>(options: M[], current: M, onSelect: (mode: M) => void, disabled = false) => (
+    <div className="settings-toggle-group settings-toggle-group--compact">
+      {options.map((mode) => (
+        <button
+          key={mode}
+          type="button"
+          className={`settings-toggle-btn ${current === mode ? "settings-toggle-btn--active" : ""}`}
+          onClick={() => onSelect(mode)}
+          disabled={disabled}
+        >
+          {t(`settings.backupImport.modes.${mode}`)}
+        </button>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="settings-card">
+      <h3 className="settings-card-title">{t("settings.backupImport.title")}</h3>
+      <p className="settings-card-desc">
+        {Number.isNaN(exportedAt.getTime())
+          ? t("settings.backupImport.description")
+          : t("settings.backupImport.descriptionWithDate", { date: exportedAt.toLocaleString() })}
+      </p>
+
+      {step === "choose" && (
+        <>
+          {SYNC_COLLECTIONS.map((name) => {
+            const collection = preview.collections[name];
+            return (
+              <div key={name} className="settings-row settings-row--toggle">
+                <div className="settings-toggle-copy">
+                  <span className="settings-label">{t(`settings.sync.collections.${name}`)}</span>
+                  <span className="settings-card-desc">
+                    {collection.inFile
+                      ? t("settings.backupImport.counts", {
+                          added: collection.added.length,
+                          changed: collection.changed.length,
+                          newer: collection.newerInFile.length,
+                          identical: collection.identical,
+                          missing: collection.missing.length,
+                        })
+                      : t("settings.backupImport.notInFile")}
+                  </span>
+                </div>
+                {modeButtons(
+                  COLLECTION_MODES,
+                  modes.collections[name],
+                  (mode) => setModes({ ...modes, collections: { ...modes.collections, [name]: mode } }),
+                  !collection.inFile,
+                )}
+              </div>
+            );
+          })}
+          <div className="settings-row settings-row--toggle">
+            <div className="settings-toggle-copy">
+              <span className="settings-label">{t("settings.sync.collections.preferences")}</span>
+              <span className="settings-card-desc">
+                {t("settings.backupImport.settingsCount", { count: preview.changedSettings })}
+              </span>
+            </div>
+            {modeButtons(SETTINGS_MODES, modes.settings, (mode) => setModes({ ...modes, settings: mode }))}
+          </div>
+          <p className="settings-sync-meta">{t("settings.backupImport.modesHelp")}</p>
+          <div className="settings-data-actions">
+            <button type="button" className="settings-data-btn settings-action-btn" onClick={onCancel}>
+              {t("settings.backupImport.cancel")}
+            </button>
+            <button type="button" className="settings-data-btn settings-action-btn" onClick={() => setStep("review")}>
+              {t("settings.backupImport.review")}
+            </button>
+          </div>
+        </>
+      )}
+
+      {step === "review" && (
+        <>
+          <ul className="settings-sync-usage-list">
+            {outcomes.map((outcome) => (
+              <li key={outcome.name}>
+                <span>{t(`settings.sync.collections.${outcome.name}`)}</span>
+                <span>
+                  {outcome.mode === "skip"
+                    ? t("settings.backupImport.unchanged", { total: outcome.total })
+                    : t("settings.backupImport.outcome", {
+                        mode: t(`settings.backupImport.modes.${outcome.mode}`),
+                        written: outcome.written,
+                        deleted: outcome.deleted,
+                        total: outcome.total,
+                      })}
+                </span>
+              </li>
+            ))}
+            <li>
+              <span>{t("settings.sync.collections.preferences")}</span>
+              <span>
+                {t(modes.settings === "replace" ? "settings.backupImport.settingsRestored" : "settings.backupImport.settingsKept")}
+              </span>
+            </li>
+          </ul>
+          {deletedTotal > 0 && (
+            <p className="settings-sync-warning">{t("settings.backupImport.deleteWarning", { count: deletedTotal })}</p>
+          )}
+          <div className="settings-data-actions">
+            <button type="button" className="settings-data-btn settings-action-btn" onClick={() => setStep("choose")} disabled={isBusy}>
+              {t("settings.backupImport.back")}
+            </button>
+            <button
+              type="button"
+              className="settings-data-btn settings-data-btn--import"
+              onClick={runImport}
+              disabled={isBusy || nothingToDo}
+            >
+              <FileUp className="w-4 h-4" />
+              {t("settings.backupImport.import")}
+            </button>
+          </div>
+        </>
+      )}
+
+      {error && <p className="settings-sync-error">{error}</p>}
+    </div>
+  );
+};
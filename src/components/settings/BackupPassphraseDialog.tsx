@@ -0,0 +1,63 @@
+import React, { useState } from "react";
+import { Unlock } from "lucide-react";
+import { useI18n } from "../../i18n/LanguageProvider";
+
+interface BackupPassphraseDialogProps {
+  /** Resolves false when the passphrase does not open the backup. */
+  onSubmit: (passphrase: string) => Promise<boolean>;
+  onCancel: () => void;
+}
+
+/** Asks for the passphrase of an encrypted backup that the sync key does not open. */
+export const BackupPassphraseDialog: React.FC<BackupPassphraseDialogProps> = ({ onSubmit, onCancel }) => {
+  const { t } = useI18n();
+  const [passphrase, setPassphrase] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsBusy(true);
+    setError(null);
+    try {
+      if (!(await onSubmit(passphrase))) setError(t("settings.encryption.wrongPassphrase"));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="settings-dialog-overlay" onClick={onCancel}>
+      <form
+        className="settings-card settings-dialog"
+        onSubmit={submit}
+        onClick={(event) => event.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-label={t("settings.encryption.backupTitle")}
+      >
+        <h3 className="settings-card-title">{t("settings.encryption.backupTitle")}</h3>
+        <p className="settings-card-desc">{t("settings.encryption.backupPassphrase")}</p>
+        <input
+          type="password"
+          autoComplete="current-password"
+          value={passphrase}
+          onChange={(event) => setPassphrase(event.target.value)}
+          placeholder={t("settings.encryption.passphrase")}
+          className="settings-input"
+          autoFocus
+        />
+        {error && <p className="settings-sync-error">{error}</p>}
+        <div className="settings-data-actions">
+          <button type="button" className="settings-data-btn settings-action-btn" onClick={onCancel}>
+            {t("settings.encryption.cancel")}
+          </button>
+          <button type="submit" className="settings-data-btn settings-action-btn" disabled={isBusy || !passphrase}>
+            <Unlock className="w-4 h-4" />
+            {t("settings.encryption.openBackup")}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,183 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import Select from "react-select";
+import { Download, FileUp } from "lucide-react";
+import { useI18n } from "../../i18n/LanguageProvider";
+import { useCalendar } from "./CalendarContext";
+import { createSettingsSelectStyles, type SelectOption } from "./selectTheme";
+import {
+  downloadBookmarks,
+  importBookmarks,
+  listBookmarkFolders,
+  parseNetscapeHtml,
+  readBookmarkFolder,
+  readTileBoard,
+  type BookmarkFolderOption,
+  type ExchangeFormat,
+} from "../bookmarks/bookmarkExchange";
+import { getActiveBoardId, listBoards, type TileBoard } from "../bookmarks/tileBoards";
+
+const FORMATS: ExchangeFormat[] = ["html", "markdown", "json"];
+// Board sources are `board:<id>`; anything else is a Chrome folder id.
+const BOARD_SOURCE_PREFIX = "board:";
+
+interface BookmarkExchangeCardProps {
+  selectPortal: HTMLElement | null;
+}
+
+/** Exports a bookmark folder or a tile board as HTML / Markdown / JSON, and imports Netscape bookmark files into a folder. */
+export const BookmarkExchangeCard: React.FC<BookmarkExchangeCardProps> = ({ selectPortal }) => {
+  const { t } = useI18n();
+  const { tileNumber, textColor, backgroundColor } = useCalendar();
+  const selectStyles = useMemo(() => createSettingsSelectStyles(textColor, backgroundColor), [textColor, backgroundColor]);
+  const [folders, setFolders] = useState<BookmarkFolderOption[]>([]);
+  const [boards, setBoards] = useState<TileBoard[]>([]);
+  const [source, setSource] = useState(() => `${BOARD_SOURCE_PREFIX}${getActiveBoardId()}`);
+  const [format, setFormat] = useState<ExchangeFormat>("html");
+  const [target, setTarget] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [result, setResult] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadFolders = () =>
+    listBookmarkFolders()
+      .then((list) => {
+        setFolders(list);
+        setTarget((current) => current ?? list[0]?.id ?? null);
+      })
+      .catch((loadError) => console.warn("[nexx-bookmarks] failed to list folders:", loadError));
+
+  useEffect(() => {
+    loadFolders();
+    listBoards()
+      .then(setBoards)
+      .catch((loadError) => console.warn("[nexx-bookmarks] failed to list boards:", loadError));
+  }, []);
+
+  const boardName = (board: TileBoard) => board.title || t("bookmarks.boards.defaultName");
+  const folderOptions: SelectOption[] = folders.map((folder) => ({ value: folder.id, label: folder.path }));
+  const sourceOptions: SelectOption[] = [
+    ...boards.map((board) => ({
+      value: `${BOARD_SOURCE_PREFIX}${board.id}`,
+      label: t("settings.bookmarkExchange.tileBoard", { name: boardName(board) }),
+    })),
+    ...folderOptions,
+  ];
+
+  const run = async (task: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    setResult(null);
+    try {
+      await task();
+    } catch (taskError) {
+      setError(taskError instanceof Error ? taskError.message : String(taskError));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleExport = () =>
+    run(async () => {
+      const board = boards.find((candidate) => source === `${BOARD_SOURCE_PREFIX}${candidate.id}`);
+      const root = board
+        ? await readTileBoard(board.id, t("settings.bookmarkExchange.tileBoard", { name: boardName(board) }))
+        : await readBookmarkFolder(source);
+      const date = new Date().toISOString().slice(0, 10);
+      downloadBookmarks(root, format, board ? `nexx-tab-tiles-${date}` : `nexx-tab-bookmarks-${date}`);
+    });
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file || !target) return;
+    run(async () => {
+      const nodes = parseNetscapeHtml(await file.text());
+      if (!nodes.length) throw new Error(t("settings.bookmarkExchange.emptyFile"));
+      // Tiles in the file go on the board this device shows
+      const board = boards.find((candidate) => candidate.id === getActiveBoardId()) ?? boards[0];
+      const imported = await importBookmarks(nodes, target, board, board.tileNumber ?? tileNumber);
+      setResult(
+        [
+          t("settings.bookmarkExchange.imported", { bookmarks: imported.bookmarks, folders: imported.folders }),
+          imported.tiles ? t("settings.bookmarkExchange.tilesPlaced", { count: imported.tiles }) : "",
+          imported.tilesSkipped ? t("settings.bookmarkExchange.tilesSkipped", { count: imported.tilesSkipped }) : "",
+        ]
+          .filter(Boolean)
+          .join(" "),
+      );
+      await loadFolders();
+    });
+  };
+
+  return (
+    <div className="settings-card">
+      <h3 className="settings-card-title">{t("settings.bookmarkExchange.title")}</h3>
+      <p className="settings-card-desc">{t("settings.bookmarkExchange.description")}</p>
+
+      <div className="settings-row">
+        <span className="settings-label">{t("settings.bookmarkExchange.source")}</span>
+        <Select
+          unstyled
+          classNamePrefix="settings-select"
+          value={sourceOptions.find((option) => option.value === source)}
+          options={sourceOptions}
+          menuPortalTarget={selectPortal ?? document.body}
+          menuPosition="fixed"
+          menuPlacement="auto"
+          styles={selectStyles}
+          onChange={(option) => option && setSource(option.value)}
+        />
+      </div>
+      <div className="settings-toggle-group">
+        {FORMATS.map((option) => (
+          <button
+            key={option}
+            type="button"
+            className={`settings-toggle-btn ${format === option ? "settings-toggle-btn--active" : ""}`}
+            onClick={() => setFormat(option)}
+          >
+            {t(`settings.bookmarkExchange.formats.${option}`)}
+          </button>
+        ))}
+      </div>
+      <div className="settings-data-actions">
+        <button type="button" className="settings-data-btn settings-data-btn--export" onClick={handleExport} disabled={isBusy}>
+          <Download className="w-4 h-4" />
+          {t("settings.bookmarkExchange.export")}
+        </button>
+      </div>
+
+      <div className="settings-row">
+        <span className="settings-label">{t("settings.bookmarkExchange.target")}</span>
+        <Select
+          unstyled
+          classNamePrefix="settings-select"
+          value={folderOptions.find((option) => option.value === target) ?? null}
+          options={folderOptions}
+          menuPortalTarget={selectPortal ?? document.body}
+          menuPosition="fixed"
+          menuPlacement="auto"
+          styles={selectStyles}
+          onChange={(option) => option && setTarget(option.value)}
+        />
+      </div>
+      <div className="settings-data-actions">
+        <button
+          type="button"
+          className="settings-data-btn settings-data-btn--import"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isBusy || !target}
+        >
+          <FileUp className="w-4 h-4" />
+          {t("settings.bookmarkExchange.import")}
+        </button>
+        <input type="file" ref={fileInputRef} accept=".html,.htm" onChange={handleImport} className="hidden" />
+      </div>
+      <p className="settings-sync-meta">{t("settings.bookmarkExchange.importHelp")}</p>
+
+      {result && <p className="settings-sync-meta">{result}</p>}
+      {error && <p className="settings-sync-error">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Trash2 } from "lucide-react";
+import { useI18n } from "../../i18n/LanguageProvider";
+import { subscribeDataChanges } from "../IndexedDatabase/changeBus";
+import { STORES } from "../IndexedDatabase/schema";
+import {
+  FAVICON_TTL_MS,
+  MAX_FAVICON_BYTES,
+  MAX_FAVICON_ENTRIES,
+  getFaviconCacheStats,
+  purgeFaviconCache,
+  type FaviconCacheStats,
+} from "../bookmarks/faviconCache";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatKb = (bytes: number) => (bytes / 1024).toFixed(1);
+
+/** Size of the favicon cache, its refresh and eviction policy, and a button to empty it. */
+export const FaviconCacheCard: React.FC = () => {
+  const { t } = useI18n();
+  const [stats, setStats] = useState<FaviconCacheStats | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const loadStats = useCallback(() => {
+    getFaviconCacheStats()
+      .then(setStats)
+      .catch((loadError) => console.warn("[nexx-favicons] failed to read cache size:", loadError));
+  }, []);
+
+  useEffect(() => {
+    loadStats();
+    return subscribeDataChanges([STORES.favicons], loadStats);
+  }, [loadStats]);
+
+  const purge = async () => {
+    if (!confirm(t("settings.favicons.purgeConfirm"))) return;
+    setIsBusy(true);
+    try {
+      await purgeFaviconCache();
+      loadStats();
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="settings-card">
+      <h3 className="settings-card-title">{t("settings.favicons.title")}</h3>
+      <p className="settings-card-desc">
+        {t("settings.favicons.description", {
+          days: FAVICON_TTL_MS / DAY_MS,
+          entries: MAX_FAVICON_ENTRIES,
+          mb: MAX_FAVICON_BYTES / (1024 * 1024),
+        })}
+      </p>
+
+      {stats && <p className="settings-sync-meta">{t("settings.favicons.usage", { count: stats.entries, size: formatKb(stats.bytes) })}</p>}
+
+      <div className="settings-data-actions">
+        <button type="button" className="settings-data-btn settings-action-btn" onClick={() => void purge()} disabled={isBusy || !stats?.entries}>
+          <Trash2 className="w-4 h-4" />
+          {t("settings.favicons.purge")}
+        </button>
+      </div>
+    </div>
+  );
+};
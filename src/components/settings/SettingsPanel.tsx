@@ -30,16 +30,27 @@ import {
 } from "../ThemeProvider";
 import { useCalendar, DayOfWeek } from "./CalendarContext";
 import { DEFAULT_BACKGROUNDS, COLOR_OPTIONS } from "./defaultBackgrounds";
-import { backgroundsDB, bookmarksDB, tasksDB, alarmsDB, bookmarkRemindersDB } from "./settingsDb";
+import { backgroundsDB } from "./settingsDb";
 import { scheduleSyncPush } from "./settingsSync";
-import { generateThumbnail, isDataUrl, processImageUrl, parseStoredBackground, resolveBackgroundUrl } from "./backgroundUtils";
+import { SyncStatusPanel } from "./SyncStatusPanel";
+import { SyncDomainsCard } from "./SyncDomainsCard";
+import { SyncBackendCard } from "./SyncBackendCard";
+import { SyncEncryptionCard } from "./SyncEncryptionCard";
+import { getSyncKey, isEncryptedBackup, openBackup, type EncryptedBackup } from "./syncCrypto";
+import { createBackup, downloadBackup, parseBackup, type Backup, type BackupIssue } from "./backupFormat";
+import { previewImport, type ImportPreview } from "./backupImport";
+import { BackupImportWizard } from "./BackupImportWizard";
+import { BackupPassphraseDialog } from "./BackupPassphraseDialog";
+import { SnapshotsCard } from "./SnapshotsCard";
+import { BookmarkExchangeCard } from "./BookmarkExchangeCard";
+import { FaviconCacheCard } from "./FaviconCacheCard";
+import { generateThumbnail, isDataUrl, processImageUrl, resolveBackgroundUrl } from "./backgroundUtils";
 import { buildThemeVars, withAlpha, applyThemeVarsToElement, SETTINGS_SELECT_PORTAL_ID } from "./themeUtils";
 import { createSettingsSelectStyles } from "./selectTheme";
 import { THEME_PRESETS, colorsMatch } from "./themePresets";
 import type { SettingsSection, StoredBackground } from "./types";
 import {
   getPetModeSettings,
-  normalizePetModeSettings,
   setPetModeSettings,
   subscribePetModeSettings,
 } from "../../features/corgi";
@@ -65,7 +76,18 @@ interface EmojiOption {
   label: string;
 }
 
+interface ImportReport {
+  summary: string;
+  issues: BackupIssue[];
+}
+
+interface PendingImport {
+  backup: Backup;
+  preview: ImportPreview;
+}
+
 const ALL_DAYS: DayOfWeek[] = ["Saturday", "Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday"];
+const VISIBLE_IMPORT_ISSUES = 50;
 
 const ColorPickerField: React.FC<{
   label: string;
@@ -184,6 +206,10 @@ export const Settings: React.FC<SettingsProps> = ({ onSelectBackground, storageK
   const [bgTab, setBgTab] = useState<"images" | "colors">("images");
   const [urlInput, setUrlInput] = useState("");
   const [isBusy, setIsBusy] = useState(false);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  // An encrypted backup the sync key did not open, waiting for its passphrase
+  const [lockedBackup, setLockedBackup] = useState<EncryptedBackup | null>(null);
   const [savedBackgrounds, setSavedBackgrounds] = useState<StoredBackground[]>([]);
   const [selectedBgId, setSelectedBgId] = useState<string | null>(null);
   const [selectPortal, setSelectPortal] = useState<HTMLElement | null>(null);
@@ -202,7 +228,6 @@ export const Settings: React.FC<SettingsProps> = ({ onSelectBackground, storageK
     customThemes,
     saveCustomTheme,
     deleteCustomTheme,
-    setCustomThemes,
   } = useTheme();
   const {
     calendarType,
@@ -424,58 +449,38 @@ export const Settings: React.FC<SettingsProps> = ({ onSelectBackground, storageK
   const handleExportData = useCallback(async () => {
     setIsBusy(true);
     try {
-      const exportObj = {
-        version: "1.1",
-        exportDate: new Date().toISOString(),
-        settings: {
-          calendarType,
-          tileNumber,
-          firstDayOfWeek,
-          weekendDays,
-          weekendColor,
-          textColor,
-          backgroundColor,
-          textOutlineColor,
-          fontSizeRatio,
-          customThemes,
-          language,
-          selectedBackground: localStorage.getItem(storageKey),
-          corgiMode: petSettings.enabled,
-          petModeSettings: petSettings,
-        },
-        backgrounds: await backgroundsDB.getAllItems(),
-        bookmarks: await bookmarksDB.getAllItems(),
-        tasks: await tasksDB.getAllItems(),
-        alarms: await alarmsDB.getAllItems(),
-        reminders: await bookmarkRemindersDB.getAllItems(),
-      };
-
-      const dataUri = `data:application/json;charset=utf-8,${encodeURIComponent(JSON.stringify(exportObj, null, 2))}`;
-      const link = document.createElement("a");
-      link.href = dataUri;
-      link.download = `nexx-tab-backup-${new Date().toISOString().slice(0, 10)}.json`;
-      link.click();
+      await downloadBackup(await createBackup(), `nexx-tab-backup-${new Date().toISOString().slice(0, 10)}.json`);
     } catch {
       alert(t("settings.errors.exportFailed"));
     } finally {
       setIsBusy(false);
     }
-  }, [
-    calendarType,
-    tileNumber,
-    firstDayOfWeek,
-    weekendDays,
-    weekendColor,
-    textColor,
-    backgroundColor,
-    textOutlineColor,
-    fontSizeRatio,
-    customThemes,
-    language,
-    storageKey,
-    petSettings,
-    t,
-  ]);
+  }, [t]);
+
+  // Validates a readable backup and opens the import wizard, or reports why it can't be imported
+  const reviewBackup = useCallback(
+    async (importData: unknown) => {
+      const result = parseBackup(importData);
+      if (result.status === "unknown") {
+        setImportReport({ summary: t("settings.backupReport.unknown"), issues: [] });
+        return;
+      }
+      if (result.status === "newer") {
+        setImportReport({ summary: t("settings.backupReport.newer", { version: result.version }), issues: [] });
+        return;
+      }
+      if (result.status === "invalid") {
+        setImportReport({
+          summary: t("settings.backupReport.invalid", { version: result.version, count: result.issues.length }),
+          issues: result.issues,
+        });
+        return;
+      }
+
+      setPendingImport({ backup: result.backup, preview: await previewImport(result.backup) });
+    },
+    [t]
+  );
 
   const handleImportData = useCallback(
     async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -483,100 +488,25 @@ export const Settings: React.FC<SettingsProps> = ({ onSelectBackground, storageK
       if (!file) return;
 
       setIsBusy(true);
+      setImportReport(null);
+      setPendingImport(null);
       try {
-        const text = await file.text();
-        const importData = JSON.parse(text);
-        const isLegacyFormat = importData.notes && importData.todos;
-        const isNewFormat = importData.tasks;
-
-        if (!importData.settings || !importData.backgrounds || !importData.bookmarks || (!isLegacyFormat && !isNewFormat)) {
-          throw new Error("Invalid format");
-        }
-
-        if (!confirm(t("settings.importConfirm"))) return;
-
-        const s = importData.settings;
-        setCalendarType(s.calendarType || "gregorian");
-        setTileNumber(s.tileNumber ?? 10);
-        if (s.firstDayOfWeek) setFirstDayOfWeek(s.firstDayOfWeek);
-        if (s.weekendDays) setWeekendDays(s.weekendDays);
-        if (s.weekendColor) setWeekendColor(s.weekendColor);
-        if (s.textColor) setTextColor(s.textColor);
-        if (s.backgroundColor) setBackgroundColor(s.backgroundColor);
-        if (s.textOutlineColor) setTextOutlineColor(s.textOutlineColor);
-        if (typeof s.fontSizeRatio === "number") setFontSizeRatio(s.fontSizeRatio);
-        if (Array.isArray(s.customThemes)) setCustomThemes(s.customThemes);
-        if (s.language) setLanguage(s.language);
-        if (s.selectedBackground) localStorage.setItem(storageKey, s.selectedBackground);
-        if (s.petModeSettings && typeof s.petModeSettings === "object") {
-          const next = normalizePetModeSettings({
-            ...getPetModeSettings(),
-            ...s.petModeSettings,
-          });
-          setPetSettings(next);
-          setPetModeSettings(next);
-        } else if (typeof s.corgiMode === "boolean") {
-          const next = normalizePetModeSettings({ ...getPetModeSettings(), enabled: s.corgiMode });
-          setPetSettings(next);
-          setPetModeSettings(next);
-        }
-
-        const clearAndImport = async <T extends { id: string }>(db: typeof backgroundsDB, items: T[]) => {
-          const existing = await db.getAllItems<T>();
-          for (const item of existing) await db.deleteItem(item.id);
-          for (const item of items) await db.saveItem(item);
-        };
-
-        await clearAndImport(backgroundsDB, importData.backgrounds);
-        await clearAndImport(bookmarksDB, importData.bookmarks);
-
-        const existingTasks = await tasksDB.getAllItems<{ id: string }>();
-        for (const item of existingTasks) await tasksDB.deleteItem(item.id);
-
-        if (isNewFormat) {
-          for (const task of importData.tasks) await tasksDB.saveItem(task);
-        } else if (isLegacyFormat) {
-          for (const note of importData.notes) {
-            await tasksDB.saveItem({
-              id: note.id,
-              text: note.text,
-              taskType: "note",
-              createdAt: note.createdAt,
-              color: note.color,
-              emoji: "📝",
-            });
-          }
-          for (const todo of importData.todos) {
-            await tasksDB.saveItem({
-              id: todo.id,
-              text: todo.text,
-              taskType: "todo",
-              createdAt: Date.now(),
-              color: "rgba(255, 255, 255, 0.2)",
-              emoji: todo.emoji || "🚀",
-              completed: todo.completed,
-            });
-          }
-        }
-
-        if (importData.alarms) {
-          await clearAndImport(alarmsDB, importData.alarms);
-        }
-
-        if (importData.reminders) {
-          await clearAndImport(bookmarkRemindersDB, importData.reminders);
+        let parsed: unknown;
+        try {
+          parsed = JSON.parse(await file.text());
+        } catch (parseError) {
+          setImportReport({ summary: t("settings.backupReport.unreadable", { error: String(parseError) }), issues: [] });
+          return;
         }
 
-        await loadSavedBackgrounds();
-
-        if (s.selectedBackground) {
-          onSelectBackground(parseStoredBackground(s.selectedBackground));
-        } else if (importData.backgrounds.length > 0) {
-          onSelectBackground(importData.backgrounds[0].url);
+        if (isEncryptedBackup(parsed)) {
+          const syncKey = await getSyncKey();
+          const opened = syncKey ? await openBackup(parsed, syncKey) : null;
+          if (opened) await reviewBackup(opened);
+          else setLockedBackup(parsed);
+          return;
         }
-
-        alert(t("settings.importSuccess"));
-        window.location.reload();
+        await reviewBackup(parsed);
       } catch {
         alert(t("settings.errors.importFailed"));
       } finally {
@@ -584,25 +514,25 @@ export const Settings: React.FC<SettingsProps> = ({ onSelectBackground, storageK
         if (dataFileInputRef.current) dataFileInputRef.current.value = "";
       }
     },
-    [
-      t,
-      setCalendarType,
-      setTileNumber,
-      setFirstDayOfWeek,
-      setWeekendDays,
-      setWeekendColor,
-      setTextColor,
-      setBackgroundColor,
-      setTextOutlineColor,
-      setCustomThemes,
-      setFontSizeRatio,
-      setLanguage,
-      storageKey,
-      loadSavedBackgrounds,
-      onSelectBackground,
-    ]
+    [t, reviewBackup]
   );
 
+  const openLockedBackup = async (passphrase: string) => {
+    if (!lockedBackup) return false;
+    const opened = await openBackup(lockedBackup, passphrase);
+    if (!opened) return false;
+    setLockedBackup(null);
+    setIsBusy(true);
+    try {
+      await reviewBackup(opened);
+    } catch {
+      alert(t("settings.errors.importFailed"));
+    } finally {
+      setIsBusy(false);
+    }
+    return true;
+  };
+
   useEffect(() => {
     if (!isOpen) return;
 
@@ -1111,7 +1041,39 @@ export const Settings: React.FC<SettingsProps> = ({ onSelectBackground, storageK
           </button>
           <input type="file" ref={dataFileInputRef} accept=".json" onChange={handleImportData} className="hidden" />
         </div>
+        {importReport && (
+          <details className="settings-sync-omitted-group" open={importReport.issues.length > 0}>
+            <summary className="settings-sync-error">{importReport.summary}</summary>
+            <ul>
+              {importReport.issues.slice(0, VISIBLE_IMPORT_ISSUES).map((issue, index) => (
+                <li key={`${index}-${issue.path}`}>
+                  <code>{issue.path || t("settings.backupReport.root")}</code> — {issue.message}
+                </li>
+              ))}
+            </ul>
+            {importReport.issues.length > VISIBLE_IMPORT_ISSUES && (
+              <p className="settings-sync-meta">
+                {t("settings.backupReport.more", { count: importReport.issues.length - VISIBLE_IMPORT_ISSUES })}
+              </p>
+            )}
+          </details>
+        )}
       </div>
+      {pendingImport && (
+        <BackupImportWizard
+          backup={pendingImport.backup}
+          preview={pendingImport.preview}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+      {lockedBackup && <BackupPassphraseDialog onSubmit={openLockedBackup} onCancel={() => setLockedBackup(null)} />}
+      <SnapshotsCard />
+      <BookmarkExchangeCard selectPortal={selectPortal} />
+      <FaviconCacheCard />
+      <SyncBackendCard />
+      <SyncDomainsCard />
+      <SyncEncryptionCard />
+      <SyncStatusPanel />
     </div>
   );
 
@@ -0,0 +1,208 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Camera, ChevronDown, ChevronRight, Download, RotateCcw } from "lucide-react";
+import { useI18n } from "../../i18n/LanguageProvider";
+import { subscribeDataChanges } from "../IndexedDatabase/changeBus";
+import { snapshotsDB } from "./settingsDb";
+import { downloadBackup } from "./backupFormat";
+import { applyImport, previewImport, type ImportModes, type ImportPreview } from "./backupImport";
+import {
+  DEFAULT_SNAPSHOT_SETTINGS,
+  MAX_SNAPSHOT_KEEP,
+  MIN_SNAPSHOT_KEEP,
+  getSnapshotSettings,
+  listSnapshots,
+  saveSnapshotSettings,
+  takeSnapshot,
+  type Snapshot,
+  type SnapshotFrequency,
+  type SnapshotSettings,
+} from "./localSnapshots";
+import { SYNC_COLLECTIONS, type SyncCollection } from "./syncDomains";
+
+const FREQUENCIES: SnapshotFrequency[] = ["off", "daily", "weekly"];
+
+// A restore puts everything back exactly as it was.
+const RESTORE_MODES: ImportModes = {
+  collections: Object.fromEntries(SYNC_COLLECTIONS.map((name) => [name, "replace"])) as Record<SyncCollection, "replace">,
+  settings: "replace",
+};
+
+const formatKb = (bytes: number) => (bytes / 1024).toFixed(1);
+
+/** Schedule and list of local snapshots with restore and download; a snapshot's diff against current data is worked out when it is expanded. */
+export const SnapshotsCard: React.FC = () => {
+  const { t, language } = useI18n();
+  const [settings, setSettings] = useState<SnapshotSettings>(DEFAULT_SNAPSHOT_SETTINGS);
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSnapshots = useCallback(async () => {
+    setSnapshots(await listSnapshots());
+  }, []);
+
+  useEffect(() => {
+    getSnapshotSettings()
+      .then(setSettings)
+      .catch((loadError) => console.warn("[nexx-snapshots] failed to load settings:", loadError));
+    const refresh = () => {
+      loadSnapshots().catch((loadError) => console.warn("[nexx-snapshots] failed to list snapshots:", loadError));
+    };
+    refresh();
+    return subscribeDataChanges([snapshotsDB.storeName], refresh);
+  }, [loadSnapshots]);
+
+  // Comparing reads every collection, so only the expanded snapshot is compared.
+  useEffect(() => {
+    setPreview(null);
+    const snapshot = snapshots.find((candidate) => candidate.id === expandedId);
+    if (!snapshot) return;
+    let cancelled = false;
+    previewImport(snapshot.backup)
+      .then((next) => {
+        if (!cancelled) setPreview(next);
+      })
+      .catch((previewError) => console.warn("[nexx-snapshots] failed to compare a snapshot:", previewError));
+    return () => {
+      cancelled = true;
+    };
+  }, [expandedId, snapshots]);
+
+  const run = async (task: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await task();
+    } catch (taskError) {
+      setError(taskError instanceof Error ? taskError.message : String(taskError));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const updateSettings = (next: SnapshotSettings) => {
+    setSettings(next);
+    saveSnapshotSettings(next).catch((saveError) => console.warn("[nexx-snapshots] failed to save settings:", saveError));
+  };
+
+  const snapshotNow = () =>
+    run(async () => {
+      await takeSnapshot("manual");
+      await loadSnapshots();
+    });
+
+  const restore = (snapshot: Snapshot) => {
+    if (!confirm(t("settings.snapshots.restoreConfirm", { date: new Date(snapshot.createdAt).toLocaleString(language) }))) return;
+    run(async () => {
+      await applyImport(snapshot.backup, await previewImport(snapshot.backup), RESTORE_MODES);
+      alert(t("settings.importSuccess"));
+      window.location.reload();
+    });
+  };
+
+  const download = (snapshot: Snapshot) =>
+    run(() => downloadBackup(snapshot.backup, `nexx-tab-snapshot-${new Date(snapshot.createdAt).toISOString().slice(0, 10)}.json`));
+
+  // The preview looks from the snapshot's side: its "added" records have been deleted here since, and vice versa.
+  const describeDiff = (preview: ImportPreview) => {
+    const totals = SYNC_COLLECTIONS.reduce(
+      (sum, name) => {
+        const collection = preview.collections[name];
+        return {
+          added: sum.added + collection.missing.length,
+          changed: sum.changed + collection.changed.length,
+          deleted: sum.deleted + collection.added.length,
+        };
+      },
+      { added: 0, changed: 0, deleted: 0 },
+    );
+    if (!totals.added && !totals.changed && !totals.deleted && !preview.changedSettings) return t("settings.snapshots.sameAsNow");
+    return t("settings.snapshots.diff", { ...totals, settings: preview.changedSettings });
+  };
+
+  return (
+    <div className="settings-card">
+      <h3 className="settings-card-title">{t("settings.snapshots.title")}</h3>
+      <p className="settings-card-desc">{t("settings.snapshots.description")}</p>
+
+      <div className="settings-toggle-group">
+        {FREQUENCIES.map((frequency) => (
+          <button
+            key={frequency}
+            type="button"
+            className={`settings-toggle-btn ${settings.frequency === frequency ? "settings-toggle-btn--active" : ""}`}
+            onClick={() => updateSettings({ ...settings, frequency })}
+          >
+            {t(`settings.snapshots.frequency.${frequency}`)}
+          </button>
+        ))}
+      </div>
+
+      <div className="settings-row">
+        <label className="settings-label" htmlFor="settings-snapshot-keep">
+          {t("settings.snapshots.keep")}
+        </label>
+        <input
+          id="settings-snapshot-keep"
+          type="number"
+          min={MIN_SNAPSHOT_KEEP}
+          max={MAX_SNAPSHOT_KEEP}
+          value={settings.keep}
+          onChange={(event) => {
+            const keep = Number.parseInt(event.target.value, 10);
+            if (Number.isFinite(keep)) {
+              updateSettings({ ...settings, keep: Math.min(MAX_SNAPSHOT_KEEP, Math.max(MIN_SNAPSHOT_KEEP, keep)) });
+            }
+          }}
+          className="settings-input"
+        />
+      </div>
+
+      <div className="settings-data-actions">
+        <button type="button" className="settings-data-btn settings-action-btn" onClick={snapshotNow} disabled={isBusy}>
+          <Camera className="w-4 h-4" />
+          {t("settings.snapshots.takeNow")}
+        </button>
+      </div>
+
+      {snapshots.length === 0 && <p className="settings-sync-meta">{t("settings.snapshots.empty")}</p>}
+      {snapshots.map((snapshot) => (
+        <div key={snapshot.id} className="settings-sync-conflict">
+          <div className="settings-sync-conflict-title">
+            {new Date(snapshot.createdAt).toLocaleString(language)}
+            <span>
+              {t(`settings.snapshots.reasons.${snapshot.reason}`)} · {formatKb(snapshot.size)} KB
+            </span>
+          </div>
+          {!snapshot.backup.backgrounds && <p className="settings-sync-meta">{t("settings.snapshots.noBackgrounds")}</p>}
+          {expandedId === snapshot.id && (
+            <p className="settings-sync-meta">{preview ? describeDiff(preview) : t("settings.snapshots.comparing")}</p>
+          )}
+          <div className="settings-sync-conflict-actions">
+            <button
+              type="button"
+              className="settings-data-btn settings-action-btn"
+              onClick={() => setExpandedId((current) => (current === snapshot.id ? null : snapshot.id))}
+              aria-expanded={expandedId === snapshot.id}
+            >
+              {expandedId === snapshot.id ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+              {t("settings.snapshots.compare")}
+            </button>
+            <button type="button" className="settings-data-btn settings-action-btn" onClick={() => restore(snapshot)} disabled={isBusy}>
+              <RotateCcw className="w-4 h-4" />
+              {t("settings.snapshots.restore")}
+            </button>
+            <button type="button" className="settings-data-btn settings-action-btn" onClick={() => download(snapshot)} disabled={isBusy}>
+              <Download className="w-4 h-4" />
+              {t("settings.snapshots.download")}
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {error && <p className="settings-sync-error">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,171 @@
+import React, { useEffect, useState } from "react";
+import { FolderOpen, Link } from "lucide-react";
+import { useI18n } from "../../i18n/LanguageProvider";
+import { pushLocalToSync, switchSyncBackend } from "./settingsSync";
+import { readSyncBackendConfig, type SyncBackendConfig, type SyncBackendKind, type WebDavConfig } from "./syncBackend";
+import { createWebDavSyncBackend, webDavOrigins } from "./webdavSyncBackend";
+import { hasFolderAccess, isFolderSyncSupported, pickSyncFolder, requestFolderAccess } from "./folderSyncBackend";
+
+const BACKEND_KINDS: SyncBackendKind[] = ["chrome", "webdav", "folder"];
+const EMPTY_WEBDAV: WebDavConfig = { url: "", username: "", password: "" };
+
+/** Picks where sync data lives: chrome.storage.sync, a WebDAV folder or a local folder. */
+export const SyncBackendCard: React.FC = () => {
+  const { t } = useI18n();
+  const [config, setConfig] = useState<SyncBackendConfig | null>(null);
+  const [selected, setSelected] = useState<SyncBackendKind>("chrome");
+  const [webdav, setWebdav] = useState<WebDavConfig>(EMPTY_WEBDAV);
+  const [needsFolderAccess, setNeedsFolderAccess] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    readSyncBackendConfig()
+      .then(async (stored) => {
+        setConfig(stored);
+        setSelected(stored.kind);
+        if (stored.webdav) setWebdav(stored.webdav);
+        if (stored.kind === "folder" && stored.folder) setNeedsFolderAccess(!(await hasFolderAccess(stored.folder)));
+      })
+      .catch((loadError) => console.warn("[nexx-sync] failed to load backend settings:", loadError));
+  }, []);
+
+  const run = async (task: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await task();
+    } catch (taskError) {
+      // The folder picker rejects with AbortError when the user cancels it.
+      if (!(taskError instanceof DOMException && taskError.name === "AbortError")) {
+        setError(taskError instanceof Error ? taskError.message : String(taskError));
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const activate = async (next: Omit<SyncBackendConfig, "key">) => {
+    await switchSyncBackend(next);
+    setConfig(await readSyncBackendConfig());
+    setNeedsFolderAccess(false);
+  };
+
+  const connectWebDav = () =>
+    run(async () => {
+      const next = { ...webdav, url: webdav.url.trim() };
+      if (!(await chrome.permissions.request({ origins: webDavOrigins(next) }))) {
+        throw new Error(t("settings.sync.backend.permissionDenied"));
+      }
+      // Fails fast on a wrong URL or password before anything is switched.
+      await createWebDavSyncBackend(next).read();
+      await activate({ kind: "webdav", webdav: next });
+    });
+
+  const chooseFolder = () =>
+    run(async () => {
+      const folder = await pickSyncFolder();
+      await activate({ kind: "folder", folder });
+    });
+
+  const regrantFolder = () =>
+    run(async () => {
+      if (!config?.folder || !(await requestFolderAccess(config.folder))) return;
+      setNeedsFolderAccess(false);
+      await pushLocalToSync();
+    });
+
+  const selectKind = (kind: SyncBackendKind) => {
+    setSelected(kind);
+    setError(null);
+    if (kind === "chrome" && config?.kind !== "chrome") run(() => activate({ kind: "chrome" }));
+  };
+
+  const isActive = (kind: SyncBackendKind) => config?.kind === kind;
+
+  return (
+    <div className="settings-card">
+      <h3 className="settings-card-title">{t("settings.sync.backend.title")}</h3>
+      <p className="settings-card-desc">{t("settings.sync.backend.description")}</p>
+
+      <div className="settings-toggle-group">
+        {BACKEND_KINDS.map((kind) => (
+          <button
+            key={kind}
+            type="button"
+            className={`settings-toggle-btn ${selected === kind ? "settings-toggle-btn--active" : ""}`}
+            onClick={() => selectKind(kind)}
+            disabled={isBusy || (kind === "folder" && !isFolderSyncSupported())}
+          >
+            {t(`settings.sync.backend.${kind}`)}
+          </button>
+        ))}
+      </div>
+
+      {selected === "chrome" && <p className="settings-sync-meta">{t("settings.sync.backend.chromeDesc")}</p>}
+
+      {selected === "webdav" && (
+        <form
+          className="settings-sync-backend-form"
+          onSubmit={(event) => {
+            event.preventDefault();
+            connectWebDav();
+          }}
+        >
+          <input
+            type="url"
+            required
+            value={webdav.url}
+            onChange={(event) => setWebdav({ ...webdav, url: event.target.value })}
+            placeholder={t("settings.sync.backend.webdavUrl")}
+            className="settings-input"
+          />
+          <input
+            type="text"
+            autoComplete="username"
+            value={webdav.username}
+            onChange={(event) => setWebdav({ ...webdav, username: event.target.value })}
+            placeholder={t("settings.sync.backend.username")}
+            className="settings-input"
+          />
+          <input
+            type="password"
+            autoComplete="current-password"
+            value={webdav.password}
+            onChange={(event) => setWebdav({ ...webdav, password: event.target.value })}
+            placeholder={t("settings.sync.backend.password")}
+            className="settings-input"
+          />
+          <p className="settings-sync-meta">{t("settings.sync.backend.webdavDesc")}</p>
+          <button type="submit" className="settings-data-btn settings-action-btn" disabled={isBusy}>
+            <Link className="w-4 h-4" />
+            {isActive("webdav") ? t("settings.sync.backend.reconnect") : t("settings.sync.backend.connect")}
+          </button>
+        </form>
+      )}
+
+      {selected === "folder" && (
+        <div className="settings-sync-backend-form">
+          {isActive("folder") && config?.folder && (
+            <p className="settings-sync-meta">{t("settings.sync.backend.folderActive", { name: config.folder.name })}</p>
+          )}
+          <p className="settings-sync-meta">{t("settings.sync.backend.folderDesc")}</p>
+          {needsFolderAccess && isActive("folder") && (
+            <>
+              <p className="settings-sync-warning">{t("settings.sync.backend.folderAccessLost")}</p>
+              <button type="button" className="settings-data-btn settings-action-btn" onClick={regrantFolder} disabled={isBusy}>
+                {t("settings.sync.backend.grantAccess")}
+              </button>
+            </>
+          )}
+          <button type="button" className="settings-data-btn settings-action-btn" onClick={chooseFolder} disabled={isBusy}>
+            <FolderOpen className="w-4 h-4" />
+            {t("settings.sync.backend.chooseFolder")}
+          </button>
+        </div>
+      )}
+
+      {error && <p className="settings-sync-error">{error}</p>}
+    </div>
+  );
+};
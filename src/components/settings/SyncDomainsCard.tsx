@@ -0,0 +1,67 @@
+import React, { useEffect, useState } from "react";
+import { useI18n } from "../../i18n/LanguageProvider";
+import { pushLocalToSync } from "./settingsSync";
+import {
+  PREFERENCE_DOMAINS,
+  SYNC_DOMAINS,
+  getSyncDomains,
+  setSyncDomainEnabled,
+  subscribeSyncDomains,
+  type SyncDomain,
+  type SyncPreferenceDomain,
+} from "./syncDomains";
+
+const isPreferenceDomain = (domain: SyncDomain): domain is SyncPreferenceDomain =>
+  (PREFERENCE_DOMAINS as readonly string[]).includes(domain);
+
+/** Per-domain sync toggles; they are stored on this browser only. */
+export const SyncDomainsCard: React.FC = () => {
+  const { t } = useI18n();
+  const [domains, setDomains] = useState(() => getSyncDomains());
+
+  useEffect(() => subscribeSyncDomains(setDomains), []);
+
+  const setEnabled = (domain: SyncDomain, enabled: boolean) => {
+    if (domains[domain] === enabled) return;
+    setSyncDomainEnabled(domain, enabled);
+    // A domain switched back on is merged with what other devices wrote meanwhile.
+    if (enabled) pushLocalToSync().catch((error) => console.warn("[nexx-sync] sync failed:", error));
+  };
+
+  return (
+    <div className="settings-card">
+      <h3 className="settings-card-title">{t("settings.sync.domains.title")}</h3>
+      <p className="settings-card-desc">{t("settings.sync.domains.description")}</p>
+      {SYNC_DOMAINS.map((domain) => (
+        <div key={domain} className="settings-row settings-row--toggle">
+          <div className="settings-toggle-copy">
+            <span className="settings-label">
+              {isPreferenceDomain(domain)
+                ? t(`settings.sync.domains.${domain}`)
+                : t(`settings.sync.collections.${domain}`)}
+            </span>
+            {isPreferenceDomain(domain) && (
+              <span className="settings-card-desc">{t(`settings.sync.domains.${domain}Desc`)}</span>
+            )}
+          </div>
+          <div className="settings-toggle-group settings-toggle-group--compact">
+            <button
+              type="button"
+              className={`settings-toggle-btn ${!domains[domain] ? "settings-toggle-btn--active" : ""}`}
+              onClick={() => setEnabled(domain, false)}
+            >
+              {t("settings.sync.domains.local")}
+            </button>
+            <button
+              type="button"
+              className={`settings-toggle-btn ${domains[domain] ? "settings-toggle-btn--active" : ""}`}
+              onClick={() => setEnabled(domain, true)}
+            >
+              {t("settings.sync.domains.synced")}
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,121 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Lock, Unlock } from "lucide-react";
+import { useI18n } from "../../i18n/LanguageProvider";
+import { disableSyncEncryption, setSyncPassphrase, unlockSync } from "./settingsSync";
+import { getSyncKey } from "./syncCrypto";
+import { getSyncStatus, subscribeSyncStatus, type SyncStatus } from "./syncStatus";
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+/** Turns end-to-end encryption of sync data and backups on or off, rotates the passphrase and unlocks other devices. */
+export const SyncEncryptionCard: React.FC = () => {
+  const { t } = useI18n();
+  const [hasKey, setHasKey] = useState(false);
+  const [locked, setLocked] = useState<SyncStatus["locked"]>(() => getSyncStatus().locked);
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refreshKey = useCallback(() => {
+    getSyncKey()
+      .then((stored) => setHasKey(!!stored))
+      .catch((loadError) => console.warn("[nexx-sync] failed to read the sync key:", loadError));
+  }, []);
+
+  useEffect(() => {
+    refreshKey();
+    return subscribeSyncStatus((status) => {
+      setLocked(status.locked);
+      refreshKey();
+    });
+  }, [refreshKey]);
+
+  const run = async (task: () => Promise<boolean>, failure: string) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      if (await task()) {
+        setPassphrase("");
+        setConfirmation("");
+      } else {
+        setError(failure);
+      }
+    } catch (taskError) {
+      setError(taskError instanceof Error ? taskError.message : String(taskError));
+    } finally {
+      setIsBusy(false);
+      refreshKey();
+    }
+  };
+
+  const submitPassphrase = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (locked) {
+      run(() => unlockSync(passphrase), t("settings.encryption.wrongPassphrase"));
+      return;
+    }
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(t("settings.encryption.tooShort", { count: MIN_PASSPHRASE_LENGTH }));
+      return;
+    }
+    if (passphrase !== confirmation) {
+      setError(t("settings.encryption.mismatch"));
+      return;
+    }
+    if (hasKey && !confirm(t("settings.encryption.rotateConfirm"))) return;
+    run(() => setSyncPassphrase(passphrase), t("settings.encryption.failed"));
+  };
+
+  const turnOff = () => {
+    if (!confirm(t("settings.encryption.disableConfirm"))) return;
+    run(disableSyncEncryption, t("settings.encryption.failed"));
+  };
+
+  const status = locked
+    ? t(locked === "rotated" ? "settings.encryption.lockedRotated" : "settings.encryption.lockedMissing")
+    : t(hasKey ? "settings.encryption.on" : "settings.encryption.off");
+
+  return (
+    <div className="settings-card">
+      <h3 className="settings-card-title">{t("settings.encryption.title")}</h3>
+      <p className="settings-card-desc">{t("settings.encryption.description")}</p>
+      <p className={locked ? "settings-sync-warning" : "settings-sync-meta"}>{status}</p>
+
+      <form className="settings-sync-backend-form" onSubmit={submitPassphrase}>
+        <input
+          type="password"
+          autoComplete={locked ? "current-password" : "new-password"}
+          value={passphrase}
+          onChange={(event) => setPassphrase(event.target.value)}
+          placeholder={t(hasKey && !locked ? "settings.encryption.newPassphrase" : "settings.encryption.passphrase")}
+          className="settings-input"
+        />
+        {!locked && (
+          <input
+            type="password"
+            autoComplete="new-password"
+            value={confirmation}
+            onChange={(event) => setConfirmation(event.target.value)}
+            placeholder={t("settings.encryption.confirmPassphrase")}
+            className="settings-input"
+          />
+        )}
+        {!locked && !hasKey && <p className="settings-sync-warning">{t("settings.encryption.forgetWarning")}</p>}
+        <div className="settings-data-actions">
+          <button type="submit" className="settings-data-btn settings-action-btn" disabled={isBusy || !passphrase}>
+            {locked ? <Unlock className="w-4 h-4" /> : <Lock className="w-4 h-4" />}
+            {t(locked ? "settings.encryption.unlock" : hasKey ? "settings.encryption.change" : "settings.encryption.enable")}
+          </button>
+          {hasKey && !locked && (
+            <button type="button" className="settings-data-btn settings-action-btn" onClick={turnOff} disabled={isBusy}>
+              {t("settings.encryption.disable")}
+            </button>
+          )}
+        </div>
+      </form>
+
+      {error && <p className="settings-sync-error">{error}</p>}
+    </div>
+  );
+};
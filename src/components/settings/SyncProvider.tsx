@@ -1,5 +1,6 @@
 import { useEffect, useState, type ReactNode } from "react";
 import { bootstrapSync, initSyncListeners } from "./settingsSync";
+import { initLocalSnapshots } from "./localSnapshots";
 
 interface SyncProviderProps {
   children: ReactNode;
@@ -10,6 +11,7 @@ export function SyncProvider({ children }: SyncProviderProps) {
 
   useEffect(() => {
     let cancelled = false;
+    const stopSnapshots = initLocalSnapshots();
 
     bootstrapSync()
       .catch((error) => console.warn("[nexx-sync] bootstrap failed:", error))
@@ -23,6 +25,7 @@ export function SyncProvider({ children }: SyncProviderProps) {
 
     return () => {
       cancelled = true;
+      stopSnapshots();
     };
   }, []);
 
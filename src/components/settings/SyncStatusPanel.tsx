@@ -0,0 +1,275 @@
+import React, { useEffect, useState } from "react";
+import { RefreshCw, Upload, Download } from "lucide-react";
+import { useI18n } from "../../i18n/LanguageProvider";
+import {
+  forcePullFromSync,
+  forcePushToSync,
+  pushLocalToSync,
+  reportLabel,
+  resolveSyncConflict,
+  type ConflictChoice,
+} from "./settingsSync";
+import {
+  getSyncConflicts,
+  getSyncStatus,
+  subscribeSyncConflicts,
+  subscribeSyncStatus,
+  type SyncConflictEntry,
+  type SyncStatus,
+} from "./syncStatus";
+import { SYNC_COLLECTIONS, type SyncCollection } from "./syncDomains";
+
+const VALUE_PREVIEW_LENGTH = 120;
+const VISIBLE_ERRORS = 5;
+const USAGE_ROWS = ["preferences", "tombstones", ...SYNC_COLLECTIONS, "omitted"];
+
+const formatKb = (bytes: number) => (bytes / 1024).toFixed(1);
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null) return "—";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > VALUE_PREVIEW_LENGTH ? `${text.slice(0, VALUE_PREVIEW_LENGTH - 1)}…` : text;
+};
+
+/** Fields whose values differ between the two copies; revision stamps are left out. */
+const differingFields = (local: unknown, remote: unknown): string[] => {
+  const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === "object" && !Array.isArray(value);
+  if (!isRecord(local) || !isRecord(remote)) return [];
+  const keys = new Set([...Object.keys(local), ...Object.keys(remote)]);
+  keys.delete("updatedAt");
+  return [...keys].filter((key) => JSON.stringify(local[key]) !== JSON.stringify(remote[key]));
+};
+
+const ConflictRow: React.FC<{ entry: SyncConflictEntry }> = ({ entry }) => {
+  const { t } = useI18n();
+  const [isResolving, setIsResolving] = useState(false);
+  const isPreference = entry.collection === "preferences";
+  const fields = isPreference ? [] : differingFields(entry.local, entry.remote);
+  const record = entry.local ?? entry.remote;
+  const title = isPreference
+    ? entry.id
+    : reportLabel(entry.collection as SyncCollection, record) ||
+      t(`settings.sync.untitled.${entry.collection}`);
+
+  const resolve = async (choice: ConflictChoice) => {
+    setIsResolving(true);
+    try {
+      await resolveSyncConflict(entry, choice);
+    } catch (error) {
+      console.warn("[nexx-sync] conflict resolution failed:", error);
+      setIsResolving(false);
+    }
+  };
+
+  const sideValue = (value: unknown, field?: string) => {
+    if (value === null) return t("settings.sync.deleted");
+    if (field === undefined) return formatValue(value);
+    return formatValue((value as Record<string, unknown>)[field]);
+  };
+
+  return (
+    <li className="settings-sync-conflict">
+      <div className="settings-sync-conflict-title">
+        <span>{t(`settings.sync.collections.${entry.collection}`)}</span>
+        <strong>{title}</strong>
+      </div>
+      <table className="settings-sync-conflict-table">
+        <thead>
+          <tr>
+            <th />
+            <th>{t("settings.sync.thisDevice")}</th>
+            <th>{t("settings.sync.otherDevice")}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {fields.length > 0 ? (
+            fields.map((field) => (
+              <tr key={field}>
+                <th>{field}</th>
+                <td>{sideValue(entry.local, field)}</td>
+                <td>{sideValue(entry.remote, field)}</td>
+              </tr>
+            ))
+          ) : (
+            <tr>
+              <th>{isPreference ? entry.id : ""}</th>
+              <td>{isPreference ? formatValue(entry.local) : sideValue(entry.local && title)}</td>
+              <td>{isPreference ? formatValue(entry.remote) : sideValue(entry.remote && title)}</td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+      <p className="settings-sync-meta">
+        {t("settings.sync.keptAutomatically", {
+          side: t(entry.resolution === "local" ? "settings.sync.thisDevice" : "settings.sync.otherDevice"),
+        })}
+      </p>
+      <div className="settings-sync-conflict-actions">
+        <button type="button" className="settings-data-btn settings-action-btn" onClick={() => resolve("local")} disabled={isResolving}>
+          {t("settings.sync.keepLocal")}
+        </button>
+        <button type="button" className="settings-data-btn settings-action-btn" onClick={() => resolve("remote")} disabled={isResolving}>
+          {t("settings.sync.keepRemote")}
+        </button>
+        {!isPreference && entry.local !== null && entry.remote !== null && (
+          <button type="button" className="settings-data-btn settings-action-btn" onClick={() => resolve("both")} disabled={isResolving}>
+            {t("settings.sync.keepBoth")}
+          </button>
+        )}
+      </div>
+    </li>
+  );
+};
+
+/** Sync timings, quota use, recent errors, conflicts awaiting review and recovery actions. */
+export const SyncStatusPanel: React.FC = () => {
+  const { t, language } = useI18n();
+  const [status, setStatus] = useState<SyncStatus>(() => getSyncStatus());
+  const [conflicts, setConflicts] = useState<SyncConflictEntry[]>([]);
+  const [busyAction, setBusyAction] = useState<"sync" | "push" | "pull" | null>(null);
+
+  useEffect(() => subscribeSyncStatus(setStatus), []);
+
+  useEffect(() => {
+    const load = () => {
+      getSyncConflicts()
+        .then(setConflicts)
+        .catch((error) => console.warn("[nexx-sync] failed to load conflicts:", error));
+    };
+    load();
+    return subscribeSyncConflicts(load);
+  }, []);
+
+  const runAction = async (action: "sync" | "push" | "pull", task: () => Promise<boolean>) => {
+    setBusyAction(action);
+    try {
+      await task();
+    } catch (error) {
+      console.warn("[nexx-sync] action failed:", error);
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const formatTime = (at?: number) => (at ? new Date(at).toLocaleString(language) : t("settings.sync.never"));
+  const omittedCollections = SYNC_COLLECTIONS.filter((name) => (status.omitted[name]?.length ?? 0) > 0);
+  const usage = status.bytesQuota ? Math.min(100, Math.round((status.bytesUsed / status.bytesQuota) * 100)) : 0;
+  const usageRows = USAGE_ROWS.filter((name) => status.bytesByCollection[name] !== undefined);
+
+  return (
+    <>
+      <div className="settings-card">
+        <h3 className="settings-card-title">{t("settings.sync.title")}</h3>
+        <p className="settings-card-desc">{t("settings.sync.description")}</p>
+
+        <p className="settings-sync-meta">{t("settings.sync.lastPush", { time: formatTime(status.lastPushAt) })}</p>
+        <p className="settings-sync-meta">{t("settings.sync.lastPull", { time: formatTime(status.lastPullAt) })}</p>
+
+        {status.bytesUsed > 0 && (
+          <div className="settings-sync-usage">
+            {status.bytesQuota > 0 ? (
+              <>
+                <div className="settings-sync-usage-bar">
+                  <div className="settings-sync-usage-fill" style={{ width: `${usage}%` }} />
+                </div>
+                <span className="settings-sync-usage-label">
+                  {t("settings.sync.usage", { used: formatKb(status.bytesUsed), total: formatKb(status.bytesQuota) })}
+                </span>
+              </>
+            ) : (
+              <span className="settings-sync-usage-label">{t("settings.sync.stored", { used: formatKb(status.bytesUsed) })}</span>
+            )}
+            <ul className="settings-sync-usage-list">
+              {usageRows.map((name) => (
+                <li key={name}>
+                  <span>{t(`settings.sync.collections.${name}`)}</span>
+                  <span>{formatKb(status.bytesByCollection[name])} KB</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {status.errors.length > 0 && (
+          <details className="settings-sync-omitted-group">
+            <summary className="settings-sync-error">{t("settings.sync.recentErrors", { count: status.errors.length })}</summary>
+            <ul>
+              {status.errors.slice(0, VISIBLE_ERRORS).map((entry) => (
+                <li key={`${entry.at}-${entry.message}`}>
+                  {formatTime(entry.at)} — {entry.message}
+                </li>
+              ))}
+            </ul>
+          </details>
+        )}
+
+        {status.lastPushAt &&
+          (omittedCollections.length === 0 ? (
+            <p className="settings-sync-meta">{t("settings.sync.allSynced")}</p>
+          ) : (
+            <div className="settings-sync-omitted">
+              <p className="settings-sync-warning">{t("settings.sync.omittedIntro")}</p>
+              {omittedCollections.map((name) => (
+                <details key={name} className="settings-sync-omitted-group">
+                  <summary>
+                    {t(`settings.sync.collections.${name}`)} ({status.omitted[name]?.length})
+                  </summary>
+                  <ul>
+                    {status.omitted[name]?.map((item) => (
+                      <li key={item.id}>{item.label || t(`settings.sync.untitled.${name}`)}</li>
+                    ))}
+                  </ul>
+                </details>
+              ))}
+            </div>
+          ))}
+
+        <div className="settings-data-actions">
+          <button
+            type="button"
+            className="settings-data-btn settings-data-btn--export"
+            onClick={() => runAction("sync", pushLocalToSync)}
+            disabled={busyAction !== null}
+          >
+            <RefreshCw className={`w-4 h-4 ${busyAction === "sync" ? "animate-spin" : ""}`} />
+            {t("settings.sync.pushNow")}
+          </button>
+          <button
+            type="button"
+            className="settings-data-btn settings-data-btn--export"
+            onClick={() => confirm(t("settings.sync.forcePushConfirm")) && runAction("push", forcePushToSync)}
+            disabled={busyAction !== null}
+          >
+            <Upload className="w-4 h-4" />
+            {t("settings.sync.forcePush")}
+          </button>
+          <button
+            type="button"
+            className="settings-data-btn settings-data-btn--import"
+            onClick={() => confirm(t("settings.sync.forcePullConfirm")) && runAction("pull", forcePullFromSync)}
+            disabled={busyAction !== null}
+          >
+            <Download className="w-4 h-4" />
+            {t("settings.sync.forcePull")}
+          </button>
+        </div>
+      </div>
+
+      <div className="settings-card">
+        <h3 className="settings-card-title">{t("settings.sync.conflictsTitle", { count: conflicts.length })}</h3>
+        {conflicts.length === 0 ? (
+          <p className="settings-sync-meta">{t("settings.sync.noConflicts")}</p>
+        ) : (
+          <>
+            <p className="settings-card-desc">{t("settings.sync.conflictsDescription")}</p>
+            <ul className="settings-sync-conflicts">
+              {conflicts.map((entry) => (
+                <ConflictRow key={entry.key} entry={entry} />
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+    </>
+  );
+};
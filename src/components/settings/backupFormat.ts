@@ -0,0 +1,297 @@
+import Ajv, { type ErrorObject, type ValidateFunction } from "ajv";
+import { backgroundsDB, bookmarksDB, tasksDB, alarmsDB, bookmarkRemindersDB } from "./settingsDb";
+import { applyPreferences, readLocalPreferences, type SyncBookmarkTile, type SyncPreferences } from "./settingsSync";
+import { BACKUP_SCHEMAS, type BackupVersion } from "./backupSchema";
+import { loadRecentToolKeys, saveRecentToolKeys } from "../tools/toolPreferences";
+import { getReminderSettings, setReminderSettings, type ReminderSettings } from "../bookmarks/reminders/reminderSettings";
+import { getTileSuggestionSettings, setTileSuggestionSettings, type TileSuggestionSettings } from "../bookmarks/tileSuggestions";
+import { loadAiProviderId, saveAiProviderId, type AiProviderId } from "../aiPromptBar/providers";
+import {
+  loadPromptBarMode,
+  loadSearchSiteId,
+  savePromptBarMode,
+  saveSearchSiteId,
+  type PromptBarMode,
+  type SearchSiteId,
+} from "../aiPromptBar/searchSites";
+import { getSyncKey, sealBackup } from "./syncCrypto";
+import type { StoredBackground } from "./types";
+import type { Task } from "../tasks/types";
+import type { AlarmItem } from "../timerAlarm/types";
+import type { BookmarkReminder } from "../bookmarks/reminders/types";
+
+// Backup files: what export writes, and how import turns any file an older version wrote into the current
+// format. The schemas for each version live in backupSchema.ts.
+
+export const BACKUP_FORMAT = "nexx-tab-backup";
+export const BACKUP_VERSION = 2;
+
+const BOOKMARK_SORT_KEY = "bookmarkSortType";
+const LEGACY_TODO_COLOR = "rgba(255, 255, 255, 0.2)";
+
+/** Preferences that never sync (see syncDomains.ts) but are still part of a backup. */
+export interface BackupDeviceSettings {
+  toolsRecent: string[];
+  reminderSettings: ReminderSettings;
+  aiProvider: AiProviderId;
+  searchSite: SearchSiteId;
+  promptBarMode: PromptBarMode;
+  bookmarkSortType: string;
+  tileSuggestions: TileSuggestionSettings;
+}
+
+export interface Backup {
+  format: typeof BACKUP_FORMAT;
+  version: typeof BACKUP_VERSION;
+  exportedAt: string;
+  preferences: Partial<SyncPreferences>;
+  device: Partial<BackupDeviceSettings>;
+  /** Left out of the snapshots taken before a sync, which would otherwise copy every uploaded image each time. */
+  backgrounds?: StoredBackground[];
+  bookmarks: SyncBookmarkTile[];
+  tasks: Task[];
+  alarms?: AlarmItem[];
+  reminders?: BookmarkReminder[];
+}
+
+type LegacySettings = Partial<Omit<SyncPreferences, "petModeSettings">> & Pick<SyncPreferences, "petModeSettings">;
+
+interface BackupV1_1 {
+  version?: "1.1";
+  exportDate?: string;
+  settings: LegacySettings;
+  backgrounds: StoredBackground[];
+  bookmarks: SyncBookmarkTile[];
+  tasks: Task[];
+  alarms?: AlarmItem[];
+  reminders?: BookmarkReminder[];
+}
+
+interface BackupV1_0 extends Omit<BackupV1_1, "version" | "tasks"> {
+  version?: "1.0";
+  notes: { id: string; text: string; createdAt?: number; color?: string }[];
+  todos: { id: string; text: string; emoji?: string; completed?: boolean }[];
+}
+
+export interface BackupIssue {
+  /** Where in the file, e.g. `tasks[3].createdAt`; empty for the top level. */
+  path: string;
+  message: string;
+}
+
+export type BackupParseResult =
+  | { status: "ok"; backup: Backup; migratedFrom: BackupVersion | null }
+  | { status: "invalid"; version: BackupVersion; issues: BackupIssue[] }
+  | { status: "unknown" }
+  | { status: "newer"; version: number };
+
+// 1.x files kept only these settings; anything else in them is ignored.
+const LEGACY_SETTING_KEYS = [
+  "language",
+  "textColor",
+  "backgroundColor",
+  "textOutlineColor",
+  "fontSizeRatio",
+  "customThemes",
+  "calendarType",
+  "tileNumber",
+  "weekendDays",
+  "weekendColor",
+  "firstDayOfWeek",
+  "selectedBackground",
+  "corgiMode",
+  "petModeSettings",
+] as const satisfies readonly (keyof SyncPreferences)[];
+
+const fromV1_0 = ({ notes, todos, ...rest }: BackupV1_0): BackupV1_1 => ({
+  ...rest,
+  version: "1.1",
+  tasks: [
+    ...notes.map((note) => ({
+      id: note.id,
+      text: note.text,
+      taskType: "note" as const,
+      createdAt: note.createdAt ?? Date.now(),
+      color: note.color ?? LEGACY_TODO_COLOR,
+      emoji: "📝",
+    })),
+    ...todos.map((todo) => ({
+      id: todo.id,
+      text: todo.text,
+      taskType: "todo" as const,
+      createdAt: Date.now(),
+      color: LEGACY_TODO_COLOR,
+      emoji: todo.emoji || "🚀",
+      completed: todo.completed,
+    })),
+  ],
+});
+
+const fromV1_1 = ({ exportDate, settings, backgrounds, bookmarks, tasks, alarms, reminders }: BackupV1_1): Backup => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  exportedAt: exportDate ?? new Date().toISOString(),
+  preferences: Object.fromEntries(
+    LEGACY_SETTING_KEYS.filter((key) => settings[key] !== undefined).map((key) => [key, settings[key]]),
+  ),
+  device: {},
+  backgrounds,
+  bookmarks,
+  tasks,
+  ...(alarms ? { alarms } : {}),
+  ...(reminders ? { reminders } : {}),
+});
+
+// Each step takes a file valid for its version to the next one; they run in order until the current version.
+const MIGRATIONS: Record<Exclude<BackupVersion, "2">, { to: BackupVersion; migrate: (data: never) => unknown }> = {
+  "1.0": { to: "1.1", migrate: fromV1_0 },
+  "1.1": { to: "2", migrate: fromV1_1 },
+};
+
+let validators: Record<BackupVersion, ValidateFunction> | null = null;
+
+const getValidators = () => {
+  if (!validators) {
+    const ajv = new Ajv({ allErrors: true, allowUnionTypes: true });
+    validators = {
+      "1.0": ajv.compile(BACKUP_SCHEMAS["1.0"]),
+      "1.1": ajv.compile(BACKUP_SCHEMAS["1.1"]),
+      "2": ajv.compile(BACKUP_SCHEMAS["2"]),
+    };
+  }
+  return validators;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+// Files before 1.1 had no version; the notes/todos lists give them away.
+const detectVersion = (raw: Record<string, unknown>): BackupVersion | number | null => {
+  if (raw.format === BACKUP_FORMAT) {
+    if (typeof raw.version !== "number") return null;
+    if (raw.version > BACKUP_VERSION) return raw.version;
+    return String(raw.version) in BACKUP_SCHEMAS ? (String(raw.version) as BackupVersion) : null;
+  }
+  if (raw.version === "1.1" || raw.version === "1.0") return raw.version;
+  if ("notes" in raw && "todos" in raw) return "1.0";
+  if ("tasks" in raw && "settings" in raw) return "1.1";
+  return null;
+};
+
+// `/tasks/3/createdAt` -> `tasks[3].createdAt`
+const formatPath = (instancePath: string): string =>
+  instancePath
+    .split("/")
+    .slice(1)
+    .map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"))
+    .reduce((path, segment) => (/^\d+$/.test(segment) ? `${path}[${segment}]` : path ? `${path}.${segment}` : segment), "");
+
+const describeError = (error: ErrorObject): string => {
+  const params = error.params as Record<string, unknown>;
+  switch (error.keyword) {
+    case "additionalProperties":
+      return `unknown property "${String(params.additionalProperty)}"`;
+    case "enum":
+      return `${error.message}: ${(params.allowedValues as unknown[]).map((value) => JSON.stringify(value)).join(", ")}`;
+    case "const":
+      return `must be ${JSON.stringify(params.allowedValue)}`;
+    default:
+      return error.message ?? error.keyword;
+  }
+};
+
+const toIssues = (errors: ErrorObject[] | null | undefined): BackupIssue[] =>
+  (errors ?? []).map((error) => ({ path: formatPath(error.instancePath), message: describeError(error) }));
+
+/** Validates a parsed (and decrypted) backup file against its own version's schema, then migrates it to the current one. */
+export const parseBackup = (raw: unknown): BackupParseResult => {
+  if (!isRecord(raw)) return { status: "unknown" };
+  const detected = detectVersion(raw);
+  if (detected === null) return { status: "unknown" };
+  if (typeof detected === "number") return { status: "newer", version: detected };
+
+  const validate = getValidators();
+  if (!validate[detected](raw)) return { status: "invalid", version: detected, issues: toIssues(validate[detected].errors) };
+
+  let version = detected;
+  let data: unknown = raw;
+  while (version !== "2") {
+    const step = MIGRATIONS[version];
+    data = step.migrate(data as never);
+    version = step.to;
+  }
+
+  // Guards the migrations themselves; a file valid for its own version should never fail here.
+  if (!validate["2"](data)) return { status: "invalid", version: "2", issues: toIssues(validate["2"].errors) };
+  return { status: "ok", backup: data as Backup, migratedFrom: detected === "2" ? null : detected };
+};
+
+export const readDeviceSettings = (): Partial<BackupDeviceSettings> => {
+  const bookmarkSortType = localStorage.getItem(BOOKMARK_SORT_KEY);
+  return {
+    toolsRecent: loadRecentToolKeys(),
+    reminderSettings: getReminderSettings(),
+    aiProvider: loadAiProviderId(),
+    searchSite: loadSearchSiteId(),
+    promptBarMode: loadPromptBarMode(),
+    ...(bookmarkSortType ? { bookmarkSortType } : {}),
+    tileSuggestions: getTileSuggestionSettings(),
+  };
+};
+
+const applyDeviceSettings = (device: Partial<BackupDeviceSettings>) => {
+  if (device.toolsRecent) saveRecentToolKeys(device.toolsRecent);
+  if (device.reminderSettings) setReminderSettings(device.reminderSettings);
+  if (device.aiProvider) saveAiProviderId(device.aiProvider);
+  if (device.searchSite) saveSearchSiteId(device.searchSite);
+  if (device.promptBarMode) savePromptBarMode(device.promptBarMode);
+  if (device.bookmarkSortType) localStorage.setItem(BOOKMARK_SORT_KEY, device.bookmarkSortType);
+  // Permissions don't travel with a backup; the suggestions window turns itself off until they are granted again
+  if (device.tileSuggestions) setTileSuggestionSettings(device.tileSuggestions);
+};
+
+/** Everything this device stores, in the current backup format. */
+export const createBackup = async (): Promise<Backup> => {
+  const [preferences, backgrounds, bookmarks, tasks, alarms, reminders] = await Promise.all([
+    readLocalPreferences(),
+    backgroundsDB.getAllItems<StoredBackground>(),
+    bookmarksDB.getAllItems<SyncBookmarkTile>(),
+    tasksDB.getAllItems<Task>(),
+    alarmsDB.getAllItems<AlarmItem>(),
+    bookmarkRemindersDB.getAllItems<BookmarkReminder>(),
+  ]);
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    preferences,
+    device: readDeviceSettings(),
+    backgrounds,
+    bookmarks,
+    tasks,
+    alarms,
+    reminders,
+  };
+};
+
+/** Saves a backup as a JSON file; with sync encryption on, it is sealed with the same key. */
+export const downloadBackup = async (backup: Backup, fileName: string) => {
+  const syncKey = await getSyncKey();
+  const content = syncKey ? await sealBackup(backup, syncKey) : backup;
+  const link = document.createElement("a");
+  link.href = `data:application/json;charset=utf-8,${encodeURIComponent(JSON.stringify(content, null, 2))}`;
+  link.download = fileName;
+  link.click();
+};
+
+/** Applies a backup's preferences and device settings; the caller reloads the page afterwards. */
+export const restoreBackupSettings = async (backup: Backup) => {
+  const preferences = { ...(await readLocalPreferences()), ...backup.preferences };
+  // Files that only carried the old on/off switch must not be overridden by this device's pet settings.
+  if (!backup.preferences.petModeSettings && typeof backup.preferences.corgiMode === "boolean") {
+    preferences.petModeSettings = undefined;
+  }
+  await applyPreferences(preferences);
+  applyDeviceSettings(backup.device);
+};
@@ -0,0 +1,167 @@
+import { backgroundsDB, bookmarksDB, tasksDB, alarmsDB, bookmarkRemindersDB } from "./settingsDb";
+import { bulkWriteStores } from "../IndexedDatabase/IndexedDatabase";
+import type { AppStoreName } from "../IndexedDatabase/schema";
+import { readLocalPreferences } from "./settingsSync";
+import { readDeviceSettings, restoreBackupSettings, type Backup } from "./backupFormat";
+import { takeSnapshot } from "./localSnapshots";
+import { hashValue } from "./syncMerge";
+import { SYNC_COLLECTIONS, type SyncCollection } from "./syncDomains";
+
+// Import compares a backup with this device record by record, so a file can be merged into what is here
+// instead of always replacing it. Nothing is written until the user has seen the dry-run summary.
+
+export type ImportMode = "replace" | "merge" | "skip";
+export type SettingsImportMode = "replace" | "skip";
+
+interface ImportRecord {
+  id: string;
+  createdAt?: number;
+  updatedAt?: number;
+}
+
+export interface CollectionPreview {
+  /** False when the file predates this collection; it is then always skipped. */
+  inFile: boolean;
+  /** Ids only in the file. */
+  added: string[];
+  /** Ids in both places with different content. */
+  changed: string[];
+  /** The subset of `changed` where the file's copy is newer; merge takes only these. */
+  newerInFile: string[];
+  identical: number;
+  /** Ids only on this device. */
+  missing: string[];
+  /** Records on this device now. */
+  localCount: number;
+}
+
+export interface ImportPreview {
+  collections: Record<SyncCollection, CollectionPreview>;
+  /** Settings in the file that differ from this device's. */
+  changedSettings: number;
+}
+
+export interface ImportModes {
+  collections: Record<SyncCollection, ImportMode>;
+  settings: SettingsImportMode;
+}
+
+export interface CollectionOutcome {
+  mode: ImportMode;
+  written: number;
+  deleted: number;
+  /** Records on this device after the import. */
+  total: number;
+}
+
+const COLLECTION_DBS = {
+  reminders: bookmarkRemindersDB,
+  tasks: tasksDB,
+  alarms: alarmsDB,
+  bookmarks: bookmarksDB,
+  backgrounds: backgroundsDB,
+} as const;
+
+// Bookkeeping that changes without the user editing anything; it alone does not make a record "changed".
+const IGNORED_FIELDS = ["updatedAt", "lastTriggeredAt"];
+
+const recordTime = (record: ImportRecord) => record.updatedAt ?? record.createdAt ?? 0;
+
+const fileRecords = (backup: Backup, collection: SyncCollection): ImportRecord[] | undefined =>
+  backup[collection] as ImportRecord[] | undefined;
+
+const previewCollection = (local: ImportRecord[], incoming: ImportRecord[] | undefined): CollectionPreview => {
+  const preview: CollectionPreview = {
+    inFile: !!incoming,
+    added: [],
+    changed: [],
+    newerInFile: [],
+    identical: 0,
+    missing: [],
+    localCount: local.length,
+  };
+  if (!incoming) return preview;
+
+  const localById = new Map(local.map((record) => [record.id, record]));
+  const incomingIds = new Set<string>();
+  for (const record of incoming) {
+    incomingIds.add(record.id);
+    const existing = localById.get(record.id);
+    if (!existing) {
+      preview.added.push(record.id);
+    } else if (hashValue(existing, IGNORED_FIELDS) === hashValue(record, IGNORED_FIELDS)) {
+      preview.identical += 1;
+    } else {
+      preview.changed.push(record.id);
+      if (recordTime(record) > recordTime(existing)) preview.newerInFile.push(record.id);
+    }
+  }
+  preview.missing = local.filter((record) => !incomingIds.has(record.id)).map((record) => record.id);
+  return preview;
+};
+
+const countChangedSettings = async (backup: Backup): Promise<number> => {
+  const local: Record<string, unknown> = { ...(await readLocalPreferences()), ...readDeviceSettings() };
+  return Object.entries({ ...backup.preferences, ...backup.device }).filter(
+    ([key, value]) => value !== undefined && hashValue(value) !== hashValue(local[key]),
+  ).length;
+};
+
+/** Compares a parsed backup with this device's data by record id. */
+export const previewImport = async (backup: Backup): Promise<ImportPreview> => {
+  const locals = await Promise.all(SYNC_COLLECTIONS.map((name) => COLLECTION_DBS[name].getAllItems<ImportRecord>()));
+  const collections = Object.fromEntries(
+    SYNC_COLLECTIONS.map((name, index) => [name, previewCollection(locals[index], fileRecords(backup, name))]),
+  ) as Record<SyncCollection, CollectionPreview>;
+  return { collections, changedSettings: await countChangedSettings(backup) };
+};
+
+export const defaultImportModes = (preview: ImportPreview): ImportModes => ({
+  collections: Object.fromEntries(
+    SYNC_COLLECTIONS.map((name) => [name, preview.collections[name].inFile ? "merge" : "skip"]),
+  ) as Record<SyncCollection, ImportMode>,
+  settings: "replace",
+});
+
+/** The dry run: what each collection will look like, without touching anything. */
+export const summarizeImport = (preview: CollectionPreview, mode: ImportMode): CollectionOutcome => {
+  const effective = preview.inFile ? mode : "skip";
+  const fileCount = preview.added.length + preview.changed.length + preview.identical;
+  switch (effective) {
+    case "replace":
+      return { mode: effective, written: preview.added.length + preview.changed.length, deleted: preview.missing.length, total: fileCount };
+    case "merge":
+      return {
+        mode: effective,
+        written: preview.added.length + preview.newerInFile.length,
+        deleted: 0,
+        total: preview.localCount + preview.added.length,
+      };
+    case "skip":
+      return { mode: effective, written: 0, deleted: 0, total: preview.localCount };
+  }
+};
+
+/** Snapshots this device, writes the chosen collections in one transaction, then the settings; the caller reloads the page afterwards. */
+export const applyImport = async (backup: Backup, preview: ImportPreview, modes: ImportModes) => {
+  const replace: Partial<Record<AppStoreName, unknown[]>> = {};
+  const put: Partial<Record<AppStoreName, unknown[]>> = {};
+
+  for (const name of SYNC_COLLECTIONS) {
+    const incoming = fileRecords(backup, name);
+    if (!incoming) continue;
+    const storeName = COLLECTION_DBS[name].storeName;
+    if (modes.collections[name] === "replace") {
+      replace[storeName] = incoming;
+    } else if (modes.collections[name] === "merge") {
+      const take = new Set([...preview.collections[name].added, ...preview.collections[name].newerInFile]);
+      const records = incoming.filter((record) => take.has(record.id));
+      if (records.length) put[storeName] = records;
+    }
+  }
+
+  // Makes every import undoable from the snapshot list.
+  await takeSnapshot("import");
+  await bulkWriteStores({ replace, put });
+  if (modes.settings === "replace") await restoreBackupSettings(backup);
+};
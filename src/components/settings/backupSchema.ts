@@ -0,0 +1,327 @@
+import type { SchemaObject } from "ajv";
+import { AI_PROVIDERS } from "../aiPromptBar/providers";
+import { SEARCH_SITES } from "../aiPromptBar/searchSites";
+import { GROUPING_TYPES, SORT_TYPES } from "../bookmarks/tileBoards";
+
+// JSON Schemas for every backup version this app has ever written. A file is checked against the schema of
+// its own version before it is migrated, so errors point at paths that exist in the file the user picked.
+//
+// Covered: the backgrounds, tiles, tasks, alarms and reminders stores in IndexedDB and every preference in
+// localStorage / chrome.storage.local.
+// Left out on purpose, because they only make sense on the device that wrote them: the IndexedDB stores
+// `opens` (tile open history), `favicons` (a cache that refills itself), `snapshots` (local restore points),
+// `meta` (the sync backend with its credentials, sync key and status) and `tombstones`; sync domains,
+// running timers and pomodoros, the weather and reminder caches, and one-off migration flags such as
+// "fontSizeBaseRescaled".
+
+const timestamp = { type: "number", minimum: 0 };
+const stringList = { type: "array", items: { type: "string" } };
+
+const background = {
+  type: "object",
+  description: "A saved background (IndexedDB `backgrounds`).",
+  required: ["id", "url"],
+  properties: {
+    id: { type: "string" },
+    url: { type: "string" },
+    isBlob: { type: "boolean" },
+    type: { enum: ["image", "color", "gif"] },
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    thumbnailUrl: { type: "string" },
+  },
+};
+
+const bookmarkTile = {
+  type: "object",
+  description:
+    "A bookmark tile on the grid, or a tile board (`type` \"board\"), a bookmark's tags (`type` \"tags\"), a saved search (`type` \"savedSearch\") or a tab session's note (`type` \"session\") (IndexedDB `bookmarks`).",
+  required: ["id", "type", "title"],
+  properties: {
+    id: { type: "string" },
+    type: { type: "string" },
+    nodeId: { type: "string" },
+    title: { type: "string" },
+    url: { type: "string" },
+    tileColor: { type: "string" },
+    tileIcon: { type: "string" },
+    position: { type: "number" },
+    boardId: { type: "string" },
+    order: { type: "number" },
+    tileNumber: { type: "number" },
+    groupingType: { enum: [...GROUPING_TYPES] },
+    sortType: { enum: [...SORT_TYPES] },
+    background: { type: "string" },
+    tags: { type: "array", items: { type: "string" } },
+    query: { type: "string" },
+    pinned: { type: "boolean" },
+    note: { type: "string" },
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  },
+};
+
+const task = {
+  type: "object",
+  description: "A todo or note (IndexedDB `tasks`).",
+  required: ["id", "text", "taskType", "createdAt"],
+  properties: {
+    id: { type: "string" },
+    text: { type: "string" },
+    taskType: { enum: ["todo", "note"] },
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    color: { type: "string" },
+    emoji: { type: "string" },
+    completed: { type: "boolean" },
+    dueDate: { type: "string", pattern: "^\\d{4}-\\d{2}-\\d{2}$" },
+  },
+};
+
+const alarm = {
+  type: "object",
+  description: "An alarm (IndexedDB `alarms`).",
+  required: ["id", "hour", "minute", "enabled", "repeat"],
+  properties: {
+    id: { type: "string" },
+    label: { type: "string" },
+    hour: { type: "integer", minimum: 0, maximum: 23 },
+    minute: { type: "integer", minimum: 0, maximum: 59 },
+    enabled: { type: "boolean" },
+    repeat: { enum: ["once", "daily", "weekdays", "weekends", "custom"] },
+    repeatDays: { type: "array", items: { type: "integer", minimum: 0, maximum: 6 } },
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    lastTriggeredAt: timestamp,
+  },
+};
+
+const reminder = {
+  type: "object",
+  description: "A bookmark reminder (IndexedDB `bookmarkReminders`).",
+  required: ["id", "bookmarkId", "bookmarkTitle", "reminderAt", "enabled", "repeat"],
+  properties: {
+    id: { type: "string" },
+    bookmarkId: { type: "string" },
+    bookmarkTitle: { type: "string" },
+    bookmarkUrl: { type: "string" },
+    favicon: { type: "string" },
+    note: { type: "string" },
+    reminderAt: timestamp,
+    dateOnly: { type: "boolean" },
+    category: { type: "string" },
+    priority: { enum: ["low", "medium", "high"] },
+    repeat: {
+      type: "object",
+      required: ["type"],
+      properties: {
+        type: { enum: ["none", "daily", "weekly", "monthly", "every_x_days", "custom"] },
+        days: { type: "integer", minimum: 1 },
+        weekdays: { type: "array", items: { type: "integer", minimum: 0, maximum: 6 } },
+      },
+    },
+    snoozeUntil: timestamp,
+    enabled: { type: "boolean" },
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    completedAt: timestamp,
+    dismissedAt: timestamp,
+    lastTriggeredAt: timestamp,
+    readState: { enum: ["unread", "reading", "done"], description: "Read Later progress; only on `read_later` reminders." },
+    readingMinutes: { type: "integer", minimum: 1 },
+  },
+};
+
+const customTheme = {
+  type: "object",
+  required: ["id", "name", "text", "bg", "outline"],
+  properties: {
+    id: { type: "string" },
+    name: { type: "string" },
+    text: { type: "string" },
+    bg: { type: "string" },
+    outline: { type: "string" },
+  },
+};
+
+const petModeSettings = {
+  type: "object",
+  description: "Walking pets (localStorage `petModeSettings`).",
+  properties: {
+    enabled: { type: "boolean" },
+    variants: stringList,
+    size: { type: "number" },
+    speed: { type: "number" },
+  },
+};
+
+const dayOfWeek = { enum: ["Saturday", "Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday"] };
+
+// Shared by the 1.x `settings` object and the current `preferences` object.
+const calendarAndThemeProperties = {
+  language: { enum: ["en", "fa"], description: "localStorage `language`." },
+  textColor: { type: "string" },
+  backgroundColor: { type: "string" },
+  textOutlineColor: { type: "string" },
+  fontSizeRatio: { type: "number", exclusiveMinimum: 0 },
+  customThemes: { type: "array", items: customTheme, description: "localStorage `customThemes`." },
+  calendarType: { enum: ["gregorian", "persian"] },
+  tileNumber: { type: "integer", minimum: 1 },
+  weekendDays: { type: "array", items: dayOfWeek },
+  weekendColor: { type: "string" },
+  firstDayOfWeek: dayOfWeek,
+  selectedBackground: { type: ["string", "null"], description: "localStorage `selectedBackground`, a JSON background or a URL." },
+  corgiMode: { type: "boolean" },
+  petModeSettings,
+};
+
+/** The current format (version 2). Preferences and device settings not present in a file are left as they are on restore. */
+export const BACKUP_SCHEMA: SchemaObject = {
+  type: "object",
+  required: ["format", "version", "exportedAt", "preferences", "device", "bookmarks", "tasks"],
+  additionalProperties: false,
+  properties: {
+    format: { const: "nexx-tab-backup" },
+    version: { const: 2 },
+    exportedAt: { type: "string" },
+    preferences: {
+      type: "object",
+      description: "Preferences that also sync between devices.",
+      additionalProperties: false,
+      properties: {
+        ...calendarAndThemeProperties,
+        typeofBookmarkForm: { type: ["string", "null"], description: "localStorage `typeofBookmarkForm`, the bookmark picker grouping." },
+        bookmarkSearchRecursive: { enum: ["0", "1", null], description: "localStorage `bookmarkSearchRecursive`." },
+        pomodoroSettings: {
+          type: "object",
+          description: "localStorage `nexx-pomodoro-settings`.",
+          required: ["workMin", "shortBreakMin", "longBreakMin", "roundsBeforeLong"],
+          properties: {
+            workMin: { type: "number", exclusiveMinimum: 0 },
+            shortBreakMin: { type: "number", exclusiveMinimum: 0 },
+            longBreakMin: { type: "number", exclusiveMinimum: 0 },
+            roundsBeforeLong: { type: "integer", minimum: 1 },
+          },
+        },
+        toolsFavorites: { ...stringList, description: "localStorage `toolsFavorites`." },
+        weatherLocation: {
+          type: ["object", "null"],
+          description: "chrome.storage.local `weather_location`.",
+          required: ["country", "city", "latitude", "longitude", "timezone"],
+          properties: {
+            country: { type: "string" },
+            city: { type: "string" },
+            region: { type: "string" },
+            latitude: { type: "number", minimum: -90, maximum: 90 },
+            longitude: { type: "number", minimum: -180, maximum: 180 },
+            timezone: { type: "string" },
+          },
+        },
+      },
+    },
+    device: {
+      type: "object",
+      description: "Preferences that stay on one device while syncing, but still belong in a backup.",
+      additionalProperties: false,
+      properties: {
+        toolsRecent: { ...stringList, description: "localStorage `toolsRecent`." },
+        reminderSettings: {
+          type: "object",
+          description: "localStorage `nexx_reminder_settings`.",
+          properties: {
+            defaultReminderHour: { type: "integer", minimum: 0, maximum: 23 },
+            defaultReminderMinute: { type: "integer", minimum: 0, maximum: 59 },
+            defaultSnoozeMinutes: { type: "number", exclusiveMinimum: 0 },
+            notificationSound: { type: "boolean" },
+            silentNotifications: { type: "boolean" },
+            timeFormat12h: { type: "boolean" },
+            timezone: { type: "string" },
+            enableRecurring: { type: "boolean" },
+            autoCompleteOnOpen: { type: "boolean" },
+            overdueReNotifyMinutes: { type: "number", minimum: 0 },
+          },
+        },
+        aiProvider: { enum: AI_PROVIDERS.map((provider) => provider.id), description: "localStorage `aiPromptBarProvider`." },
+        searchSite: { enum: SEARCH_SITES.map((site) => site.id), description: "localStorage `aiPromptBarSearchSite`." },
+        promptBarMode: { enum: ["ai", "search"], description: "localStorage `aiPromptBarMode`." },
+        bookmarkSortType: { enum: [...SORT_TYPES], description: "localStorage `bookmarkSortType`." },
+        tileSuggestions: {
+          type: "object",
+          description: "localStorage `nexx_tile_suggestions`.",
+          properties: {
+            enabled: { type: "boolean" },
+            includeHistory: { type: "boolean" },
+            folderId: { type: ["string", "null"] },
+            dismissed: { type: "array", items: { type: "string" } },
+          },
+        },
+      },
+    },
+    backgrounds: {
+      type: "array",
+      items: background,
+      description: "Missing from snapshots taken before a sync; restoring one leaves backgrounds as they are.",
+    },
+    bookmarks: { type: "array", items: bookmarkTile },
+    tasks: { type: "array", items: task },
+    alarms: { type: "array", items: alarm, description: "Left untouched on restore when absent." },
+    reminders: { type: "array", items: reminder, description: "Left untouched on restore when absent." },
+  },
+};
+
+// 1.1: `tasks` replaced `notes`/`todos`; alarms and reminders were added later without a version bump.
+const V1_1_SCHEMA: SchemaObject = {
+  type: "object",
+  required: ["settings", "backgrounds", "bookmarks", "tasks"],
+  properties: {
+    version: { const: "1.1" },
+    exportDate: { type: "string" },
+    settings: { type: "object", properties: calendarAndThemeProperties },
+    backgrounds: { type: "array", items: background },
+    bookmarks: { type: "array", items: bookmarkTile },
+    tasks: { type: "array", items: task },
+    alarms: { type: "array", items: alarm },
+    reminders: { type: "array", items: reminder },
+  },
+};
+
+// 1.0: notes and todos were separate lists, and todos had no creation time.
+const V1_0_SCHEMA: SchemaObject = {
+  type: "object",
+  required: ["settings", "backgrounds", "bookmarks", "notes", "todos"],
+  properties: {
+    version: { const: "1.0" },
+    settings: { type: "object", properties: calendarAndThemeProperties },
+    backgrounds: { type: "array", items: background },
+    bookmarks: { type: "array", items: bookmarkTile },
+    notes: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["id", "text"],
+        properties: { id: { type: "string" }, text: { type: "string" }, createdAt: timestamp, color: { type: "string" } },
+      },
+    },
+    todos: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["id", "text"],
+        properties: {
+          id: { type: "string" },
+          text: { type: "string" },
+          emoji: { type: "string" },
+          completed: { type: "boolean" },
+        },
+      },
+    },
+  },
+};
+
+export const BACKUP_SCHEMAS = {
+  "1.0": V1_0_SCHEMA,
+  "1.1": V1_1_SCHEMA,
+  "2": BACKUP_SCHEMA,
+} as const;
+
+export type BackupVersion = keyof typeof BACKUP_SCHEMAS;
@@ -0,0 +1,111 @@
+import {
+  SYNC_FORMAT_VERSION,
+  SYNC_META_KEY,
+  isSyncStorageKey,
+  packCollections,
+  staleSyncKeys,
+  unpackCollections,
+  type SyncManifest,
+} from "./syncTransport";
+import type { SyncBackend, SyncSnapshot } from "./syncBackend";
+
+// One key per collection, as written before the chunked format; still read from older devices.
+const LEGACY_SYNC_KEYS = {
+  preferences: "nexx_sync_preferences",
+  tasks: "nexx_sync_tasks",
+  alarms: "nexx_sync_alarms",
+  bookmarks: "nexx_sync_bookmarks",
+  backgrounds: "nexx_sync_backgrounds",
+  reminders: "nexx_sync_reminders",
+} as const;
+
+const syncGet = <T>(keys: string | string[] | null): Promise<Record<string, T>> =>
+  new Promise((resolve) => {
+    chrome.storage.sync.get(keys, (result) => {
+      if (chrome.runtime.lastError) {
+        resolve({});
+        return;
+      }
+      resolve(result as Record<string, T>);
+    });
+  });
+
+const syncSet = (items: Record<string, unknown>): Promise<void> =>
+  new Promise((resolve, reject) => {
+    chrome.storage.sync.set(items, () => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message ?? "write failed"));
+        return;
+      }
+      resolve();
+    });
+  });
+
+const syncRemove = (keys: string[]): Promise<void> =>
+  new Promise((resolve) => {
+    if (keys.length === 0) {
+      resolve();
+      return;
+    }
+    chrome.storage.sync.remove(keys, () => {
+      if (chrome.runtime.lastError) {
+        console.warn("[nexx-sync] cleanup failed:", chrome.runtime.lastError.message);
+      }
+      resolve();
+    });
+  });
+
+const readLegacySnapshot = (meta: SyncManifest, result: Record<string, unknown>): SyncSnapshot => ({
+  version: meta.version ?? 1,
+  updatedAt: meta.updatedAt,
+  collections: Object.fromEntries(Object.entries(LEGACY_SYNC_KEYS).map(([name, key]) => [name, result[key]])),
+  omitted: {},
+});
+
+/** chrome.storage.sync: chunked and compressed to fit its quotas; what does not fit is reported as omitted. */
+export const createChromeSyncBackend = (): SyncBackend => {
+  let isWriting = false;
+
+  return {
+    kind: "chrome",
+
+    async read() {
+      const result = await syncGet<unknown>(null);
+      const meta = result[SYNC_META_KEY] as SyncManifest | undefined;
+      if (!meta?.updatedAt) return null;
+      if ((meta.version ?? 1) < SYNC_FORMAT_VERSION) return readLegacySnapshot(meta, result);
+
+      const unpacked = await unpackCollections(meta, result);
+      if (!unpacked) return "incomplete";
+      return { version: meta.version, updatedAt: meta.updatedAt, ...unpacked };
+    },
+
+    async write(collections, updatedAt, carriedOmitted) {
+      isWriting = true;
+      try {
+        const packed = await packCollections(collections, updatedAt, carriedOmitted);
+        // Free the space held by the previous push first: both layouts together can exceed the total quota.
+        const stored = await syncGet<unknown>(null);
+        await syncRemove(staleSyncKeys(stored, packed.items));
+        await syncSet(packed.items);
+        return {
+          omitted: packed.omitted,
+          bytesUsed: packed.bytesUsed,
+          bytesQuota: packed.bytesQuota,
+          bytesByCollection: packed.bytesByCollection,
+        };
+      } finally {
+        isWriting = false;
+      }
+    },
+
+    watch(onChange) {
+      const listener = (changes: Record<string, chrome.storage.StorageChange>, area: string) => {
+        if (area !== "sync" || isWriting) return;
+        if (Object.keys(changes).some(isSyncStorageKey)) onChange();
+      };
+      chrome.storage.onChanged.addListener(listener);
+      return () => chrome.storage.onChanged.removeListener(listener);
+    },
+  };
+};
@@ -0,0 +1,78 @@
+import { SYNC_FILE_NAME, parseSnapshot, pollWhileVisible, serializeSnapshot, type SyncBackend } from "./syncBackend";
+
+// Permission and picker parts of the File System Access API that the DOM typings do not include yet.
+interface PermissionDescriptor {
+  mode: "read" | "readwrite";
+}
+
+interface PermissionedDirectoryHandle extends FileSystemDirectoryHandle {
+  queryPermission(descriptor: PermissionDescriptor): Promise<PermissionState>;
+  requestPermission(descriptor: PermissionDescriptor): Promise<PermissionState>;
+}
+
+type DirectoryPicker = (options?: { id?: string; mode?: "read" | "readwrite" }) => Promise<FileSystemDirectoryHandle>;
+
+const READ_WRITE: PermissionDescriptor = { mode: "readwrite" };
+
+export const isFolderSyncSupported = (): boolean => "showDirectoryPicker" in window;
+
+export const pickSyncFolder = (): Promise<FileSystemDirectoryHandle> =>
+  (window as unknown as { showDirectoryPicker: DirectoryPicker }).showDirectoryPicker({ id: "nexx-sync", mode: "readwrite" });
+
+/** Whether the page may use `folder` without asking; access granted in an earlier session lapses. */
+export const hasFolderAccess = async (folder: FileSystemDirectoryHandle): Promise<boolean> =>
+  (await (folder as PermissionedDirectoryHandle).queryPermission(READ_WRITE)) === "granted";
+
+/** Asks for access again; needs a user gesture. */
+export const requestFolderAccess = async (folder: FileSystemDirectoryHandle): Promise<boolean> =>
+  (await (folder as PermissionedDirectoryHandle).requestPermission(READ_WRITE)) === "granted";
+
+/** A single JSON file in a folder the user picked, e.g. one a desktop sync client keeps in step. */
+export const createFolderSyncBackend = (folder: FileSystemDirectoryHandle): SyncBackend => {
+  let knownModified = 0;
+
+  const fileHandle = async (create: boolean): Promise<FileSystemFileHandle | null> => {
+    if (!(await hasFolderAccess(folder))) throw new Error(`Access to the folder "${folder.name}" needs to be granted again`);
+    try {
+      return await folder.getFileHandle(SYNC_FILE_NAME, { create });
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "NotFoundError") return null;
+      throw error;
+    }
+  };
+
+  return {
+    kind: "folder",
+
+    async read() {
+      const handle = await fileHandle(false);
+      if (!handle) return null;
+      const file = await handle.getFile();
+      knownModified = file.lastModified;
+      return parseSnapshot(await file.text());
+    },
+
+    async write(collections, updatedAt, carriedOmitted) {
+      const { text, result } = serializeSnapshot(collections, updatedAt, carriedOmitted);
+      const handle = await fileHandle(true);
+      if (!handle) throw new Error(`Could not create ${SYNC_FILE_NAME}`);
+      // The writable stream goes to a temporary file that replaces the old one on close.
+      const writable = await handle.createWritable();
+      await writable.write(text);
+      await writable.close();
+      knownModified = (await handle.getFile()).lastModified;
+      return result;
+    },
+
+    watch(onChange) {
+      return pollWhileVisible(async () => {
+        if (!(await hasFolderAccess(folder))) return;
+        const handle = await fileHandle(false);
+        const modified = handle ? (await handle.getFile()).lastModified : 0;
+        if (modified === knownModified) return;
+        knownModified = modified;
+        onChange();
+      });
+    },
+  };
+};
@@ -0,0 +1,123 @@
+import { metaDB, snapshotsDB } from "./settingsDb";
+import { readLocalPreferences, setBeforeRemoteApply } from "./settingsSync";
+import { createBackup, readDeviceSettings, type Backup } from "./backupFormat";
+import { SYNC_COLLECTIONS, type SyncCollection } from "./syncDomains";
+
+// Rotating local snapshots: a safety net that needs no export. The service worker takes the scheduled ones
+// (extension/background.js); the page takes one before every import and every sync that changes local data.
+// The worker cannot read localStorage, so the page keeps a copy of its preferences in the meta store; the worker
+// also reads `device.reminderSettings.autoCompleteOnOpen` from it when a Read Later notification is opened.
+
+export type SnapshotFrequency = "off" | "daily" | "weekly";
+export type SnapshotReason = "scheduled" | "manual" | "import" | "sync";
+
+export interface SnapshotSettings {
+  frequency: SnapshotFrequency;
+  /** Scheduled and manual snapshots kept; older ones are deleted. */
+  keep: number;
+}
+
+export interface Snapshot {
+  id: string;
+  createdAt: number;
+  reason: SnapshotReason;
+  /** Bytes of the serialised backup. */
+  size: number;
+  counts: Record<SyncCollection, number>;
+  backup: Backup;
+}
+
+// Read by extension/background.js as well; keep the names in step.
+export const SNAPSHOT_SETTINGS_KEY = "nexx_snapshot_settings";
+export const PREFERENCES_MIRROR_META_KEY = "preferencesMirror";
+export const DEFAULT_SNAPSHOT_SETTINGS: SnapshotSettings = { frequency: "daily", keep: 7 };
+export const MIN_SNAPSHOT_KEEP = 1;
+export const MAX_SNAPSHOT_KEEP = 30;
+// Snapshots taken before an import or sync are pruned separately, so a busy sync never pushes out the daily ones.
+const SAFETY_SNAPSHOTS_KEPT = 5;
+const SAFETY_REASONS: SnapshotReason[] = ["import", "sync"];
+
+export const getSnapshotSettings = (): Promise<SnapshotSettings> =>
+  new Promise((resolve) => {
+    chrome.storage.local.get(SNAPSHOT_SETTINGS_KEY, (result) => {
+      if (chrome.runtime.lastError) {
+        resolve(DEFAULT_SNAPSHOT_SETTINGS);
+        return;
+      }
+      resolve({ ...DEFAULT_SNAPSHOT_SETTINGS, ...(result[SNAPSHOT_SETTINGS_KEY] as Partial<SnapshotSettings> | undefined) });
+    });
+  });
+
+/** The service worker reschedules its alarm when this changes. */
+export const saveSnapshotSettings = (settings: SnapshotSettings): Promise<void> =>
+  new Promise((resolve) => {
+    chrome.storage.local.set({ [SNAPSHOT_SETTINGS_KEY]: settings }, () => resolve());
+  });
+
+/** Newest first. */
+export const listSnapshots = (): Promise<Snapshot[]> =>
+  snapshotsDB.queryIndex<Snapshot>("createdAt", undefined, { direction: "prev" });
+
+const pruneSnapshots = async (keep: number) => {
+  const snapshots = await listSnapshots();
+  const safety = snapshots.filter((snapshot) => SAFETY_REASONS.includes(snapshot.reason));
+  const regular = snapshots.filter((snapshot) => !SAFETY_REASONS.includes(snapshot.reason));
+  const expired = [...safety.slice(SAFETY_SNAPSHOTS_KEPT), ...regular.slice(keep)];
+  for (const snapshot of expired) await snapshotsDB.deleteItem(snapshot.id);
+};
+
+// Snapshots before a sync leave the backgrounds out: they are the heavy part, and a busy sync would store
+// every uploaded image again each time.
+const snapshotBackup = async (reason: SnapshotReason): Promise<Backup> => {
+  const backup = await createBackup();
+  return reason === "sync" ? { ...backup, backgrounds: undefined } : backup;
+};
+
+export const takeSnapshot = async (reason: SnapshotReason): Promise<Snapshot> => {
+  const backup = await snapshotBackup(reason);
+  const snapshot: Snapshot = {
+    id: crypto.randomUUID(),
+    createdAt: Date.now(),
+    reason,
+    size: new TextEncoder().encode(JSON.stringify(backup)).length,
+    counts: Object.fromEntries(
+      SYNC_COLLECTIONS.map((name) => [name, backup[name]?.length ?? 0]),
+    ) as Record<SyncCollection, number>,
+    backup,
+  };
+  await snapshotsDB.saveItem(snapshot);
+  await pruneSnapshots((await getSnapshotSettings()).keep);
+  return snapshot;
+};
+
+const refreshPreferencesMirror = async () => {
+  await metaDB.saveItem({
+    key: PREFERENCES_MIRROR_META_KEY,
+    preferences: await readLocalPreferences(),
+    device: readDeviceSettings(),
+    updatedAt: Date.now(),
+  });
+};
+
+/**
+ * Keeps the preferences copy for scheduled snapshots fresh and snapshots before sync applies.
+ * Call once per page, before the first sync; returns the cleanup function.
+ */
+export const initLocalSnapshots = (): (() => void) => {
+  const refresh = () => {
+    refreshPreferencesMirror().catch((error) => console.warn("[nexx-snapshots] could not save preferences:", error));
+  };
+  const onVisibilityChange = () => {
+    if (document.visibilityState === "hidden") refresh();
+  };
+
+  setBeforeRemoteApply(async () => {
+    await takeSnapshot("sync");
+  });
+  refresh();
+  document.addEventListener("visibilitychange", onVisibilityChange);
+  return () => {
+    setBeforeRemoteApply(null);
+    document.removeEventListener("visibilitychange", onVisibilityChange);
+  };
+};
@@ -1,4 +1,6 @@
-import { backgroundsDB, bookmarksDB, tasksDB, alarmsDB, bookmarkRemindersDB } from "./settingsDb";
+import { backgroundsDB, bookmarksDB, tasksDB, alarmsDB, bookmarkRemindersDB, tombstonesDB, metaDB } from "./settingsDb";
+import { bulkWriteStores } from "../IndexedDatabase/IndexedDatabase";
+import { tombstoneKey, type AppStoreName, type Tombstone } from "../IndexedDatabase/schema";
 import { getStoredLocation, saveLocation } from "../weather/storage";
 import { POMODORO_SETTINGS_KEY, DEFAULT_POMODORO_SETTINGS } from "../timerAlarm/pomodoroUtils";
 import { CUSTOM_THEMES_KEY, MAX_CUSTOM_THEMES, type CustomTheme } from "../ThemeProvider";
@@ -8,24 +10,61 @@ import { getPetModeSettings, setPetModeSettings } from "../../features/corgi/Cor
 import type { Task } from "../tasks/types";
 import type { AlarmItem, PomodoroSettings } from "../timerAlarm/types";
 import type { BookmarkReminder } from "../bookmarks/reminders/types";
+import { isBoardRecord, loadBoardTiles, tileBoardId } from "../bookmarks/tileBoards";
+import { isSavedSearchRecord, isTagsRecord, type BookmarkTagsRecord } from "../bookmarks/bookmarkTags";
+import { isSessionRecord, type TabSessionRecord } from "../bookmarks/tabSessions";
 import type { WeatherLocation } from "../weather/types";
+import { SYNC_FORMAT_VERSION } from "./syncTransport";
+import { hashValue, mergeCollection, type ConflictResolution, type SyncBase, type SyncTombstone } from "./syncMerge";
+import {
+  getSyncStatus,
+  logSyncConflicts,
+  recordSyncError,
+  removeSyncConflict,
+  updateSyncStatus,
+  type SyncConflictEntry,
+  type SyncStatus,
+} from "./syncStatus";
+import { notifyLocalSubscribers, subscribeDataChanges } from "../IndexedDatabase/changeBus";
+import {
+  SYNC_BACKEND_META_KEY,
+  createSyncBackend,
+  readSyncBackendConfig,
+  saveSyncBackendConfig,
+  type SyncBackend,
+  type SyncBackendConfig,
+  type SyncWriteResult,
+} from "./syncBackend";
+import {
+  clearSyncKey,
+  createSyncKey,
+  encryptionHeader,
+  getSyncKey,
+  joinSyncKey,
+  openJson,
+  restoreSyncKey,
+  sealJson,
+  type EncryptionHeader,
+  type StoredSyncKey,
+} from "./syncCrypto";
+import {
+  SYNC_COLLECTIONS,
+  getSyncDomains,
+  splitPreferences,
+  type SyncCollection,
+  type SyncDomainSettings,
+} from "./syncDomains";
 
-export const SYNC_VERSION = 1;
-export const SYNC_META_KEY = "nexx_sync_meta";
 export const LOCAL_UPDATED_KEY = "nexx_sync_local_updated_at";
 
-export const SYNC_KEYS = {
-  preferences: "nexx_sync_preferences",
-  tasks: "nexx_sync_tasks",
-  alarms: "nexx_sync_alarms",
-  bookmarks: "nexx_sync_bookmarks",
-  backgrounds: "nexx_sync_backgrounds",
-  reminders: "nexx_sync_reminders",
-} as const;
-
-const MAX_ITEM_BYTES = 8192;
-const MAX_DATA_URL_LENGTH = 1500;
 const DEBOUNCE_MS = 2000;
+const REPORT_LABEL_LENGTH = 80;
+const SYNC_BASE_META_KEY = "syncBase";
+const TOMBSTONE_TTL_MS = 90 * 24 * 60 * 60 * 1000;
+const ENCRYPTION_COLLECTION = "encryption";
+// Merges tried in a row when another device keeps writing between this device's read and write
+const MAX_SYNC_ATTEMPTS = 3;
+const WRITE_CONFLICT_ERROR = "Another device wrote to sync storage at the same time; try again";
 
 export interface SyncMeta {
   version: number;
@@ -63,7 +102,10 @@ export interface SyncBookmarkTile {
   tileColor: string;
   tileIcon: string;
   position: number;
+  /** See bookmarks/tileBoards.ts; absent on tiles of the default board. */
+  boardId?: string;
   createdAt: number;
+  updatedAt?: number;
 }
 
 export interface SyncPayload {
@@ -71,36 +113,50 @@ export interface SyncPayload {
   preferences: SyncPreferences;
   tasks: Task[];
   alarms: AlarmItem[];
+  /** Tiles, plus the board, tag, saved-search and tab-session records stored next to them (see bookmarks/tileBoards.ts, bookmarkTags.ts, tabSessions.ts). */
   bookmarks: SyncBookmarkTile[];
   backgrounds: StoredBackground[];
   reminders: BookmarkReminder[];
+  tombstones?: Partial<Record<SyncCollection, SyncTombstone[]>>;
+  /** Ids the sender could not fit into sync storage; local copies of these are kept on merge. */
+  omitted?: Partial<Record<SyncCollection, string[]>>;
 }
 
-let pushTimer: ReturnType<typeof setTimeout> | null = null;
-let isPushing = false;
+interface SyncRecord {
+  id: string;
+  createdAt?: number;
+  updatedAt?: number;
+}
 
-const syncGet = <T>(keys: string | string[]): Promise<Record<string, T>> =>
-  new Promise((resolve) => {
-    chrome.storage.sync.get(keys, (result) => {
-      if (chrome.runtime.lastError) {
-        resolve({});
-        return;
-      }
-      resolve(result as Record<string, T>);
-    });
-  });
+interface SealedRecord {
+  id: string;
+  sealed: string;
+}
 
-const syncSet = (items: Record<string, unknown>): Promise<boolean> =>
-  new Promise((resolve) => {
-    chrome.storage.sync.set(items, () => {
-      if (chrome.runtime.lastError) {
-        console.warn("[nexx-sync] write failed:", chrome.runtime.lastError.message);
-        resolve(false);
-        return;
-      }
-      resolve(true);
-    });
-  });
+interface PreferenceRecord {
+  id: string;
+  value: unknown;
+}
+
+/** Record hashes per collection as of the last sync both sides agreed on. */
+interface StoredSyncBase {
+  key: string;
+  updatedAt: number;
+  collections: Record<string, SyncBase>;
+}
+
+let pushTimer: ReturnType<typeof setTimeout> | null = null;
+let syncQueue: Promise<unknown> = Promise.resolve();
+let notifyRemoteChange: (() => void) | null = null;
+let backend: Promise<SyncBackend> | null = null;
+let stopWatchingBackend: (() => void) | null = null;
+let beforeRemoteApply: (() => Promise<void>) | null = null;
+
+// One instance per page, so a backend can tell its own writes from other devices'.
+const activeBackend = (): Promise<SyncBackend> => {
+  backend ??= readSyncBackendConfig().then(createSyncBackend);
+  return backend;
+};
 
 const readJson = <T>(raw: string | null, fallback: T): T => {
   if (!raw) return fallback;
@@ -133,44 +189,65 @@ const readStringArray = (key: string): string[] => {
   return Array.isArray(parsed) ? parsed.filter((item): item is string => typeof item === "string") : [];
 };
 
-const stripLargeDataUrl = (url: string): string => {
-  if (url.startsWith("data:") && url.length > MAX_DATA_URL_LENGTH) {
-    return "";
-  }
-  return url;
+// Generated thumbnails are rebuilt from the image when missing, so they never take sync space.
+const prepareBackgroundForSync = (bg: StoredBackground): StoredBackground =>
+  bg.thumbnailUrl?.startsWith("data:") ? { ...bg, thumbnailUrl: undefined } : bg;
+
+const newestFirst = <T extends { createdAt: number }>(items: T[]): T[] =>
+  [...items].sort((a, b) => (b.createdAt ?? 0) - (a.createdAt ?? 0));
+
+// Where the records stored next to the tiles claim sync space: boards first, since a tile whose board did not
+// fit lands on the default board of every other device; then saved searches, which are few and small; then
+// the tiles; then tags, which only add to a tile that made it; then tab-session notes, the least missed.
+const bookmarkSyncRank = (record: SyncBookmarkTile) => {
+  if (isBoardRecord(record)) return 0;
+  if (isSavedSearchRecord(record)) return 1;
+  if (isTagsRecord(record)) return 3;
+  if (isSessionRecord(record)) return 4;
+  return 2;
 };
 
-const prepareBackgroundForSync = (bg: StoredBackground): StoredBackground | null => {
-  const url = stripLargeDataUrl(bg.url);
-  if (bg.isBlob && !url) return null;
+// Tiles by grid position; records without one (two of them compare equal, not NaN) go after them.
+const byBookmarkSyncOrder = (a: SyncBookmarkTile, b: SyncBookmarkTile) =>
+  bookmarkSyncRank(a) - bookmarkSyncRank(b) || (a.position ?? Infinity) - (b.position ?? Infinity) || 0;
 
-  const thumbnailUrl = bg.thumbnailUrl ? stripLargeDataUrl(bg.thumbnailUrl) : undefined;
+/** Collections in the order they claim sync space, each sorted so the items that matter most come first. */
+const orderForSync = (payload: SyncPayload): Record<SyncCollection, { id: string }[]> => {
+  const selected = payload.preferences.selectedBackground;
   return {
-    ...bg,
-    url: url || bg.url.slice(0, MAX_DATA_URL_LENGTH),
-    thumbnailUrl: thumbnailUrl || undefined,
+    reminders: newestFirst(payload.reminders ?? []),
+    tasks: newestFirst(payload.tasks),
+    alarms: newestFirst(payload.alarms),
+    bookmarks: [...payload.bookmarks].sort(byBookmarkSyncOrder),
+    backgrounds: newestFirst(payload.backgrounds.map(prepareBackgroundForSync)).sort(
+      (a, b) => Number(b.id === selected) - Number(a.id === selected),
+    ),
   };
 };
 
-const prepareBackgroundsForSync = (backgrounds: StoredBackground[]): StoredBackground[] =>
-  backgrounds.map(prepareBackgroundForSync).filter((bg): bg is StoredBackground => bg !== null);
+const truncateLabel = (label: string) =>
+  label.length > REPORT_LABEL_LENGTH ? `${label.slice(0, REPORT_LABEL_LENGTH - 1)}…` : label;
 
-const fitsSyncItem = (value: unknown): boolean => JSON.stringify(value).length <= MAX_ITEM_BYTES;
+const pad2 = (value: number) => String(value).padStart(2, "0");
 
-const shrinkBackgroundsUntilFit = (backgrounds: StoredBackground[]): StoredBackground[] => {
-  let prepared = prepareBackgroundsForSync(backgrounds);
-  while (prepared.length > 0 && !fitsSyncItem(prepared)) {
-    prepared = prepared.slice(0, -1);
-  }
-  return prepared;
-};
-
-const shrinkArrayUntilFit = <T>(items: T[]): T[] => {
-  let next = [...items];
-  while (next.length > 0 && !fitsSyncItem(next)) {
-    next = next.slice(0, -1);
+// Empty labels (e.g. uploaded images) are given a generic name by the report UI.
+export const reportLabel = (collection: SyncCollection, item: unknown): string => {
+  switch (collection) {
+    case "tasks":
+      return (item as Task).text ?? "";
+    case "alarms": {
+      const alarm = item as AlarmItem;
+      return alarm.label || `${pad2(alarm.hour)}:${pad2(alarm.minute)}`;
+    }
+    case "bookmarks":
+      return (item as SyncBookmarkTile).title ?? "";
+    case "reminders":
+      return (item as BookmarkReminder).bookmarkTitle ?? "";
+    case "backgrounds": {
+      const bg = item as StoredBackground;
+      return bg.isBlob || bg.url.startsWith("data:") ? "" : bg.url;
+    }
   }
-  return next;
 };
 
 export const getLocalUpdatedAt = (): number => {
@@ -183,7 +260,8 @@ const touchLocalUpdatedAt = () => {
   localStorage.setItem(LOCAL_UPDATED_KEY, String(Date.now()));
 };
 
-export const collectLocalData = async (): Promise<SyncPayload> => {
+/** Every synced preference as stored on this device, whether or not its domain syncs. */
+export const readLocalPreferences = async (): Promise<SyncPreferences> => {
   const pomodoroSettings = readJson<PomodoroSettings>(
     localStorage.getItem(POMODORO_SETTINGS_KEY),
     DEFAULT_POMODORO_SETTINGS,
@@ -192,7 +270,7 @@ export const collectLocalData = async (): Promise<SyncPayload> => {
   const fontSizeRaw = localStorage.getItem("fontSizeRatio");
   const fontSizeParsed = fontSizeRaw ? Number.parseFloat(fontSizeRaw) : 1;
 
-  const preferences: SyncPreferences = {
+  return {
     language: localStorage.getItem("language") === "fa" ? "fa" : "en",
     textColor: localStorage.getItem("textColor") || "#FFFFFF",
     backgroundColor: localStorage.getItem("backgroundColor") || "rgba(0, 0, 0, 0.2)",
@@ -213,27 +291,37 @@ export const collectLocalData = async (): Promise<SyncPayload> => {
     toolsFavorites: readStringArray("toolsFavorites"),
     weatherLocation: await getStoredLocation(),
   };
+};
 
-  const [tasks, alarms, bookmarks, backgrounds, reminders] = await Promise.all([
-    tasksDB.getAllItems<Task>(),
-    alarmsDB.getAllItems<AlarmItem>(),
-    bookmarksDB.getAllItems<SyncBookmarkTile>(),
-    backgroundsDB.getAllItems<StoredBackground>(),
-    bookmarkRemindersDB.getAllItems<BookmarkReminder>(),
+/** This device's data for the domains it syncs; other collections come back empty and other preference fields absent. */
+export const collectLocalData = async (domains: SyncDomainSettings = getSyncDomains()): Promise<SyncPayload> => {
+  const readCollection = <T>(name: SyncCollection): Promise<T[]> =>
+    domains[name] ? COLLECTION_DBS[name].getAllItems<T>() : Promise.resolve([]);
+
+  const [preferences, tasks, alarms, bookmarks, backgrounds, reminders, tombstones] = await Promise.all([
+    readLocalPreferences(),
+    readCollection<Task>("tasks"),
+    readCollection<AlarmItem>("alarms"),
+    readCollection<SyncBookmarkTile>("bookmarks"),
+    readCollection<StoredBackground>("backgrounds"),
+    readCollection<BookmarkReminder>("reminders"),
+    readTombstones(domains),
   ]);
 
   return {
-    meta: { version: SYNC_VERSION, updatedAt: Date.now() },
-    preferences,
+    meta: { version: SYNC_FORMAT_VERSION, updatedAt: Date.now() },
+    preferences: splitPreferences(preferences, domains).synced as SyncPreferences,
     tasks,
     alarms,
     bookmarks,
     backgrounds,
     reminders,
+    tombstones,
   };
 };
 
-const applyPreferences = async (preferences: SyncPreferences) => {
+/** Writes preferences back to localStorage and chrome.storage; the page reloads to pick them up. */
+export const applyPreferences = async (preferences: SyncPreferences) => {
   localStorage.setItem("language", preferences.language);
   localStorage.setItem("textColor", preferences.textColor);
   localStorage.setItem("backgroundColor", preferences.backgroundColor);
@@ -298,19 +386,6 @@ const applyPreferences = async (preferences: SyncPreferences) => {
   }
 };
 
-const replaceStoreItems = async <T extends { id: string }>(
-  db: typeof backgroundsDB,
-  items: T[],
-) => {
-  const existing = await db.getAllItems<T>();
-  for (const item of existing) {
-    await db.deleteItem(item.id);
-  }
-  for (const item of items) {
-    await db.saveItem(item);
-  }
-};
-
 const resolveBookmarkNodeId = (tile: SyncBookmarkTile): Promise<string> =>
   new Promise((resolve) => {
     if (!tile.url) {
@@ -327,118 +402,605 @@ const resolveBookmarkNodeId = (tile: SyncBookmarkTile): Promise<string> =>
     });
   });
 
-const applyBookmarks = async (bookmarks: SyncBookmarkTile[]) => {
-  const resolved = await Promise.all(
-    bookmarks.map(async (tile) => ({
-      ...tile,
-      nodeId: await resolveBookmarkNodeId(tile),
-    })),
-  );
-  await replaceStoreItems(bookmarksDB, resolved);
+// Tiles, tag and session records name a bookmark node; board and saved-search records stored next to them do not.
+const pointsAtBookmarkNode = (record: object) => !isBoardRecord(record) && !isSavedSearchRecord(record);
+
+const COLLECTION_DBS = {
+  reminders: bookmarkRemindersDB,
+  tasks: tasksDB,
+  alarms: alarmsDB,
+  bookmarks: bookmarksDB,
+  backgrounds: backgroundsDB,
+} satisfies Record<SyncCollection, { storeName: AppStoreName }>;
+
+const COLLECTION_STORES = Object.fromEntries(
+  SYNC_COLLECTIONS.map((name) => [name, COLLECTION_DBS[name].storeName]),
+) as Record<SyncCollection, AppStoreName>;
+
+// Fields that differ between devices without anyone editing the record; they never count as a change.
+const DEVICE_LOCAL_FIELDS: Record<SyncCollection, string[]> = {
+  reminders: ["updatedAt"],
+  tasks: ["updatedAt"],
+  alarms: ["updatedAt", "lastTriggeredAt"],
+  bookmarks: ["updatedAt", "nodeId"],
+  backgrounds: ["updatedAt", "thumbnailUrl"],
 };
 
-export const applySyncPayload = async (payload: SyncPayload) => {
-  await applyPreferences(payload.preferences);
-  await replaceStoreItems(tasksDB, payload.tasks);
-  await replaceStoreItems(alarmsDB, payload.alarms);
-  await applyBookmarks(payload.bookmarks);
-  await replaceStoreItems(backgroundsDB, payload.backgrounds);
-  await replaceStoreItems(bookmarkRemindersDB, payload.reminders ?? []);
-  localStorage.setItem(LOCAL_UPDATED_KEY, String(payload.meta.updatedAt));
+const readTombstones = async (domains: SyncDomainSettings): Promise<Partial<Record<SyncCollection, SyncTombstone[]>>> => {
+  const all = await tombstonesDB.getAllItems<Tombstone>();
+  const result: Partial<Record<SyncCollection, SyncTombstone[]>> = {};
+  for (const name of SYNC_COLLECTIONS.filter((collection) => domains[collection])) {
+    result[name] = all
+      .filter((tombstone) => tombstone.store === COLLECTION_STORES[name])
+      .map(({ id, deletedAt }) => ({ id, deletedAt }));
+  }
+  return result;
 };
 
-const readSyncPayload = async (): Promise<SyncPayload | null> => {
-  const keys = [SYNC_META_KEY, ...Object.values(SYNC_KEYS)];
-  const result = await syncGet<unknown>(keys);
+const readSyncBase = async (): Promise<StoredSyncBase | null> => metaDB.getItem<StoredSyncBase>(SYNC_BASE_META_KEY);
+
+const preferenceRecords = (preferences: Partial<SyncPreferences>): PreferenceRecord[] =>
+  Object.entries(preferences).map(([id, value]) => ({ id, value }));
 
-  const meta = result[SYNC_META_KEY] as SyncMeta | undefined;
-  if (!meta?.updatedAt) return null;
+// Domains this browser does not sync are passed through from sync storage untouched, so other devices keep them.
+const withRemoteExcluded = (local: SyncPayload, remote: SyncPayload, domains: SyncDomainSettings): SyncPayload => {
+  const tombstones = { ...local.tombstones };
+  const omitted: Partial<Record<SyncCollection, string[]>> = {};
+  const payload: SyncPayload = {
+    ...local,
+    preferences: { ...splitPreferences(remote.preferences ?? {}, domains).local, ...local.preferences } as SyncPreferences,
+    tombstones,
+    omitted,
+  };
+  for (const name of SYNC_COLLECTIONS.filter((collection) => !domains[collection])) {
+    (payload as unknown as Record<SyncCollection, unknown[]>)[name] = remote[name] ?? [];
+    tombstones[name] = remote.tombstones?.[name] ?? [];
+    if (remote.omitted?.[name]) omitted[name] = remote.omitted[name];
+  }
+  return payload;
+};
+
+interface MergedSync {
+  payload: SyncPayload;
+  changedLocally: boolean;
+  preferencesChanged: boolean;
+  changedRemotely: boolean;
+  base: StoredSyncBase;
+  conflicts: Omit<SyncConflictEntry, "key">[];
+}
+
+/**
+ * Three-way merge of this device, the sync storage copy and the last agreed base, record by record.
+ * Only the domains enabled in `domains` are merged; the rest keep the remote copy and their old base.
+ */
+const mergeWithRemote = async (
+  local: SyncPayload,
+  remote: SyncPayload,
+  base: StoredSyncBase | null,
+  localChangedAt: number,
+  domains: SyncDomainSettings,
+): Promise<MergedSync> => {
+  const now = Date.now();
+  const conflicts: Omit<SyncConflictEntry, "key">[] = [];
+  const nextBase: StoredSyncBase = { key: SYNC_BASE_META_KEY, updatedAt: now, collections: {} };
+  const merged: SyncPayload = { ...withRemoteExcluded(local, remote, domains), meta: { version: SYNC_FORMAT_VERSION, updatedAt: now } };
+  const tombstones = merged.tombstones ?? {};
+  let changedLocally = false;
+  let changedRemotely = false;
+
+  // Preferences merge field by field; a field missing remotely (older format) is unknown, not deleted.
+  const remotePreferences = splitPreferences(remote.preferences ?? {}, domains).synced;
+  const preferencesBase = base ? splitPreferences(base.collections.preferences ?? {}, domains) : null;
+  const preferences = mergeCollection<PreferenceRecord>(
+    { records: preferenceRecords(local.preferences), tombstones: [] },
+    {
+      records: preferenceRecords(remotePreferences),
+      tombstones: [],
+      unknown: Object.keys(local.preferences).filter((field) => !(field in remotePreferences)),
+    },
+    (preferencesBase?.synced as SyncBase | undefined) ?? null,
+    {
+      id: (record) => record.id,
+      hash: (record) => hashValue(record.value),
+      time: (_record, side) => (side === "local" ? localChangedAt : remote.meta.updatedAt),
+      tombstoneTtlMs: TOMBSTONE_TTL_MS,
+      now,
+    },
+  );
+  merged.preferences = {
+    ...merged.preferences,
+    ...Object.fromEntries(preferences.records.map((record) => [record.id, record.value])),
+  };
+  nextBase.collections.preferences = { ...(preferencesBase?.local as SyncBase | undefined), ...preferences.base };
+  changedRemotely ||= preferences.changedRemotely;
+  for (const conflict of preferences.conflicts) {
+    conflicts.push({
+      collection: "preferences",
+      id: conflict.id,
+      local: conflict.local?.value ?? null,
+      remote: conflict.remote?.value ?? null,
+      resolution: conflict.resolution,
+      at: now,
+    });
+  }
+
+  for (const name of SYNC_COLLECTIONS) {
+    if (!domains[name]) {
+      nextBase.collections[name] = base?.collections[name] ?? {};
+      continue;
+    }
+
+    const result = mergeCollection<SyncRecord>(
+      { records: local[name] as SyncRecord[], tombstones: local.tombstones?.[name] ?? [] },
+      {
+        records: (remote[name] ?? []) as SyncRecord[],
+        tombstones: remote.tombstones?.[name] ?? [],
+        unknown: remote.omitted?.[name],
+      },
+      base?.collections[name] ?? null,
+      {
+        id: (record) => String(record.id),
+        hash: (record) => hashValue(record, DEVICE_LOCAL_FIELDS[name]),
+        time: (record) => record.updatedAt ?? record.createdAt ?? 0,
+        tombstoneTtlMs: TOMBSTONE_TTL_MS,
+        now,
+      },
+    );
+
+    let records = result.records;
+    if (name === "bookmarks" && result.fromRemote.size > 0) {
+      // Bookmark node ids differ per browser profile; re-resolve tiles and tags that came from another device.
+      records = await Promise.all(
+        records.map(async (record) =>
+          result.fromRemote.has(String(record.id)) && pointsAtBookmarkNode(record)
+            ? { ...record, nodeId: await resolveBookmarkNodeId(record as unknown as SyncBookmarkTile) }
+            : record,
+        ),
+      );
+    }
+
+    (merged as unknown as Record<SyncCollection, SyncRecord[]>)[name] = records;
+    tombstones[name] = result.tombstones;
+    nextBase.collections[name] = result.base;
+    changedLocally ||= result.changedLocally;
+    changedRemotely ||= result.changedRemotely;
+    for (const conflict of result.conflicts) {
+      conflicts.push({ collection: name, ...conflict, at: now });
+    }
+  }
 
   return {
-    meta,
-    preferences: (result[SYNC_KEYS.preferences] as SyncPreferences) ?? ({} as SyncPreferences),
-    tasks: (result[SYNC_KEYS.tasks] as Task[]) ?? [],
-    alarms: (result[SYNC_KEYS.alarms] as AlarmItem[]) ?? [],
-    bookmarks: (result[SYNC_KEYS.bookmarks] as SyncBookmarkTile[]) ?? [],
-    backgrounds: (result[SYNC_KEYS.backgrounds] as StoredBackground[]) ?? [],
-    reminders: (result[SYNC_KEYS.reminders] as BookmarkReminder[]) ?? [],
+    payload: merged,
+    changedLocally: changedLocally || preferences.changedLocally,
+    preferencesChanged: preferences.changedLocally,
+    changedRemotely,
+    base: nextBase,
+    conflicts,
   };
 };
 
-export const pushLocalToSync = async (): Promise<boolean> => {
-  isPushing = true;
+// Stores and tombstones are swapped in one transaction before preferences change, so a failed apply leaves local data untouched.
+// Domains this browser does not sync are left exactly as they are.
+const applyMergedPayload = async (payload: SyncPayload, preferencesChanged: boolean, domains: SyncDomainSettings) => {
   try {
-    const payload = await collectLocalData();
-    touchLocalUpdatedAt();
-    payload.meta.updatedAt = Date.now();
-    localStorage.setItem(LOCAL_UPDATED_KEY, String(payload.meta.updatedAt));
-
-    const backgrounds = shrinkBackgroundsUntilFit(payload.backgrounds);
-    const tasks = shrinkArrayUntilFit(payload.tasks);
-    const alarms = shrinkArrayUntilFit(payload.alarms);
-    const bookmarks = shrinkArrayUntilFit(payload.bookmarks);
-    const reminders = shrinkArrayUntilFit(payload.reminders ?? []);
-
-    const items: Record<string, unknown> = {
-      [SYNC_META_KEY]: payload.meta,
-      [SYNC_KEYS.preferences]: payload.preferences,
-      [SYNC_KEYS.tasks]: tasks,
-      [SYNC_KEYS.alarms]: alarms,
-      [SYNC_KEYS.bookmarks]: bookmarks,
-      [SYNC_KEYS.backgrounds]: backgrounds,
-      [SYNC_KEYS.reminders]: reminders,
-    };
+    await beforeRemoteApply?.();
+  } catch (error) {
+    console.warn("[nexx-sync] pre-apply hook failed:", error);
+  }
+  const applied = SYNC_COLLECTIONS.filter((name) => domains[name]);
+  const appliedStores = new Set<string>(applied.map((name) => COLLECTION_STORES[name]));
+  const keptTombstones = (await tombstonesDB.getAllItems<Tombstone>()).filter(
+    (tombstone) => !appliedStores.has(tombstone.store),
+  );
+  const tombstones: Tombstone[] = applied.flatMap((name) =>
+    (payload.tombstones?.[name] ?? []).map(({ id, deletedAt }) => ({
+      key: tombstoneKey(COLLECTION_STORES[name], id),
+      store: COLLECTION_STORES[name],
+      id,
+      deletedAt,
+    })),
+  );
+  await bulkWriteStores({
+    replace: {
+      ...Object.fromEntries(applied.map((name) => [COLLECTION_STORES[name], payload[name]])),
+      [tombstonesDB.storeName]: [...keptTombstones, ...tombstones],
+    },
+  });
+  if (preferencesChanged) {
+    await applyPreferences({ ...(await readLocalPreferences()), ...splitPreferences(payload.preferences, domains).synced });
+  }
+};
 
-    return syncSet(items);
-  } finally {
-    isPushing = false;
+// Records are sealed one by one so a quota-limited backend can still leave single ones out; only ids and tombstones stay readable.
+const sealCollections = async (collections: [string, unknown][], stored: StoredSyncKey): Promise<[string, unknown][]> => [
+  [ENCRYPTION_COLLECTION, encryptionHeader(stored)],
+  ...(await Promise.all(
+    collections.map(async ([name, value]): Promise<[string, unknown]> => {
+      if (name === "tombstones") return [name, value];
+      if (!Array.isArray(value)) return [name, await sealJson(stored.cryptoKey, value)];
+      return [
+        name,
+        await Promise.all(
+          (value as SyncRecord[]).map(async (record): Promise<SealedRecord> => ({
+            id: record.id,
+            sealed: await sealJson(stored.cryptoKey, record),
+          })),
+        ),
+      ];
+    }),
+  )),
+];
+
+const openCollections = async (collections: Record<string, unknown>, stored: StoredSyncKey) => {
+  const opened: Record<string, unknown> = {};
+  for (const [name, value] of Object.entries(collections)) {
+    if (name === ENCRYPTION_COLLECTION) continue;
+    if (name === "tombstones" || value === undefined) {
+      opened[name] = value;
+    } else if (Array.isArray(value)) {
+      opened[name] = await Promise.all((value as SealedRecord[]).map((record) => openJson(stored.cryptoKey, record.sealed)));
+    } else {
+      opened[name] = await openJson(stored.cryptoKey, value as string);
+    }
   }
+  return opened;
 };
 
-export const bootstrapSync = async (): Promise<void> => {
+/**
+ * The payload in the sync backend, null when there is none, "incomplete" while another device is mid-push,
+ * or "locked" when it is encrypted with a key this device does not have.
+ */
+const readSyncPayload = async (): Promise<SyncPayload | null | "incomplete" | "locked"> => {
+  const snapshot = await (await activeBackend()).read();
+  if (!snapshot || snapshot === "incomplete") return snapshot;
+  let { collections } = snapshot;
+
+  const header = collections[ENCRYPTION_COLLECTION] as EncryptionHeader | undefined;
+  const stored = header ? await getSyncKey() : null;
+  if (header) {
+    if (!stored || stored.keyId !== header.keyId) {
+      updateSyncStatus({ locked: stored ? "rotated" : "missing" });
+      return "locked";
+    }
+    collections = await openCollections(collections, stored);
+  }
+  if (getSyncStatus().locked) updateSyncStatus({ locked: undefined });
+
+  return {
+    meta: { version: snapshot.version, updatedAt: snapshot.updatedAt },
+    preferences: (collections.preferences as SyncPreferences) ?? ({} as SyncPreferences),
+    tasks: (collections.tasks as Task[]) ?? [],
+    alarms: (collections.alarms as AlarmItem[]) ?? [],
+    bookmarks: (collections.bookmarks as SyncBookmarkTile[]) ?? [],
+    backgrounds: (collections.backgrounds as StoredBackground[]) ?? [],
+    reminders: (collections.reminders as BookmarkReminder[]) ?? [],
+    tombstones: (collections.tombstones as SyncPayload["tombstones"]) ?? {},
+    omitted: snapshot.omitted,
+  };
+};
+
+/** True once written, false when the write failed, "conflict" when another device wrote since the last read. */
+const writeSyncPayload = async (payload: SyncPayload): Promise<boolean | "conflict"> => {
+  const ordered = orderForSync(payload);
+  let written: SyncWriteResult | "conflict";
+  try {
+    const collections: [string, unknown][] = [
+      ["preferences", payload.preferences],
+      ["tombstones", payload.tombstones ?? {}],
+      ...SYNC_COLLECTIONS.map((name): [string, unknown] => [name, ordered[name]]),
+    ];
+    const stored = await getSyncKey();
+    written = await (await activeBackend()).write(
+      stored ? await sealCollections(collections, stored) : collections,
+      payload.meta.updatedAt,
+      payload.omitted,
+    );
+  } catch (error) {
+    recordSyncError(error);
+    return false;
+  }
+  if (written === "conflict") return "conflict";
+
+  const omitted: SyncStatus["omitted"] = {};
+  for (const name of SYNC_COLLECTIONS) {
+    const ids = new Set(written.omitted[name] ?? []);
+    if (ids.size === 0) continue;
+    omitted[name] = ordered[name]
+      .filter((item) => ids.has(String(item.id)))
+      .map((item) => ({ id: String(item.id), label: truncateLabel(reportLabel(name, item)) }));
+  }
+  // Boards go first, so this only happens when the board records alone outgrow the quota.
+  const lostBoards = payload.bookmarks.filter((record) => isBoardRecord(record) && written.omitted.bookmarks?.includes(record.id));
+  if (lostBoards.length) console.warn("[nexx-sync] board records did not fit in sync storage:", lostBoards.map((board) => board.id));
+  updateSyncStatus({
+    lastPushAt: payload.meta.updatedAt,
+    bytesUsed: written.bytesUsed,
+    bytesQuota: written.bytesQuota,
+    bytesByCollection: written.bytesByCollection,
+    omitted,
+  });
+  return true;
+};
+
+/** The base both sides agree on once `payload` is all there is; domains not synced keep their old base. */
+const baseFor = async (payload: SyncPayload, domains: SyncDomainSettings) =>
+  (await mergeWithRemote(payload, payload, await readSyncBase(), 0, domains)).base;
+
+/**
+ * Merges this device with sync storage and writes back whichever side fell behind.
+ * Resolves true when local data changed, i.e. the page needs to pick up the merged state.
+ */
+const runSync = async (attempt = 1): Promise<boolean> => {
   const remote = await readSyncPayload();
-  const localUpdatedAt = getLocalUpdatedAt();
+  // Never write over data this device cannot read.
+  if (remote === "incomplete" || remote === "locked") return false;
+
+  // Another device wrote after the read: merge again with what it wrote
+  const retry = async (changedLocally: boolean) => {
+    if (attempt >= MAX_SYNC_ATTEMPTS) {
+      recordSyncError(WRITE_CONFLICT_ERROR);
+      return changedLocally;
+    }
+    return (await runSync(attempt + 1)) || changedLocally;
+  };
+
+  const domains = getSyncDomains();
+  const [local, base] = await Promise.all([collectLocalData(domains), readSyncBase()]);
 
   if (!remote) {
-    await pushLocalToSync();
-    return;
+    const pushed = await writeSyncPayload(local);
+    if (pushed === "conflict") return retry(false);
+    if (pushed) await metaDB.saveItem(await baseFor(local, domains));
+    return false;
   }
 
-  if (remote.meta.updatedAt > localUpdatedAt) {
-    await applySyncPayload(remote);
-    return;
+  const merged = await mergeWithRemote(local, remote, base, getLocalUpdatedAt(), domains);
+  if (merged.changedLocally) await applyMergedPayload(merged.payload, merged.preferencesChanged, domains);
+  updateSyncStatus({ lastPullAt: Date.now() });
+  await logSyncConflicts(merged.conflicts);
+
+  const pushed = merged.changedRemotely ? await writeSyncPayload(merged.payload) : true;
+  if (pushed === "conflict") return retry(merged.changedLocally);
+  if (pushed) await metaDB.saveItem(merged.base);
+  return merged.changedLocally;
+};
+
+// Syncs, force pushes/pulls and conflict fixes run one at a time.
+const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = syncQueue.then(task, task);
+  syncQueue = run.catch((error) => recordSyncError(error));
+  return run;
+};
+
+export const syncNow = (): Promise<boolean> => enqueue(() => runSync());
+
+/** Merges local data into sync storage now; kept for callers that only want to publish local edits. */
+export const pushLocalToSync = async (): Promise<boolean> => {
+  const changedLocally = await syncNow();
+  if (changedLocally) notifyRemoteChange?.();
+  return true;
+};
+
+/**
+ * Recovery: replaces sync storage with this device's data, ignoring what other devices wrote.
+ * Domains this browser does not sync are carried over, unless sync storage is unreadable.
+ */
+export const forcePushToSync = (): Promise<boolean> =>
+  enqueue(async () => {
+    const domains = getSyncDomains();
+    const [local, remote] = await Promise.all([collectLocalData(domains), readSyncPayload()]);
+    const payload = remote && remote !== "incomplete" && remote !== "locked" ? withRemoteExcluded(local, remote, domains) : local;
+    const pushed = await writeSyncPayload(payload);
+    if (pushed === "conflict") recordSyncError(WRITE_CONFLICT_ERROR);
+    if (pushed !== true) return false;
+    await metaDB.saveItem(await baseFor(payload, domains));
+    return true;
+  });
+
+const PAYLOAD_UNAVAILABLE = {
+  incomplete: "Another device is still writing; try again in a moment",
+  locked: "Sync data is encrypted; enter the passphrase first",
+} as const;
+
+/** Recovery: replaces this device's synced domains with sync storage; items that did not fit there are kept. */
+export const forcePullFromSync = (): Promise<boolean> =>
+  enqueue(async () => {
+    const remote = await readSyncPayload();
+    if (!remote || remote === "incomplete" || remote === "locked") {
+      recordSyncError(remote ? PAYLOAD_UNAVAILABLE[remote] : "Sync storage is empty");
+      return false;
+    }
+
+    const domains = getSyncDomains();
+    const local = await collectLocalData(domains);
+    const payload: SyncPayload = {
+      ...remote,
+      preferences: { ...local.preferences, ...remote.preferences },
+      tombstones: remote.tombstones ?? {},
+    };
+    for (const name of SYNC_COLLECTIONS) {
+      const omitted = new Set(remote.omitted?.[name] ?? []);
+      const kept = (local[name] as SyncRecord[]).filter((record) => omitted.has(String(record.id)));
+      (payload as unknown as Record<SyncCollection, SyncRecord[]>)[name] = [...(remote[name] as SyncRecord[]), ...kept];
+    }
+    payload.bookmarks = await Promise.all(
+      payload.bookmarks.map(async (record) =>
+        pointsAtBookmarkNode(record) ? { ...record, nodeId: await resolveBookmarkNodeId(record) } : record,
+      ),
+    );
+
+    await applyMergedPayload(payload, true, domains);
+    await metaDB.saveItem(await baseFor(payload, domains));
+    updateSyncStatus({ lastPullAt: Date.now() });
+    notifyRemoteChange?.();
+    return true;
+  });
+
+// Brings this device up to date, swaps the key, then rewrites sync storage with it; the old key is put back if the write fails.
+const rewriteWithKey = (changeKey: () => Promise<void>): Promise<boolean> =>
+  enqueue(async () => {
+    if (await runSync()) notifyRemoteChange?.();
+    const remote = await readSyncPayload();
+    if (remote === "incomplete" || remote === "locked") {
+      recordSyncError(PAYLOAD_UNAVAILABLE[remote]);
+      return false;
+    }
+
+    const previous = await getSyncKey();
+    await changeKey();
+    const domains = getSyncDomains();
+    const local = await collectLocalData(domains);
+    const payload = remote ? withRemoteExcluded(local, remote, domains) : local;
+    const pushed = await writeSyncPayload(payload);
+    if (pushed === "conflict") recordSyncError(WRITE_CONFLICT_ERROR);
+    if (pushed !== true) {
+      await restoreSyncKey(previous);
+      return false;
+    }
+    await metaDB.saveItem(await baseFor(payload, domains));
+    return true;
+  });
+
+/** Turns encryption on, or rotates the key when it already is; other devices need the new passphrase. */
+export const setSyncPassphrase = (passphrase: string): Promise<boolean> => rewriteWithKey(() => createSyncKey(passphrase));
+
+export const disableSyncEncryption = (): Promise<boolean> => rewriteWithKey(clearSyncKey);
+
+/** Unlocks sync data encrypted on another device; resolves false when the passphrase is wrong. */
+export const unlockSync = async (passphrase: string): Promise<boolean> => {
+  const snapshot = await (await activeBackend()).read();
+  const header =
+    snapshot && snapshot !== "incomplete" ? (snapshot.collections[ENCRYPTION_COLLECTION] as EncryptionHeader | undefined) : undefined;
+  if (header && !(await joinSyncKey(passphrase, header))) return false;
+  updateSyncStatus({ locked: undefined });
+  await pushLocalToSync();
+  return true;
+};
+
+export type ConflictChoice = ConflictResolution | "both";
+
+const firstFreeTilePosition = async (boardId: string): Promise<number> => {
+  const tiles = await loadBoardTiles<SyncBookmarkTile>(boardId);
+  const taken = new Set(tiles.map((tile) => tile.position));
+  const tileNumber = readJson<number>(localStorage.getItem("tileNumber"), 10);
+  for (let position = 0; position < tileNumber; position += 1) {
+    if (!taken.has(position)) return position;
   }
+  return Math.max(tileNumber, ...taken) + 1;
+};
 
-  if (localUpdatedAt > remote.meta.updatedAt) {
-    await pushLocalToSync();
+// The losing side of "keep both" is saved as a new record next to the winner.
+const copyAsNewRecord = async (collection: SyncCollection, record: SyncRecord): Promise<SyncRecord> => {
+  const copy = { ...record, id: crypto.randomUUID(), createdAt: Date.now() };
+  if (collection !== "bookmarks" || !pointsAtBookmarkNode(copy)) return copy;
+  const tile = copy as unknown as SyncBookmarkTile;
+  const nodeId = await resolveBookmarkNodeId(tile);
+  // Tag and session records have no place on the grid
+  if (isTagsRecord(copy) || isSessionRecord(copy)) {
+    const named: BookmarkTagsRecord | TabSessionRecord = { ...copy, nodeId };
+    return named;
   }
+  const placed: SyncBookmarkTile = {
+    ...tile,
+    position: await firstFreeTilePosition(tileBoardId(tile)),
+    nodeId,
+  };
+  return placed;
+};
+
+/**
+ * Applies the user's pick for a logged conflict and syncs the result.
+ * Picking the copy the merge already kept just clears the entry.
+ */
+export const resolveSyncConflict = (entry: SyncConflictEntry, choice: ConflictChoice): Promise<void> =>
+  enqueue(async () => {
+    if (choice !== entry.resolution) {
+      if (entry.collection === "preferences") {
+        const preferences = await readLocalPreferences();
+        await applyPreferences({ ...preferences, [entry.id]: choice === "remote" ? entry.remote : entry.local });
+      } else {
+        const db = COLLECTION_DBS[entry.collection];
+        const chosen = (choice === "remote" ? entry.remote : entry.local) as SyncRecord | null;
+        const loser = (entry.resolution === "local" ? entry.remote : entry.local) as SyncRecord | null;
+
+        if (choice === "both") {
+          if (loser) await db.saveItem(await copyAsNewRecord(entry.collection, loser));
+        } else if (chosen === null) {
+          await db.deleteItem(entry.id);
+        } else if (entry.collection === "bookmarks" && pointsAtBookmarkNode(chosen)) {
+          const tile = chosen as unknown as SyncBookmarkTile;
+          await db.saveItem({ ...tile, nodeId: await resolveBookmarkNodeId(tile) });
+        } else {
+          await db.saveItem(chosen);
+        }
+        notifyLocalSubscribers(db.storeName);
+      }
+      touchLocalUpdatedAt();
+    }
+    await removeSyncConflict(entry.key);
+  }).then(async () => {
+    if (choice === entry.resolution) return;
+    await syncNow();
+    if (entry.collection === "preferences") notifyRemoteChange?.();
+  });
+
+export const bootstrapSync = async (): Promise<void> => {
+  await syncNow();
 };
 
 export const scheduleSyncPush = () => {
+  touchLocalUpdatedAt();
   if (pushTimer) clearTimeout(pushTimer);
   pushTimer = setTimeout(() => {
     pushLocalToSync().catch((error) => console.warn("[nexx-sync] push failed:", error));
   }, DEBOUNCE_MS);
 };
 
-const isSyncKey = (key: string) =>
-  key === SYNC_META_KEY || (Object.values(SYNC_KEYS) as string[]).includes(key);
+const onBackendChange = () => {
+  syncNow()
+    .then((changedLocally) => {
+      if (changedLocally) notifyRemoteChange?.();
+    })
+    .catch((error) => console.warn("[nexx-sync] remote apply failed:", error));
+};
+
+const watchActiveBackend = async () => {
+  stopWatchingBackend?.();
+  stopWatchingBackend = null;
+  const next = await activeBackend();
+  stopWatchingBackend = next.watch(onBackendChange);
+};
+
+const reloadBackend = async () => {
+  backend = null;
+  if (notifyRemoteChange) await watchActiveBackend();
+};
+
+/**
+ * Moves sync to another backend and merges this device into it.
+ * The agreed base described the old backend, so the first merge with the new one starts without it.
+ */
+export const switchSyncBackend = async (config: Omit<SyncBackendConfig, "key">): Promise<boolean> => {
+  await enqueue(async () => {
+    await saveSyncBackendConfig(config);
+    await metaDB.deleteItem(SYNC_BASE_META_KEY);
+    updateSyncStatus({ lastPushAt: undefined, lastPullAt: undefined, bytesUsed: 0, bytesQuota: 0, bytesByCollection: {}, omitted: {} });
+    await reloadBackend();
+  });
+  return pushLocalToSync();
+};
+
+/** Runs before remote data overwrites anything local (local snapshots hook in here); null removes it. */
+export const setBeforeRemoteApply = (hook: (() => Promise<void>) | null) => {
+  beforeRemoteApply = hook;
+};
 
 export const initSyncListeners = (onRemoteChange: () => void) => {
-  chrome.storage.onChanged.addListener((changes, area) => {
-    if (area !== "sync" || isPushing) return;
-
-    const hasSyncChange = Object.keys(changes).some(isSyncKey);
-    if (!hasSyncChange) return;
-
-    readSyncPayload()
-      .then(async (remote) => {
-        if (!remote) return;
-        const localUpdatedAt = getLocalUpdatedAt();
-        if (remote.meta.updatedAt <= localUpdatedAt) return;
-        await applySyncPayload(remote);
-        onRemoteChange();
-      })
-      .catch((error) => console.warn("[nexx-sync] remote apply failed:", error));
+  notifyRemoteChange = onRemoteChange;
+  watchActiveBackend().catch((error) => console.warn("[nexx-sync] could not watch backend:", error));
+  // Another tab switched backends.
+  subscribeDataChanges([metaDB.storeName], (changes) => {
+    if (!changes.some((change) => !change.ids || change.ids.includes(SYNC_BACKEND_META_KEY))) return;
+    reloadBackend().catch((error) => console.warn("[nexx-sync] could not watch backend:", error));
   });
 };
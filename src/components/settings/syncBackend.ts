@@ -0,0 +1,118 @@
+import { metaDB } from "./settingsDb";
+import { SYNC_FORMAT_VERSION } from "./syncTransport";
+import { createChromeSyncBackend } from "./chromeSyncBackend";
+import { createWebDavSyncBackend } from "./webdavSyncBackend";
+import { createFolderSyncBackend } from "./folderSyncBackend";
+
+// Where synced data is stored. chrome.storage.sync needs no setup but only holds ~100 KB;
+// a WebDAV server or a local folder (e.g. one a desktop sync client watches) holds everything.
+
+export type SyncBackendKind = "chrome" | "webdav" | "folder";
+
+export interface WebDavConfig {
+  /** Folder URL on the server; the sync file is created inside it. */
+  url: string;
+  username: string;
+  /** Kept in the meta store with the rest of this config; backups and snapshots never include that store. */
+  password: string;
+}
+
+export interface SyncBackendConfig {
+  key: string;
+  kind: SyncBackendKind;
+  webdav?: WebDavConfig;
+  folder?: FileSystemDirectoryHandle;
+}
+
+/** What a backend holds: every collection by name, plus ids the writer could not fit. */
+export interface SyncSnapshot {
+  version: number;
+  updatedAt: number;
+  collections: Record<string, unknown>;
+  omitted: Record<string, string[]>;
+}
+
+export interface SyncWriteResult {
+  omitted: Record<string, string[]>;
+  bytesUsed: number;
+  /** 0 when the backend has no meaningful quota. */
+  bytesQuota: number;
+  bytesByCollection: Record<string, number>;
+}
+
+export interface SyncBackend {
+  kind: SyncBackendKind;
+  /** The stored snapshot, null when there is none, or "incomplete" while another device is mid-write. */
+  read(): Promise<SyncSnapshot | null | "incomplete">;
+  /**
+   * Writes `collections` in order of importance, keeping `carriedOmitted` listed. Resolves "conflict" when another
+   * device wrote since the last read, so nothing was written; throws when the write fails.
+   */
+  write(
+    collections: [string, unknown][],
+    updatedAt: number,
+    carriedOmitted?: Record<string, string[] | undefined>,
+  ): Promise<SyncWriteResult | "conflict">;
+  /** Calls `onChange` when another device may have written; returns the unsubscribe function. */
+  watch(onChange: () => void): () => void;
+}
+
+export const SYNC_BACKEND_META_KEY = "syncBackend";
+const DEFAULT_CONFIG: SyncBackendConfig = { key: SYNC_BACKEND_META_KEY, kind: "chrome" };
+
+// Backends without push notifications are polled while the page is visible.
+export const SYNC_POLL_INTERVAL_MS = 60 * 1000;
+
+/** Name of the single file the WebDAV and folder backends keep everything in. */
+export const SYNC_FILE_NAME = "nexx-sync.json";
+
+export const readSyncBackendConfig = async (): Promise<SyncBackendConfig> =>
+  (await metaDB.getItem<SyncBackendConfig>(SYNC_BACKEND_META_KEY)) ?? DEFAULT_CONFIG;
+
+export const saveSyncBackendConfig = async (config: Omit<SyncBackendConfig, "key">) => {
+  await metaDB.saveItem({ ...config, key: SYNC_BACKEND_META_KEY });
+};
+
+export const createSyncBackend = (config: SyncBackendConfig): SyncBackend => {
+  if (config.kind === "webdav" && config.webdav) return createWebDavSyncBackend(config.webdav);
+  if (config.kind === "folder" && config.folder) return createFolderSyncBackend(config.folder);
+  return createChromeSyncBackend();
+};
+
+/** Serialises a whole snapshot for the file-based backends; nothing is ever omitted there. */
+export const serializeSnapshot = (
+  collections: [string, unknown][],
+  updatedAt: number,
+  carriedOmitted: Record<string, string[] | undefined> = {},
+): { text: string; result: SyncWriteResult } => {
+  const omitted = Object.fromEntries(
+    Object.entries(carriedOmitted).filter((entry): entry is [string, string[]] => !!entry[1]?.length),
+  );
+  const snapshot: SyncSnapshot = { version: SYNC_FORMAT_VERSION, updatedAt, collections: Object.fromEntries(collections), omitted };
+  const text = JSON.stringify(snapshot);
+  const encoder = new TextEncoder();
+  const bytesByCollection = Object.fromEntries(
+    collections.map(([name, value]) => [name, encoder.encode(JSON.stringify(value)).length]),
+  );
+  return { text, result: { omitted, bytesUsed: encoder.encode(text).length, bytesQuota: 0, bytesByCollection } };
+};
+
+export const parseSnapshot = (text: string): SyncSnapshot | null => {
+  const parsed = JSON.parse(text) as Partial<SyncSnapshot> | null;
+  if (!parsed?.updatedAt || !parsed.collections) return null;
+  return { version: parsed.version ?? SYNC_FORMAT_VERSION, updatedAt: parsed.updatedAt, collections: parsed.collections, omitted: parsed.omitted ?? {} };
+};
+
+/** Runs `check` every poll interval while the page is visible, and once whenever it becomes visible. */
+export const pollWhileVisible = (check: () => Promise<void>): (() => void) => {
+  const run = () => {
+    if (document.visibilityState !== "visible") return;
+    check().catch((error) => console.warn("[nexx-sync] change check failed:", error));
+  };
+  const timer = setInterval(run, SYNC_POLL_INTERVAL_MS);
+  document.addEventListener("visibilitychange", run);
+  return () => {
+    clearInterval(timer);
+    document.removeEventListener("visibilitychange", run);
+  };
+};
@@ -0,0 +1,122 @@
+import { metaDB } from "./settingsDb";
+import { base64ToBytes, bytesToBase64, derivePbkdf2Key, openAesGcm, sealAesGcm } from "../../utils/aesGcm";
+
+// Optional end-to-end encryption for sync and backups. The passphrase never leaves this device and is
+// never stored: it is stretched with PBKDF2 and only the resulting non-extractable key is kept in IndexedDB.
+// Devices share the salt through the sync backend, so the same passphrase yields the same key everywhere.
+
+const SYNC_KEY_META_KEY = "syncKey";
+const PBKDF2_ITERATIONS = 600_000;
+const SALT_LENGTH = 16;
+// Encrypted with the key and stored next to the salt, so a wrong passphrase is told apart from corrupt data.
+const CHECK_TEXT = "nexx-sync-key-check";
+
+export const ENCRYPTED_BACKUP_FORMAT = "nexx-encrypted-backup";
+
+/** Stored in the sync backend next to the encrypted data; tells other devices how to derive the key. */
+export interface EncryptionHeader {
+  version: 1;
+  keyId: string;
+  iterations: number;
+  salt: string;
+  check: string;
+}
+
+export interface StoredSyncKey extends EncryptionHeader {
+  key: string;
+  cryptoKey: CryptoKey;
+}
+
+export interface EncryptedBackup {
+  format: typeof ENCRYPTED_BACKUP_FORMAT;
+  version: 1;
+  iterations: number;
+  salt: string;
+  data: string;
+}
+
+export const sealJson = async (key: CryptoKey, value: unknown): Promise<string> =>
+  bytesToBase64(await sealAesGcm(key, new TextEncoder().encode(JSON.stringify(value))));
+
+export const openJson = async <T>(key: CryptoKey, sealed: string): Promise<T> =>
+  JSON.parse(new TextDecoder().decode(await openAesGcm(key, base64ToBytes(sealed)))) as T;
+
+export const getSyncKey = (): Promise<StoredSyncKey | null> => metaDB.getItem<StoredSyncKey>(SYNC_KEY_META_KEY);
+
+/** Puts back a key read earlier with `getSyncKey`, or removes it when that was null. */
+export const restoreSyncKey = async (stored: StoredSyncKey | null) => {
+  if (stored) await metaDB.saveItem(stored);
+  else await metaDB.deleteItem(SYNC_KEY_META_KEY);
+};
+
+export const clearSyncKey = () => restoreSyncKey(null);
+
+export const encryptionHeader = ({ version, keyId, iterations, salt, check }: EncryptionHeader): EncryptionHeader => ({
+  version,
+  keyId,
+  iterations,
+  salt,
+  check,
+});
+
+/** A fresh key for `passphrase` with a new salt; other devices need the passphrase again afterwards. */
+export const createSyncKey = async (passphrase: string): Promise<void> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+  const cryptoKey = await derivePbkdf2Key(passphrase, salt, PBKDF2_ITERATIONS);
+  const stored: StoredSyncKey = {
+    key: SYNC_KEY_META_KEY,
+    version: 1,
+    keyId: crypto.randomUUID(),
+    iterations: PBKDF2_ITERATIONS,
+    salt: bytesToBase64(salt),
+    check: await sealJson(cryptoKey, CHECK_TEXT),
+    cryptoKey,
+  };
+  await metaDB.saveItem(stored);
+};
+
+/** Derives the key another device set up; resolves false when the passphrase is wrong. */
+export const joinSyncKey = async (passphrase: string, header: EncryptionHeader): Promise<boolean> => {
+  const cryptoKey = await derivePbkdf2Key(passphrase, base64ToBytes(header.salt), header.iterations);
+  try {
+    if ((await openJson<string>(cryptoKey, header.check)) !== CHECK_TEXT) return false;
+  } catch {
+    return false;
+  }
+  const stored: StoredSyncKey = { ...encryptionHeader(header), key: SYNC_KEY_META_KEY, cryptoKey };
+  await metaDB.saveItem(stored);
+  return true;
+};
+
+export const isEncryptedBackup = (value: unknown): value is EncryptedBackup =>
+  !!value && typeof value === "object" && (value as EncryptedBackup).format === ENCRYPTED_BACKUP_FORMAT;
+
+/** Encrypts a backup with the sync key; the file carries the salt, so the passphrase alone opens it later. */
+export const sealBackup = async (value: unknown, stored: StoredSyncKey): Promise<EncryptedBackup> => ({
+  format: ENCRYPTED_BACKUP_FORMAT,
+  version: 1,
+  iterations: stored.iterations,
+  salt: stored.salt,
+  data: await sealJson(stored.cryptoKey, value),
+});
+
+/**
+ * Opens a backup with a passphrase, or with the current sync key when the backup was made with it.
+ * Resolves null when neither fits.
+ */
+export const openBackup = async <T>(backup: EncryptedBackup, secret: string | StoredSyncKey): Promise<T | null> => {
+  let cryptoKey: CryptoKey;
+  if (typeof secret === "string") {
+    cryptoKey = await derivePbkdf2Key(secret, base64ToBytes(backup.salt), backup.iterations);
+  } else if (secret.salt === backup.salt && secret.iterations === backup.iterations) {
+    cryptoKey = secret.cryptoKey;
+  } else {
+    return null;
+  }
+
+  try {
+    return await openJson<T>(cryptoKey, backup.data);
+  } catch {
+    return null;
+  }
+};
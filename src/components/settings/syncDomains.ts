@@ -0,0 +1,85 @@
+import type { SyncPreferences } from "./settingsSync";
+
+// Which parts of the data this browser shares through sync. Kept in localStorage on purpose:
+// a work browser and a home browser each decide for themselves.
+
+export const SYNC_DOMAINS_KEY = "nexx_sync_domains";
+const SYNC_DOMAINS_EVENT = "nexx:sync-domains";
+
+export const SYNC_COLLECTIONS = ["reminders", "tasks", "alarms", "bookmarks", "backgrounds"] as const;
+export type SyncCollection = (typeof SYNC_COLLECTIONS)[number];
+
+export const PREFERENCE_DOMAINS = ["appearance", "calendar", "weather", "general"] as const;
+export type SyncPreferenceDomain = (typeof PREFERENCE_DOMAINS)[number];
+
+export type SyncDomain = SyncPreferenceDomain | SyncCollection;
+export const SYNC_DOMAINS: readonly SyncDomain[] = [...PREFERENCE_DOMAINS, ...SYNC_COLLECTIONS];
+
+export type SyncDomainSettings = Record<SyncDomain, boolean>;
+
+const PREFERENCE_FIELD_DOMAINS: Record<keyof SyncPreferences, SyncPreferenceDomain> = {
+  language: "general",
+  textColor: "appearance",
+  backgroundColor: "appearance",
+  textOutlineColor: "appearance",
+  fontSizeRatio: "appearance",
+  customThemes: "appearance",
+  selectedBackground: "appearance",
+  calendarType: "calendar",
+  weekendDays: "calendar",
+  weekendColor: "calendar",
+  firstDayOfWeek: "calendar",
+  weatherLocation: "weather",
+  tileNumber: "general",
+  typeofBookmarkForm: "general",
+  bookmarkSearchRecursive: "general",
+  corgiMode: "general",
+  petModeSettings: "general",
+  pomodoroSettings: "general",
+  toolsFavorites: "general",
+};
+
+const ALL_ENABLED = Object.fromEntries(SYNC_DOMAINS.map((domain) => [domain, true])) as SyncDomainSettings;
+
+export const getSyncDomains = (): SyncDomainSettings => {
+  try {
+    const raw = localStorage.getItem(SYNC_DOMAINS_KEY);
+    return raw ? { ...ALL_ENABLED, ...(JSON.parse(raw) as Partial<SyncDomainSettings>) } : ALL_ENABLED;
+  } catch {
+    return ALL_ENABLED;
+  }
+};
+
+export const setSyncDomainEnabled = (domain: SyncDomain, enabled: boolean) => {
+  const next = { ...getSyncDomains(), [domain]: enabled };
+  localStorage.setItem(SYNC_DOMAINS_KEY, JSON.stringify(next));
+  window.dispatchEvent(new CustomEvent<SyncDomainSettings>(SYNC_DOMAINS_EVENT, { detail: next }));
+};
+
+export const subscribeSyncDomains = (listener: (domains: SyncDomainSettings) => void): (() => void) => {
+  const onChange = (event: Event) => listener((event as CustomEvent<SyncDomainSettings>).detail);
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === SYNC_DOMAINS_KEY) listener(getSyncDomains());
+  };
+
+  window.addEventListener(SYNC_DOMAINS_EVENT, onChange);
+  window.addEventListener("storage", onStorage);
+  return () => {
+    window.removeEventListener(SYNC_DOMAINS_EVENT, onChange);
+    window.removeEventListener("storage", onStorage);
+  };
+};
+
+/** Whether `field` is shared; fields added later default to the general domain. */
+const isPreferenceFieldSynced = (field: string, domains: SyncDomainSettings): boolean =>
+  domains[PREFERENCE_FIELD_DOMAINS[field as keyof SyncPreferences] ?? "general"];
+
+/** Splits preference fields into the ones this browser syncs and the ones it keeps to itself. */
+export const splitPreferences = <T extends object>(preferences: T, domains: SyncDomainSettings) => {
+  const synced: Partial<T> = {};
+  const local: Partial<T> = {};
+  for (const [field, value] of Object.entries(preferences)) {
+    (isPreferenceFieldSynced(field, domains) ? synced : local)[field as keyof T] = value;
+  }
+  return { synced, local };
+};
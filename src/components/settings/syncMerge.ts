@@ -0,0 +1,183 @@
+// Three-way, per-record merge for sync.
+// Both sides are compared with the base — the record hashes this device agreed on at its last sync —
+// so independent edits are unioned and only records changed on both sides count as conflicts.
+
+export interface SyncTombstone {
+  id: string;
+  deletedAt: number;
+}
+
+/** Record id -> content hash at the last successful sync. */
+export type SyncBase = Record<string, string>;
+
+export interface CollectionSide<T> {
+  records: T[];
+  tombstones: SyncTombstone[];
+  /** Ids whose state on this side is unknown (they did not fit into sync storage). */
+  unknown?: string[];
+}
+
+export type ConflictResolution = "local" | "remote";
+
+export interface MergeConflict<T> {
+  id: string;
+  local: T | null;
+  remote: T | null;
+  resolution: ConflictResolution;
+}
+
+export interface CollectionMergeResult<T> {
+  records: T[];
+  tombstones: SyncTombstone[];
+  conflicts: MergeConflict<T>[];
+  /** Ids whose merged value came from the remote side. */
+  fromRemote: Set<string>;
+  changedLocally: boolean;
+  changedRemotely: boolean;
+  base: SyncBase;
+}
+
+export interface MergeOptions<T> {
+  id: (record: T) => string;
+  hash: (record: T) => string;
+  /** When the record was last changed on `side`; decides conflicts and base-less merges. */
+  time: (record: T, side: ConflictResolution) => number;
+  /** Tombstones older than this are forgotten. */
+  tombstoneTtlMs: number;
+  now?: number;
+}
+
+type SideState<T> =
+  | { kind: "record"; record: T; hash: string }
+  | { kind: "gone"; at: number }
+  | { kind: "unknown" };
+
+// FNV-1a over a key-sorted serialisation; only used to tell "same" from "changed".
+export const hashValue = (value: unknown, ignoredKeys: readonly string[] = []): string => {
+  const serialize = (input: unknown, depth: number): string => {
+    if (Array.isArray(input)) return `[${input.map((item) => serialize(item, depth + 1)).join(",")}]`;
+    if (input && typeof input === "object") {
+      const entries = Object.entries(input as Record<string, unknown>)
+        .filter(([key, item]) => item !== undefined && !(depth === 0 && ignoredKeys.includes(key)))
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+      return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${serialize(item, depth + 1)}`).join(",")}}`;
+    }
+    return JSON.stringify(input) ?? "null";
+  };
+
+  const text = serialize(value, 0);
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < text.length; index += 1) {
+    hash ^= text.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${(hash >>> 0).toString(16)}-${text.length.toString(36)}`;
+};
+
+const sameState = <T>(a: SideState<T>, b: SideState<T>) =>
+  a.kind === b.kind && (a.kind !== "record" || a.hash === (b as { hash: string }).hash);
+
+// A tombstone never matches the base: an explicit delete is a change even for an id the base never saw.
+const matchesBase = <T>(state: SideState<T>, baseHash: string | undefined) =>
+  state.kind === "record" ? state.hash === baseHash : state.kind === "gone" && state.at === 0 && baseHash === undefined;
+
+export const mergeCollection = <T>(
+  local: CollectionSide<T>,
+  remote: CollectionSide<T>,
+  base: SyncBase | null,
+  options: MergeOptions<T>,
+): CollectionMergeResult<T> => {
+  const now = options.now ?? Date.now();
+  const baseHashes = base ?? {};
+
+  const sideStates = (side: CollectionSide<T>) => {
+    const records = new Map(side.records.map((record) => [options.id(record), record]));
+    const tombstones = new Map(side.tombstones.map((tombstone) => [tombstone.id, tombstone.deletedAt]));
+    const unknown = new Set(side.unknown ?? []);
+    return {
+      ids: [...records.keys(), ...tombstones.keys()],
+      state: (id: string): SideState<T> => {
+        if (unknown.has(id)) return { kind: "unknown" };
+        const record = records.get(id);
+        if (record !== undefined) return { kind: "record", record, hash: options.hash(record) };
+        return { kind: "gone", at: tombstones.get(id) ?? 0 };
+      },
+    };
+  };
+
+  const localSide = sideStates(local);
+  const remoteSide = sideStates(remote);
+  const ids = new Set([...localSide.ids, ...remoteSide.ids, ...Object.keys(baseHashes)]);
+
+  const records: T[] = [];
+  const gone = new Map<string, number>();
+  const conflicts: MergeConflict<T>[] = [];
+  const fromRemote = new Set<string>();
+  const nextBase: SyncBase = {};
+  let changedLocally = false;
+  let changedRemotely = false;
+
+  const stateTime = (state: SideState<T>, side: ConflictResolution) =>
+    state.kind === "record" ? options.time(state.record, side) : state.kind === "gone" ? state.at : 0;
+
+  for (const id of ids) {
+    const localState = localSide.state(id);
+    const remoteState = remoteSide.state(id);
+    const baseHash = baseHashes[id];
+    let winner: ConflictResolution;
+
+    if (remoteState.kind === "unknown" || sameState(localState, remoteState)) {
+      winner = "local";
+    } else if (localState.kind === "unknown") {
+      winner = "remote";
+    } else if (matchesBase(localState, baseHash)) {
+      winner = "remote";
+    } else if (matchesBase(remoteState, baseHash)) {
+      winner = "local";
+    } else {
+      // Changed on both sides since the last sync (or never synced and different on each).
+      const localTime = stateTime(localState, "local");
+      const remoteTime = stateTime(remoteState, "remote");
+      if (baseHash !== undefined && localState.kind !== remoteState.kind) {
+        // Edit against delete: keep the edit rather than lose data.
+        winner = localState.kind === "record" ? "local" : "remote";
+      } else {
+        winner = remoteTime > localTime ? "remote" : "local";
+      }
+      if (base) {
+        conflicts.push({
+          id,
+          local: localState.kind === "record" ? localState.record : null,
+          remote: remoteState.kind === "record" ? remoteState.record : null,
+          resolution: winner,
+        });
+      }
+    }
+
+    const chosen = winner === "local" ? localState : remoteState;
+    if (winner === "remote") fromRemote.add(id);
+
+    if (chosen.kind === "record") {
+      records.push(chosen.record);
+      nextBase[id] = chosen.hash;
+    } else if (chosen.kind === "gone") {
+      const deletedAt = Math.max(...[localState, remoteState].map((state) => (state.kind === "gone" ? state.at : 0)));
+      gone.set(id, deletedAt || now);
+    }
+
+    if (!sameState(chosen, localState)) changedLocally = true;
+    if (remoteState.kind !== "unknown" && !sameState(chosen, remoteState)) changedRemotely = true;
+  }
+
+  const tombstones = [...gone.entries()]
+    .filter(([, deletedAt]) => now - deletedAt < options.tombstoneTtlMs)
+    .map(([id, deletedAt]) => ({ id, deletedAt }));
+
+  const tombstoneIds = (side: CollectionSide<T>) =>
+    side.tombstones.map((tombstone) => tombstone.id).sort().join("\n");
+  const mergedTombstoneIds = tombstones.map((tombstone) => tombstone.id).sort().join("\n");
+  if (mergedTombstoneIds !== tombstoneIds(remote)) changedRemotely = true;
+  if (mergedTombstoneIds !== tombstoneIds(local)) changedLocally = true;
+
+  return { records, tombstones, conflicts, fromRemote, changedLocally, changedRemotely, base: nextBase };
+};
@@ -0,0 +1,120 @@
+import { metaDB } from "./settingsDb";
+import { subscribeDataChanges } from "../IndexedDatabase/changeBus";
+import type { ConflictResolution } from "./syncMerge";
+import type { SyncCollection } from "./syncDomains";
+
+// What the Data settings show about sync: timings, quota use and errors live in localStorage
+// (small, read synchronously on render); the conflict log can hold whole records, so it lives in the meta store.
+
+export const SYNC_STATUS_KEY = "nexx_sync_status";
+const SYNC_STATUS_EVENT = "nexx:sync-status";
+const SYNC_CONFLICTS_META_KEY = "syncConflicts";
+const SYNC_CONFLICTS_EVENT = "nexx:sync-conflicts";
+const MAX_LOGGED_CONFLICTS = 50;
+const MAX_LOGGED_ERRORS = 10;
+
+export interface SyncReportItem {
+  id: string;
+  label: string;
+}
+
+export interface SyncErrorEntry {
+  at: number;
+  message: string;
+}
+
+export interface SyncStatus {
+  lastPushAt?: number;
+  lastPullAt?: number;
+  bytesUsed: number;
+  bytesQuota: number;
+  /** Stored bytes per collection (preferences, tombstones and each data collection) as of the last push. */
+  bytesByCollection: Record<string, number>;
+  /** Items the last push could not fit into sync storage. */
+  omitted: Partial<Record<SyncCollection, SyncReportItem[]>>;
+  /** Most recent first. */
+  errors: SyncErrorEntry[];
+  /** Set while sync data is encrypted with a key this device does not have (yet, or any more). */
+  locked?: "missing" | "rotated";
+}
+
+/** A record changed on both sides since the last sync, and which copy was kept. */
+export interface SyncConflictEntry {
+  key: string;
+  collection: SyncCollection | "preferences";
+  id: string;
+  local: unknown;
+  remote: unknown;
+  resolution: ConflictResolution;
+  at: number;
+}
+
+const EMPTY_STATUS: SyncStatus = { bytesUsed: 0, bytesQuota: 0, bytesByCollection: {}, omitted: {}, errors: [] };
+
+export const getSyncStatus = (): SyncStatus => {
+  try {
+    const raw = localStorage.getItem(SYNC_STATUS_KEY);
+    return raw ? { ...EMPTY_STATUS, ...(JSON.parse(raw) as Partial<SyncStatus>) } : EMPTY_STATUS;
+  } catch {
+    return EMPTY_STATUS;
+  }
+};
+
+export const updateSyncStatus = (patch: Partial<SyncStatus>) => {
+  const next = { ...getSyncStatus(), ...patch };
+  localStorage.setItem(SYNC_STATUS_KEY, JSON.stringify(next));
+  window.dispatchEvent(new CustomEvent<SyncStatus>(SYNC_STATUS_EVENT, { detail: next }));
+};
+
+export const recordSyncError = (error: unknown) => {
+  const message = error instanceof Error ? error.message : String(error);
+  console.warn("[nexx-sync]", message);
+  updateSyncStatus({ errors: [{ at: Date.now(), message }, ...getSyncStatus().errors].slice(0, MAX_LOGGED_ERRORS) });
+};
+
+export const subscribeSyncStatus = (listener: (status: SyncStatus) => void): (() => void) => {
+  const onStatus = (event: Event) => listener((event as CustomEvent<SyncStatus>).detail);
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === SYNC_STATUS_KEY) listener(getSyncStatus());
+  };
+
+  window.addEventListener(SYNC_STATUS_EVENT, onStatus);
+  window.addEventListener("storage", onStorage);
+  return () => {
+    window.removeEventListener(SYNC_STATUS_EVENT, onStatus);
+    window.removeEventListener("storage", onStorage);
+  };
+};
+
+export const getSyncConflicts = async (): Promise<SyncConflictEntry[]> =>
+  (await metaDB.getItem<{ key: string; entries: SyncConflictEntry[] }>(SYNC_CONFLICTS_META_KEY))?.entries ?? [];
+
+const saveSyncConflicts = async (entries: SyncConflictEntry[]) => {
+  await metaDB.saveItem({ key: SYNC_CONFLICTS_META_KEY, entries });
+  window.dispatchEvent(new CustomEvent(SYNC_CONFLICTS_EVENT));
+};
+
+/** Adds new conflicts, replacing older unresolved entries for the same record. */
+export const logSyncConflicts = async (entries: Omit<SyncConflictEntry, "key">[]) => {
+  if (entries.length === 0) return;
+  const keyed = entries.map((entry) => ({ ...entry, key: `${entry.collection}:${entry.id}:${entry.at}` }));
+  for (const entry of keyed) {
+    console.warn(`[nexx-sync] conflict on ${entry.collection}/${entry.id}, kept ${entry.resolution} copy`);
+  }
+  const replaced = new Set(keyed.map((entry) => `${entry.collection}:${entry.id}`));
+  const existing = (await getSyncConflicts()).filter((entry) => !replaced.has(`${entry.collection}:${entry.id}`));
+  await saveSyncConflicts([...keyed, ...existing].slice(0, MAX_LOGGED_CONFLICTS));
+};
+
+export const removeSyncConflict = async (key: string) => {
+  await saveSyncConflicts((await getSyncConflicts()).filter((entry) => entry.key !== key));
+};
+
+export const subscribeSyncConflicts = (listener: () => void): (() => void) => {
+  window.addEventListener(SYNC_CONFLICTS_EVENT, listener);
+  const unsubscribeOtherTabs = subscribeDataChanges([metaDB.storeName], listener);
+  return () => {
+    window.removeEventListener(SYNC_CONFLICTS_EVENT, listener);
+    unsubscribeOtherTabs();
+  };
+};
@@ -0,0 +1,217 @@
+import { base64ToBytes, bytesToBase64 } from "../../utils/aesGcm";
+
+// Chunked, compressed layout for chrome.storage.sync.
+//
+//   nexx_sync_meta          -> SyncManifest (chunk counts per collection)
+//   nexx_sync_<name>.<n>    -> "<generation>|<base64 slice of the encoded collection>"
+//   nexx_sync_omitted.<n>   -> ids per collection that did not fit, chunked the same way
+//
+// Every chunk carries the generation of the push that wrote it, so a reader that races a
+// push sees a mismatch and waits for the next change instead of decoding half a collection.
+
+export const SYNC_KEY_PREFIX = "nexx_sync_";
+export const SYNC_META_KEY = `${SYNC_KEY_PREFIX}meta`;
+export const SYNC_FORMAT_VERSION = 2;
+
+// Room left in each item for the key, the generation prefix and the JSON quotes.
+const CHUNK_OVERHEAD = 64;
+// Headroom under the total quota for the manifest's own bookkeeping.
+const TOTAL_HEADROOM = 1024;
+// Items whose JSON is smaller than this can never exceed the budget on their own.
+const LARGE_ITEM_CHARS = 4096;
+
+const OMITTED_KEY = "omitted";
+
+export type SyncEncoding = "deflate" | "json";
+
+export interface SyncChunks {
+  chunks: number;
+  encoding: SyncEncoding;
+}
+
+export interface SyncManifest {
+  version: number;
+  updatedAt: number;
+  generation: string;
+  collections: Record<string, SyncChunks>;
+  /** Present when something did not fit; points at the chunked list of omitted ids. */
+  omitted?: SyncChunks;
+}
+
+export interface UnpackedSync {
+  collections: Record<string, unknown>;
+  /** Ids per collection that did not fit; receivers keep their local copies of these. */
+  omitted: Record<string, string[]>;
+}
+
+export interface SyncItem {
+  id: string;
+}
+
+export interface PackResult {
+  items: Record<string, unknown>;
+  manifest: SyncManifest;
+  omitted: Record<string, string[]>;
+  bytesUsed: number;
+  bytesQuota: number;
+  bytesByCollection: Record<string, number>;
+}
+
+const quota = () => ({
+  perItem: chrome.storage.sync.QUOTA_BYTES_PER_ITEM ?? 8192,
+  total: chrome.storage.sync.QUOTA_BYTES ?? 102400,
+});
+
+const chunkKey = (collection: string, index: number) => `${SYNC_KEY_PREFIX}${collection}.${index}`;
+
+export const isSyncStorageKey = (key: string) => key.startsWith(SYNC_KEY_PREFIX);
+
+const storedSize = (key: string, value: unknown) => new TextEncoder().encode(key + JSON.stringify(value)).length;
+
+const pipeBytes = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> => {
+  const stream = new Blob([bytes]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const preferredEncoding = (): SyncEncoding => (typeof CompressionStream === "undefined" ? "json" : "deflate");
+
+export const encodeCollection = async (value: unknown, encoding: SyncEncoding = preferredEncoding()): Promise<string> => {
+  const bytes = new TextEncoder().encode(JSON.stringify(value));
+  return bytesToBase64(encoding === "deflate" ? await pipeBytes(bytes, new CompressionStream("deflate-raw")) : bytes);
+};
+
+export const decodeCollection = async <T>(encoded: string, encoding: SyncEncoding): Promise<T> => {
+  const bytes = base64ToBytes(encoded);
+  const raw = encoding === "deflate" ? await pipeBytes(bytes, new DecompressionStream("deflate-raw")) : bytes;
+  return JSON.parse(new TextDecoder().decode(raw)) as T;
+};
+
+const splitChunks = (encoded: string, size: number): string[] => {
+  const chunks: string[] = [];
+  for (let offset = 0; offset < encoded.length; offset += size) {
+    chunks.push(encoded.slice(offset, offset + size));
+  }
+  return chunks.length ? chunks : [""];
+};
+
+const chunkEntries = (collection: string, encoded: string, generation: string): [string, string][] => {
+  const size = quota().perItem - CHUNK_OVERHEAD;
+  return splitChunks(encoded, size).map((chunk, index) => [chunkKey(collection, index), `${generation}|${chunk}`]);
+};
+
+const entriesSize = (entries: [string, string][]) =>
+  entries.reduce((total, [key, value]) => total + storedSize(key, value), 0);
+
+/**
+ * Packs `collections` into storage items without exceeding the sync quotas.
+ * Collections are filled in the given order and items in the given order, so callers put
+ * what matters most first. Anything left out is listed under `omitted` rather than dropped silently,
+ * together with `carriedOmitted`: ids another device already left out of data passed through unchanged.
+ */
+export const packCollections = async (
+  collections: [string, unknown][],
+  updatedAt: number,
+  carriedOmitted: Record<string, string[] | undefined> = {},
+): Promise<PackResult> => {
+  const encoding = preferredEncoding();
+  const generation = updatedAt.toString(36);
+  const manifest: SyncManifest = { version: SYNC_FORMAT_VERSION, updatedAt, generation, collections: {} };
+  const omittedIds: Record<string, string[]> = {};
+  for (const [name, ids] of Object.entries(carriedOmitted)) {
+    if (ids?.length) omittedIds[name] = [...ids];
+  }
+  const items: Record<string, unknown> = {};
+  const bytesByCollection: Record<string, number> = {};
+  const bytesQuota = quota().total;
+  let remaining = bytesQuota - TOTAL_HEADROOM - JSON.stringify(omittedIds).length;
+
+  const encodeEntries = async (name: string, value: unknown) =>
+    chunkEntries(name, await encodeCollection(value, encoding), generation);
+
+  const store = (name: string, entries: [string, string][]): SyncChunks => {
+    for (const [key, value] of entries) items[key] = value;
+    bytesByCollection[name] = entriesSize(entries);
+    remaining -= bytesByCollection[name];
+    return { chunks: entries.length, encoding };
+  };
+
+  for (const [name, value] of collections) {
+    const full = await encodeEntries(name, value);
+    if (!Array.isArray(value) || entriesSize(full) <= remaining) {
+      manifest.collections[name] = store(name, full);
+      continue;
+    }
+
+    const list = value as SyncItem[];
+    const omitted: string[] = [];
+    const candidates: SyncItem[] = [];
+    for (const item of list) {
+      if (JSON.stringify(item).length > LARGE_ITEM_CHARS && entriesSize(await encodeEntries(name, [item])) > remaining) {
+        omitted.push(String(item.id));
+      } else {
+        candidates.push(item);
+      }
+    }
+
+    // Largest prefix of the remaining items that fits alongside the list of what was left out
+    // (counted uncompressed, which over-reserves a little).
+    const costOf = async (count: number) =>
+      entriesSize(await encodeEntries(name, candidates.slice(0, count))) +
+      JSON.stringify([...omitted, ...candidates.slice(count).map((item) => String(item.id))]).length;
+
+    let low = 0;
+    let high = candidates.length;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if ((await costOf(mid)) <= remaining) low = mid;
+      else high = mid - 1;
+    }
+
+    const kept = candidates.slice(0, low);
+    omitted.push(...candidates.slice(low).map((item) => String(item.id)));
+    omittedIds[name] = [...(omittedIds[name] ?? []), ...omitted];
+    remaining -= JSON.stringify(omitted).length;
+    manifest.collections[name] = store(name, await encodeEntries(name, kept));
+  }
+
+  if (Object.keys(omittedIds).length > 0) {
+    manifest.omitted = store(OMITTED_KEY, await encodeEntries(OMITTED_KEY, omittedIds));
+  }
+
+  items[SYNC_META_KEY] = manifest;
+  const bytesUsed = Object.entries(items).reduce((total, [key, value]) => total + storedSize(key, value), 0);
+  return { items, manifest, omitted: omittedIds, bytesUsed, bytesQuota, bytesByCollection };
+};
+
+/** Decodes every collection named in `manifest`, or returns null if the chunks belong to different pushes. */
+export const unpackCollections = async (
+  manifest: SyncManifest,
+  stored: Record<string, unknown>,
+): Promise<UnpackedSync | null> => {
+  const prefix = `${manifest.generation}|`;
+
+  const readChunks = async <T>(name: string, { chunks, encoding }: SyncChunks): Promise<T | null> => {
+    let encoded = "";
+    for (let index = 0; index < chunks; index += 1) {
+      const chunk = stored[chunkKey(name, index)];
+      if (typeof chunk !== "string" || !chunk.startsWith(prefix)) return null;
+      encoded += chunk.slice(prefix.length);
+    }
+    return decodeCollection<T>(encoded, encoding);
+  };
+
+  const collections: Record<string, unknown> = {};
+  for (const [name, chunks] of Object.entries(manifest.collections)) {
+    const value = await readChunks<unknown>(name, chunks);
+    if (value === null) return null;
+    collections[name] = value;
+  }
+
+  const omitted = manifest.omitted ? await readChunks<Record<string, string[]>>(OMITTED_KEY, manifest.omitted) : {};
+  if (omitted === null) return null;
+  return { collections, omitted };
+};
+
+/** Keys from an earlier push (or the old one-key-per-collection format) that the new push no longer uses. */
+export const staleSyncKeys = (stored: Record<string, unknown>, next: Record<string, unknown>): string[] =>
+  Object.keys(stored).filter((key) => isSyncStorageKey(key) && !(key in next));
@@ -8,6 +8,7 @@ export interface StoredBackground {
   isBlob: boolean;
   type: "image" | "color" | "gif";
   createdAt: number;
+  updatedAt?: number;
   thumbnailUrl?: string;
 }
 
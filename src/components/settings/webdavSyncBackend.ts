@@ -0,0 +1,89 @@
+import {
+  SYNC_FILE_NAME,
+  parseSnapshot,
+  pollWhileVisible,
+  serializeSnapshot,
+  type SyncBackend,
+  type WebDavConfig,
+} from "./syncBackend";
+
+const fileUrl = (config: WebDavConfig) => new URL(SYNC_FILE_NAME, config.url.endsWith("/") ? config.url : `${config.url}/`).href;
+
+/** Host permission pattern the extension needs before it can reach the server. */
+export const webDavOrigins = (config: WebDavConfig): string[] => [`${new URL(config.url).origin}/*`];
+
+const authorization = ({ username, password }: WebDavConfig) => {
+  const bytes = new TextEncoder().encode(`${username}:${password}`);
+  return `Basic ${btoa(String.fromCharCode(...bytes))}`;
+};
+
+// ETag when the server sends one, otherwise Last-Modified; either tells "same file" from "rewritten".
+const versionOf = (response: Response) => response.headers.get("ETag") ?? response.headers.get("Last-Modified");
+
+// Makes a PUT fail with 412 when the file is no longer the one last read: it must not exist yet after a 404,
+// and must still carry the ETag read otherwise. Servers without ETags get no precondition.
+const preconditionFor = (response: Response): Record<string, string> => {
+  if (response.status === 404) return { "If-None-Match": "*" };
+  const etag = response.headers.get("ETag");
+  return etag ? { "If-Match": etag } : {};
+};
+
+/** A single JSON file in a WebDAV folder (Nextcloud, ownCloud, Apache mod_dav, ...). */
+export const createWebDavSyncBackend = (config: WebDavConfig): SyncBackend => {
+  const url = fileUrl(config);
+  let knownVersion: string | null = null;
+  let precondition: Record<string, string> = {};
+
+  const request = async (method: string, body?: string, headers: Record<string, string> = {}): Promise<Response> => {
+    const granted = await chrome.permissions.contains({ origins: webDavOrigins(config) });
+    if (!granted) throw new Error(`No permission to reach ${new URL(config.url).origin}`);
+
+    const response = await fetch(url, {
+      method,
+      body,
+      cache: "no-store",
+      credentials: "omit",
+      headers: {
+        Authorization: authorization(config),
+        ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+        ...headers,
+      },
+    });
+    if (!response.ok && response.status !== 404 && response.status !== 412) {
+      throw new Error(`WebDAV ${method} failed: ${response.status} ${response.statusText}`.trim());
+    }
+    return response;
+  };
+
+  return {
+    kind: "webdav",
+
+    async read() {
+      const response = await request("GET");
+      precondition = preconditionFor(response);
+      if (response.status === 404) return null;
+      knownVersion = versionOf(response);
+      return parseSnapshot(await response.text());
+    },
+
+    async write(collections, updatedAt, carriedOmitted) {
+      const { text, result } = serializeSnapshot(collections, updatedAt, carriedOmitted);
+      const response = await request("PUT", text, precondition);
+      if (response.status === 412) return "conflict";
+      if (response.status === 404) throw new Error("WebDAV folder not found");
+      const written = response.headers.has("ETag") ? response : await request("HEAD");
+      knownVersion = versionOf(written) ?? versionOf(response);
+      precondition = preconditionFor(written);
+      return result;
+    },
+
+    watch(onChange) {
+      return pollWhileVisible(async () => {
+        const version = versionOf(await request("HEAD"));
+        if (version === knownVersion) return;
+        knownVersion = version;
+        onChange();
+      });
+    },
+  };
+};
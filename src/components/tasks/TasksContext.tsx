@@ -1,6 +1,7 @@
 import { createContext, useCallback, useContext, useEffect, useMemo, useState, type ReactNode } from "react";
 import { tasksDB } from "../settings/settingsDb";
 import { scheduleSyncPush } from "../settings/settingsSync";
+import { subscribeDataChanges } from "../IndexedDatabase/changeBus";
 import type { Task, TaskInput } from "./types";
 import { getDateKeysWithTasks, getTasksForDate } from "./taskUtils";
 
@@ -23,8 +24,8 @@ export function TasksProvider({ children }: { children: ReactNode }) {
 
   const loadTasks = useCallback(async () => {
     try {
-      const storedTasks = await tasksDB.getAllItems<Task>();
-      setTasks(storedTasks.sort((a, b) => b.createdAt - a.createdAt));
+      const storedTasks = await tasksDB.queryIndex<Task>("createdAt", undefined, { direction: "prev" });
+      setTasks(storedTasks);
     } catch (error) {
       console.error("Failed to load tasks:", error);
     } finally {
@@ -36,6 +37,9 @@ export function TasksProvider({ children }: { children: ReactNode }) {
     loadTasks();
   }, [loadTasks]);
 
+  // Pick up tasks added or edited in other tabs
+  useEffect(() => subscribeDataChanges([tasksDB.storeName], () => void loadTasks()), [loadTasks]);
+
   const addTask = useCallback(async (input: TaskInput) => {
     if (!input.text.trim()) return null;
 
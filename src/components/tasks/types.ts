@@ -5,6 +5,7 @@ export interface Task {
   text: string;
   taskType: TaskType;
   createdAt: number;
+  updatedAt?: number;
   color: string;
   emoji: string;
   completed?: boolean;
@@ -9,6 +9,7 @@ export interface AlarmItem {
   repeat: AlarmRepeat;
   repeatDays?: number[];
   createdAt: number;
+  updatedAt?: number;
   lastTriggeredAt?: number;
 }
 
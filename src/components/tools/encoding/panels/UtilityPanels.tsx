@@ -1,6 +1,7 @@
 import { useState, useMemo, useEffect, useRef } from "react";
 import { useI18n } from "../../../../i18n/LanguageProvider";
 import { ToolWorkspace, ToolToolbar, ToolColumn, ToolTextarea, ToolField } from "../../shared";
+import { base64ToBytes, bytesToBase64, openAesGcm, sealAesGcm } from "../../../../utils/aesGcm";
 
 /* ── Escape ── */
 
@@ -275,17 +276,6 @@ export function QrPanel() {
 type AesBits = 128 | 192 | 256;
 type AesMode = "encrypt" | "decrypt";
 
-const bytesToB64 = (bytes: Uint8Array): string => {
-  let binary = "";
-  bytes.forEach((b) => (binary += String.fromCharCode(b)));
-  return btoa(binary);
-};
-
-const b64ToBytes = (b64: string): Uint8Array => {
-  const binary = atob(b64);
-  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
-};
-
 async function deriveAesKey(passphrase: string, bits: AesBits): Promise<CryptoKey> {
   const raw = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(passphrase));
   const keyBytes = new Uint8Array(raw).slice(0, bits / 8);
@@ -315,20 +305,13 @@ export function AesPanel() {
       try {
         const key = await deriveAesKey(passphrase, bits);
         if (mode === "encrypt") {
-          const iv = crypto.getRandomValues(new Uint8Array(12));
-          const cipher = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, new TextEncoder().encode(input));
-          const packed = new Uint8Array(iv.length + cipher.byteLength);
-          packed.set(iv, 0);
-          packed.set(new Uint8Array(cipher), iv.length);
+          const packed = await sealAesGcm(key, new TextEncoder().encode(input));
           if (!cancelled) {
-            setOutput(bytesToB64(packed));
+            setOutput(bytesToBase64(packed));
             setError("");
           }
         } else {
-          const packed = b64ToBytes(input.replace(/\s/g, ""));
-          const iv = packed.slice(0, 12);
-          const data = packed.slice(12);
-          const plain = await crypto.subtle.decrypt({ name: "AES-GCM", iv }, key, data);
+          const plain = await openAesGcm(key, base64ToBytes(input.replace(/\s/g, "")));
           if (!cancelled) {
             setOutput(new TextDecoder().decode(plain));
             setError("");
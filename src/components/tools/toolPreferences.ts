@@ -29,6 +29,10 @@ export const addRecentToolKey = (key: string): string[] => {
   return next;
 };
 
+export const saveRecentToolKeys = (keys: string[]) => {
+  writeKeys(RECENT_KEY, keys.slice(0, MAX_RECENT_TOOLS));
+};
+
 export const toggleFavoriteToolKey = (key: string): string[] => {
   const current = readKeys(FAVORITES_KEY);
   const next = current.includes(key) ? current.filter((k) => k !== key) : [...current, key];
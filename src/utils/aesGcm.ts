@@ -0,0 +1,40 @@
+/** AES-GCM helpers shared by the AES tool and encrypted sync/backups. Sealed data is the 12-byte IV followed by the ciphertext. */
+
+const IV_LENGTH = 12;
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = "";
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000));
+  }
+  return btoa(binary);
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+
+export const sealAesGcm = async (key: CryptoKey, plaintext: Uint8Array): Promise<Uint8Array> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const cipher = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, plaintext);
+  const packed = new Uint8Array(iv.length + cipher.byteLength);
+  packed.set(iv, 0);
+  packed.set(new Uint8Array(cipher), iv.length);
+  return packed;
+};
+
+/** Rejects when the key is wrong or the data was tampered with. */
+export const openAesGcm = async (key: CryptoKey, packed: Uint8Array): Promise<Uint8Array> => {
+  const plain = await crypto.subtle.decrypt({ name: "AES-GCM", iv: packed.slice(0, IV_LENGTH) }, key, packed.slice(IV_LENGTH));
+  return new Uint8Array(plain);
+};
+
+/** Stretches a passphrase into a non-extractable AES-256-GCM key. */
+export const derivePbkdf2Key = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey("raw", new TextEncoder().encode(passphrase), "PBKDF2", false, ["deriveKey"]);
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+};